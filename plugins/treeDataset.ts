@@ -0,0 +1,93 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import { parseNeighborhoodBoundaries } from '../src/data/neighborhoodBoundaries.ts'
+import { decodeTreeDataset, encodeTreeDataset, findTreeRecordMismatch } from '../src/data/precomputed.ts'
+import { scoreTreeCsvData, type ReferenceDataSource, type TreeDatasetSource } from '../src/data/treeDataset.ts'
+
+const VIRTUAL_MODULE_ID = 'virtual:tree-dataset'
+const RESOLVED_VIRTUAL_MODULE_ID = `\0${VIRTUAL_MODULE_ID}`
+
+export type TreeDatasetPluginOptions = {
+  treeCsvPath?: string
+  neighborhoodsCsvPath?: string
+  rentCsvPath?: string
+  neighborhoodBoundariesPath?: string
+  precompute?: boolean
+}
+
+export const DEFAULT_DATASET_PATHS = {
+  treeCsv: 'Data/CleanedTreeData.csv',
+  neighborhoodsCsv: 'Data/NeighborhoodCoordinates.csv',
+  rentCsv: 'Data/StreetEasyRentDataCL.csv',
+  neighborhoodBoundaries: 'Data/NeighborhoodBoundaries.geojson',
+}
+
+export default function treeDatasetPlugin(options: TreeDatasetPluginOptions = {}): Plugin {
+  const csvPaths = {
+    treeCsv: options.treeCsvPath ?? DEFAULT_DATASET_PATHS.treeCsv,
+    neighborhoodsCsv: options.neighborhoodsCsvPath ?? DEFAULT_DATASET_PATHS.neighborhoodsCsv,
+    rentCsv: options.rentCsvPath ?? DEFAULT_DATASET_PATHS.rentCsv,
+  }
+  const boundariesPath = options.neighborhoodBoundariesPath ?? DEFAULT_DATASET_PATHS.neighborhoodBoundaries
+  let root = process.cwd()
+  let precompute = options.precompute ?? true
+
+  return {
+    name: 'tree-dataset',
+    configResolved(config) {
+      root = config.root
+      precompute = options.precompute ?? config.command === 'build'
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_MODULE_ID) return RESOLVED_VIRTUAL_MODULE_ID
+    },
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_MODULE_ID) return
+
+      const hasBoundaries = existsSync(path.resolve(root, boundariesPath))
+      // A broken boundaries file would otherwise only surface once the app tries to load it.
+      if (hasBoundaries) {
+        try {
+          parseNeighborhoodBoundaries(readFileSync(path.resolve(root, boundariesPath), 'utf8'))
+        } catch (error) {
+          this.error(`${boundariesPath}: ${(error as Error).message}`)
+        }
+      }
+
+      if (!precompute) {
+        return [
+          `import treeCsv from ${JSON.stringify(`/${csvPaths.treeCsv}?raw`)}`,
+          `import neighborhoodsCsv from ${JSON.stringify(`/${csvPaths.neighborhoodsCsv}?raw`)}`,
+          `import rentCsv from ${JSON.stringify(`/${csvPaths.rentCsv}?raw`)}`,
+          hasBoundaries
+            ? `import neighborhoodBoundariesGeoJson from ${JSON.stringify(`/${boundariesPath}?raw`)}`
+            : 'const neighborhoodBoundariesGeoJson = null',
+          `export default { kind: 'raw', treeCsv, neighborhoodsCsv, rentCsv, neighborhoodBoundariesGeoJson }`,
+        ].join('\n')
+      }
+
+      const readDataFile = (relativePath: string) => {
+        const filePath = path.resolve(root, relativePath)
+        this.addWatchFile(filePath)
+        return readFileSync(filePath, 'utf8')
+      }
+
+      const reference: ReferenceDataSource = {
+        neighborhoodsCsv: readDataFile(csvPaths.neighborhoodsCsv),
+        rentCsv: readDataFile(csvPaths.rentCsv),
+        neighborhoodBoundariesGeoJson: hasBoundaries ? readDataFile(boundariesPath) : null,
+      }
+      const trees = scoreTreeCsvData({ kind: 'raw', treeCsv: readDataFile(csvPaths.treeCsv), ...reference })
+      const dataset = encodeTreeDataset(trees)
+      // Guards the encoding only; src/data/treeDataset.test.ts checks that decoded and runtime scores agree.
+      const mismatch = findTreeRecordMismatch(trees, decodeTreeDataset(dataset))
+      if (mismatch) {
+        this.error(`Precomputed tree dataset does not decode to the scored trees: ${mismatch}`)
+      }
+
+      const source: TreeDatasetSource = { kind: 'precomputed', dataset, ...reference }
+      return `export default JSON.parse(${JSON.stringify(JSON.stringify(source))})`
+    },
+  }
+}
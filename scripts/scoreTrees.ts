@@ -0,0 +1,153 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { DEFAULT_DATASET_PATHS } from '../plugins/treeDataset.ts'
+import { summarizeNeighborhoods, summarizeTrees, type NeighborhoodSummary } from '../src/data/neighborhoodSummary.ts'
+import { DEFAULT_RENT_INTERPOLATION, RENT_INTERPOLATION_STRATEGIES } from '../src/data/rentInterpolation.ts'
+import { applyScoringModel, DEFAULT_SCORING_MODEL, SCORING_MODELS } from '../src/data/scoringModels.ts'
+import { createTreeCsv, createTreeGeoJson, type TreeExportMetadata } from '../src/data/treeExport.ts'
+import { scoreTreeCsvData } from '../src/data/treeDataset.ts'
+
+const USAGE = `Usage: npm run score -- [trees.csv neighborhoods.csv rent.csv] [options]
+
+Scores every tree and prints per-neighborhood accessibility summaries.
+
+Options:
+  --boundaries <file>   Neighborhood boundary GeoJSON (default: ${DEFAULT_DATASET_PATHS.neighborhoodBoundaries})
+  --model <id>          Scoring model: ${SCORING_MODELS.map((model) => model.id).join(', ')}
+  --rent <strategy>     Rent interpolation: ${RENT_INTERPOLATION_STRATEGIES.map((info) => info.id).join(', ')}
+  --rent-power <n>      IDW power (default: ${DEFAULT_RENT_INTERPOLATION.power})
+  --rent-k <n>          Neighborhoods used for rent interpolation (default: ${DEFAULT_RENT_INTERPOLATION.neighborCount})
+  --out <file>          Write the scored trees as .csv or .geojson
+  --json                Print the summaries as JSON instead of a table
+  --help                Show this message`
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    boundaries: { type: 'string' },
+    model: { type: 'string' },
+    rent: { type: 'string' },
+    'rent-power': { type: 'string' },
+    'rent-k': { type: 'string' },
+    out: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+})
+
+if (options.help) {
+  console.log(USAGE)
+  process.exit(0)
+}
+if (positionals.length !== 0 && positionals.length !== 3) {
+  fail('Pass all three CSV paths (trees, neighborhoods, rent) or none to use the defaults.')
+}
+
+const root = process.cwd()
+const [treeCsvPath, neighborhoodsCsvPath, rentCsvPath] =
+  positionals.length === 3
+    ? positionals
+    : [DEFAULT_DATASET_PATHS.treeCsv, DEFAULT_DATASET_PATHS.neighborhoodsCsv, DEFAULT_DATASET_PATHS.rentCsv]
+const boundariesPath =
+  options.boundaries ??
+  (existsSync(path.resolve(root, DEFAULT_DATASET_PATHS.neighborhoodBoundaries))
+    ? DEFAULT_DATASET_PATHS.neighborhoodBoundaries
+    : null)
+
+const scoringModel = options.model ? SCORING_MODELS.find((model) => model.id === options.model) : DEFAULT_SCORING_MODEL
+if (!scoringModel) fail(`Unknown scoring model "${options.model}".`)
+const strategy = options.rent
+  ? RENT_INTERPOLATION_STRATEGIES.find((info) => info.id === options.rent)?.id
+  : DEFAULT_RENT_INTERPOLATION.strategy
+if (!strategy) fail(`Unknown rent interpolation "${options.rent}".`)
+const rentInterpolation = {
+  strategy,
+  power: readNumberOption('rent-power', DEFAULT_RENT_INTERPOLATION.power, 0, false),
+  neighborCount: readNumberOption('rent-k', DEFAULT_RENT_INTERPOLATION.neighborCount, 1, true),
+}
+
+const readDataFile = (relativePath: string) => readFileSync(path.resolve(root, relativePath), 'utf8')
+const defaultScoredTrees = scoreTreeCsvData(
+  {
+    kind: 'raw',
+    treeCsv: readDataFile(treeCsvPath),
+    neighborhoodsCsv: readDataFile(neighborhoodsCsvPath),
+    rentCsv: readDataFile(rentCsvPath),
+    neighborhoodBoundariesGeoJson: boundariesPath ? readDataFile(boundariesPath) : null,
+  },
+  { interpolation: rentInterpolation },
+)
+const trees =
+  scoringModel === DEFAULT_SCORING_MODEL ? defaultScoredTrees : applyScoringModel(defaultScoredTrees, scoringModel)
+
+const summaries = [...summarizeNeighborhoods(trees), summarizeTrees('All neighborhoods', trees)]
+if (options.json) {
+  console.log(JSON.stringify(summaries, null, 2))
+} else {
+  printSummaryTable(summaries)
+}
+
+if (options.out) {
+  const metadata: TreeExportMetadata = {
+    exportedAt: new Date().toISOString(),
+    source: [treeCsvPath, neighborhoodsCsvPath, rentCsvPath, boundariesPath].filter(Boolean).join(', '),
+    treeCount: trees.length,
+    totalTreeCount: trees.length,
+    filters: null,
+    scoringModel,
+    rentInterpolation,
+  }
+  const outPath = path.resolve(root, options.out)
+  const extension = path.extname(outPath).toLowerCase()
+  if (extension === '.csv') {
+    writeFileSync(outPath, createTreeCsv(trees, metadata))
+  } else if (extension === '.geojson' || extension === '.json') {
+    writeFileSync(outPath, JSON.stringify(createTreeGeoJson(trees, metadata)))
+  } else {
+    fail(`Cannot tell the output format from "${options.out}"; use a .csv or .geojson extension.`)
+  }
+  console.error(`Wrote ${trees.length} scored trees to ${options.out}`)
+}
+
+function printSummaryTable(rows: NeighborhoodSummary[]): void {
+  const table = [
+    ['Neighborhood', 'Borough', 'Trees', 'Scored', 'Mean', 'Median', 'Dead %'],
+    ...rows.map((row) => [
+      row.neighborhood,
+      row.borough ?? '',
+      String(row.treeCount),
+      String(row.scoredCount),
+      formatScore(row.meanAccessibility),
+      formatScore(row.medianAccessibility),
+      row.deadPercent.toFixed(1),
+    ]),
+  ]
+  const widths = table[0].map((_, column) => Math.max(...table.map((cells) => cells[column].length)))
+  table.forEach((cells) => {
+    const padded = cells.map((cell, column) =>
+      column <= 1 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]),
+    )
+    console.log(padded.join('  '))
+  })
+}
+
+function formatScore(value: number | null): string {
+  return value == null ? '-' : value.toFixed(2)
+}
+
+function readNumberOption(name: 'rent-power' | 'rent-k', fallback: number, min: number, integer: boolean): number {
+  const value = options[name]
+  if (value == null) return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < min || (integer && !Number.isInteger(parsed))) {
+    fail(`--${name} must be ${integer ? 'an integer' : 'a number'} of at least ${min}.`)
+  }
+  return parsed
+}
+
+function fail(message: string): never {
+  console.error(message)
+  console.error(USAGE)
+  process.exit(1)
+}
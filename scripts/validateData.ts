@@ -0,0 +1,60 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import { DEFAULT_DATASET_PATHS } from '../plugins/treeDataset.ts'
+import { formatValidationIssue, validateDatasets, type ValidationIssue } from '../src/data/validation.ts'
+
+const MAX_PRINTED_ISSUES_PER_DATASET = 20
+
+const root = process.cwd()
+const readDataFile = (relativePath: string) => readFileSync(path.resolve(root, relativePath), 'utf8')
+
+const report = validateDatasets({
+  treeCsv: readDataFile(DEFAULT_DATASET_PATHS.treeCsv),
+  neighborhoodsCsv: readDataFile(DEFAULT_DATASET_PATHS.neighborhoodsCsv),
+  rentCsv: readDataFile(DEFAULT_DATASET_PATHS.rentCsv),
+  neighborhoodBoundariesGeoJson: existsSync(path.resolve(root, DEFAULT_DATASET_PATHS.neighborhoodBoundaries))
+    ? readDataFile(DEFAULT_DATASET_PATHS.neighborhoodBoundaries)
+    : null,
+})
+
+report.summaries.forEach((summary) => {
+  console.log(
+    `${summary.dataset}: ${summary.keptRows} of ${summary.totalRows} rows kept, ${summary.droppedRows} dropped`,
+  )
+})
+if (report.unmatchedNeighborhoods.length > 0) {
+  console.log(
+    `Neighborhoods without rent: ${report.unmatchedNeighborhoods.map((neighborhood) => neighborhood.name).join(', ')}`,
+  )
+}
+
+const issuesByDataset = new Map<string, ValidationIssue[]>()
+report.issues.forEach((issue) => {
+  const issues = issuesByDataset.get(issue.dataset) ?? []
+  issues.push(issue)
+  issuesByDataset.set(issue.dataset, issues)
+})
+issuesByDataset.forEach((issues) => {
+  const printed = [
+    ...issues.filter((issue) => issue.severity === 'error'),
+    ...issues.filter((issue) => issue.severity === 'warning').slice(0, MAX_PRINTED_ISSUES_PER_DATASET),
+  ]
+  printed.forEach((issue) => {
+    const line = formatValidationIssue(issue)
+    if (issue.severity === 'error') {
+      console.error(line)
+    } else {
+      console.warn(line)
+    }
+  })
+  const hidden = issues.length - printed.length
+  if (hidden > 0) {
+    console.warn(`… ${hidden} more warnings for ${issues[0].dataset}`)
+  }
+})
+
+if (report.hasErrors) {
+  console.error('Data validation failed.')
+  process.exit(1)
+}
+console.log(`Data validation passed with ${report.issues.length} warnings.`)
@@ -1,63 +1,83 @@
-import { useEffect, useState, type MouseEvent } from 'react'
-import treeDataCsv from '../Data/CleanedTreeData.csv?raw'
-import neighborhoodsCsv from '../Data/NeighborhoodCoordinates.csv?raw'
-import rentDataCsv from '../Data/StreetEasyRentDataCL.csv?raw'
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type FocusEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+  type Ref,
+  type RefObject,
+} from 'react'
+import {
+  DEFAULT_CELL_COLOR,
+  DEFAULT_COLOR_MODE,
+  DEFAULT_COLOR_PALETTE,
+  getAccessibilityColor,
+  getColorPalette,
+  type ColorScale,
+} from './colors.ts'
+import { isTreePinned } from './collections/collections.ts'
+import { CollectionsPanel } from './collections/CollectionsPanel.tsx'
+import { NeighborhoodDashboard } from './dashboard/NeighborhoodDashboard.tsx'
+import { TreeDetailDrawer } from './detail/TreeDetailDrawer.tsx'
+import { BOROUGHS, isBorough, type Borough } from './data/boroughs.ts'
+import { getGoogleMapsUrl } from './data/geo.ts'
+import { applyScoringModel, DEFAULT_SCORING_MODEL, getScoringModel, SCORING_MODELS } from './data/scoringModels.ts'
+import { filterTrees, getTreeFilterOptions } from './data/treeFilters.ts'
+import {
+  getTreeKey,
+  type TreeDataProgress,
+  type TreeDataStage,
+  type TreeLocation,
+  type TreeRecord,
+} from './data/trees.ts'
+import { TreeExportPanel } from './export/TreeExportPanel.tsx'
+import { FilterPanel } from './filters/FilterPanel.tsx'
+import { VisitHistoryPanel } from './history/VisitHistoryPanel.tsx'
+import { ColorLegend } from './legend/ColorLegend.tsx'
+import { TreeMap } from './map/TreeMap.tsx'
+import { ExportPanel } from './mosaic/ExportPanel.tsx'
+import { getCellAnchor, getNextGridIndex } from './mosaic/gridNavigation.ts'
+import { MosaicCanvas } from './mosaic/MosaicCanvas.tsx'
+import type { MosaicSnapshot } from './mosaic/mosaicExport.ts'
+import { RentPanel } from './rent/RentPanel.tsx'
+import { WalkingRoutePanel } from './route/WalkingRoutePanel.tsx'
+import { createRandomSeed, formatSeed } from './session/random.ts'
+import { createTreeSampler, SAMPLING_MODES, type CellDraw, type SamplingMode } from './session/sampling.ts'
+import { MAX_GRID_DIMENSION, readSessionState, writeSessionState, type GridSize } from './session/urlState.ts'
+import {
+  calculateTooltipPosition,
+  getResponsiveFontSizePx,
+  getTooltipMetrics,
+  getTreeTooltipContent,
+  type TooltipAnchor,
+  type TooltipLine,
+  type TooltipMetrics,
+} from './tooltip.ts'
+import { useFocusTrap } from './useFocusTrap.ts'
+import { DatasetUploadPanel } from './upload/DatasetUploadPanel.tsx'
+import type { UploadedDataset } from './upload/uploadStore.ts'
+import { useCollections } from './useCollections.ts'
+import { useTreeData } from './useTreeData.ts'
+import { useVisitHistory } from './useVisitHistory.ts'
+import { ValidationOverlay } from './validation/ValidationOverlay.tsx'
 import './App.css'
 
-const GRID_SIZE = 12
-const CELL_COUNT = GRID_SIZE * GRID_SIZE
-const DEFAULT_CELL_COLOR = '#160B06'
-const TOOLTIP_GAP = 16
-const TOOLTIP_LINE_HEIGHT = 2.1
-const TOOLTIP_FONT_SIZE_MIN_PX = 9
-const TOOLTIP_FONT_SIZE_MAX_PX = 18
-const TOOLTIP_FONT_SIZE_VIEWPORT_RATIO = 0.015
-const TOOLTIP_PADDING_X_SCALE = 1.25
-const TOOLTIP_PADDING_Y_SCALE = 0.55
 const MODAL_LINE_HEIGHT = 1.6
-const NEAREST_NEIGHBOR_COUNT = 3
 const MOBILE_POINTER_QUERY = '(pointer: coarse)'
+const COPY_STATUS_RESET_MS = 2000
+const CANVAS_RENDER_THRESHOLD = 400
+const MOSAIC_INSTRUCTIONS_ID = 'mosaic-instructions'
 
-let measurementContext: CanvasRenderingContext2D | null = null
+type ViewMode = 'mosaic' | 'map' | 'dashboard'
 
-const ACCESSIBILITY_COLORS = {
-  excellent: '#0C3B1D',
-  great: '#1C7F3B',
-  fair: '#FFFFFF',
-  poor: '#C0392B',
-  unknown: '#3A2A24',
-} as const
+type CellClickAction = 'details' | 'google-maps' | 'map-view' | 'pin'
 
-const RENT_KEY_ALIASES: Record<string, string> = {
-  'gramecy park': 'gramercy park',
-  'stuyvesant town': 'stuyvesant town/pcv',
-}
-
-type TreeRecord = {
-  treeId: string
-  status: string
-  sidewalk: string
-  problems: string
-  latitude: number
-  longitude: number
-  neighborhood: string
-  species: string
-  treeFriendsScore: number
-  affordabilityScore: number | null
-  accessibilityScore: number | null
-}
+type SidePanel = 'history' | 'collections'
 
-type NeighborhoodRecord = {
-  name: string
-  latitude: number
-  longitude: number
-}
-
-type TooltipMetrics = {
-  fontSizePx: number
-  paddingXPx: number
-  paddingYPx: number
-}
+type CopyLinkStatus = 'idle' | 'copied' | 'failed'
 
 type TooltipState = {
   lines: TooltipLine[]
@@ -66,44 +86,97 @@ type TooltipState = {
   metrics: TooltipMetrics
 }
 
-type TooltipLine = {
-  text: string
-  deadSuffix?: string
-}
-
-type NeighborhoodMatch = {
-  name: string
-  distance: number
-  rent: number | null
-}
-
-type IndexedTreePoint = {
-  tree: TreeRecord
-  latitude: number
-  longitude: number
-  index: number
-}
-
-type KdTreeNode = {
-  point: IndexedTreePoint
-  axis: 0 | 1
-  left: KdTreeNode | null
-  right: KdTreeNode | null
+const TREE_DATA_STAGE_LABELS: Record<TreeDataStage, string> = {
+  decoding: 'Unpacking trees',
+  parsing: 'Reading tree census',
+  'tree-friends': 'Measuring tree friends',
+  accessibility: 'Scoring accessibility',
 }
 
-const rentLookup = parseRentData(rentDataCsv)
-const neighborhoods = parseNeighborhoodData(neighborhoodsCsv)
-const trees = parseTreeData(treeDataCsv, neighborhoods, rentLookup)
-
 function App() {
-  const [cellTreeIndices, setCellTreeIndices] = useState(() =>
-    Array.from({ length: CELL_COUNT }, () => getRandomTreeIndex()),
-  )
   const [tooltip, setTooltip] = useState<TooltipState | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(true)
+  const modalRef = useRef<HTMLDivElement>(null)
+  const [announcement, setAnnouncement] = useState('')
   const [modalFontSizePx, setModalFontSizePx] = useState(() => getResponsiveFontSizePx())
-  const [mobileActiveCell, setMobileActiveCell] = useState<number | null>(null)
   const isMobile = useIsMobile()
+  const [initialSession] = useState(() => readSessionState(window.location.search))
+  const [seed, setSeed] = useState(initialSession.seed)
+  const [gridSize, setGridSize] = useState(initialSession.gridSize)
+  const [samplingMode, setSamplingMode] = useState(initialSession.samplingMode)
+  const [rentInterpolation, setRentInterpolation] = useState(initialSession.rentInterpolation)
+  const { state: treeData, uploadDataset, resetDataset } = useTreeData(rentInterpolation)
+  const [scoringModelId, setScoringModelId] = useState(initialSession.scoringModelId)
+  const scoringModel = getScoringModel(scoringModelId)
+  const loadedTrees = treeData.status === 'ready' ? treeData.trees : null
+  const scoredTrees = useMemo(() => {
+    if (!loadedTrees || scoringModel === DEFAULT_SCORING_MODEL) return loadedTrees
+    return applyScoringModel(loadedTrees, scoringModel)
+  }, [loadedTrees, scoringModel])
+  const [treeFilters, setTreeFilters] = useState(initialSession.filters)
+  const filterOptions = useMemo(
+    () => (loadedTrees ? getTreeFilterOptions(loadedTrees, treeFilters.borough) : null),
+    [loadedTrees, treeFilters.borough],
+  )
+  const filteredTrees = useMemo(
+    () => (scoredTrees ? filterTrees(scoredTrees, treeFilters) : null),
+    [scoredTrees, treeFilters],
+  )
+  // The dashboard compares every neighborhood, so it ignores the neighborhood filter it sets.
+  const dashboardTrees = useMemo(
+    () => (scoredTrees ? filterTrees(scoredTrees, { ...treeFilters, neighborhood: null }) : null),
+    [scoredTrees, treeFilters],
+  )
+  const [viewMode, setViewMode] = useState<ViewMode>('mosaic')
+  const [cellClickAction, setCellClickAction] = useState<CellClickAction>('details')
+  const [highlightedTree, setHighlightedTree] = useState<TreeRecord | null>(null)
+  // An index into scoredTrees, which keeps its order when the scoring model or rent interpolation changes, so the
+  // drawer follows the selected tree's rescored record.
+  const [selectedTreeIndex, setSelectedTreeIndex] = useState<number | null>(null)
+  const selectedTree = selectedTreeIndex != null ? (scoredTrees?.[selectedTreeIndex] ?? null) : null
+  const scoredTreeIndices = useMemo(
+    () => new Map(scoredTrees?.map((tree, index) => [getTreeKey(tree), index]) ?? []),
+    [scoredTrees],
+  )
+  const visitHistory = useVisitHistory()
+  const collections = useCollections()
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null)
+  const [copyLinkStatus, setCopyLinkStatus] = useState<CopyLinkStatus>('idle')
+  const mosaicCellTreesRef = useRef<(TreeRecord | undefined)[]>([])
+  const [colorPaletteId, setColorPaletteId] = useState(initialSession.colorPaletteId)
+  const [colorMode, setColorMode] = useState(initialSession.colorMode)
+  const colorScale = useMemo<ColorScale>(
+    () => ({ palette: getColorPalette(colorPaletteId), mode: colorMode }),
+    [colorPaletteId, colorMode],
+  )
+  const session = {
+    seed,
+    gridSize,
+    samplingMode,
+    filters: treeFilters,
+    scoringModelId,
+    rentInterpolation,
+    colorPaletteId,
+    colorMode,
+  }
+  const sessionQuery = writeSessionState(session)
+  // Switching palettes recolors the mosaic in place instead of drawing a new one.
+  const mosaicKey = writeSessionState({
+    ...session,
+    colorPaletteId: DEFAULT_COLOR_PALETTE.id,
+    colorMode: DEFAULT_COLOR_MODE,
+  })
+
+  useEffect(() => {
+    const url = `${window.location.pathname}${sessionQuery}${window.location.hash}`
+    window.history.replaceState(window.history.state, '', url)
+  }, [sessionQuery])
+
+  useEffect(() => {
+    if (copyLinkStatus === 'idle') return
+    const timeout = window.setTimeout(() => setCopyLinkStatus('idle'), COPY_STATUS_RESET_MS)
+    return () => window.clearTimeout(timeout)
+  }, [copyLinkStatus])
 
   useEffect(() => {
     if (typeof window === 'undefined') return
@@ -112,19 +185,14 @@ function App() {
     return () => window.removeEventListener('resize', handleResize)
   }, [])
 
-  useEffect(() => {
-    if (!isMobile) {
-      setMobileActiveCell(null)
-    }
-  }, [isMobile])
-
-  const updateTooltip = (event: MouseEvent<HTMLButtonElement>, tree: TreeRecord) => {
+  const updateTooltip = (anchor: TooltipAnchor, tree: TreeRecord) => {
     const tooltipLines = getTreeTooltipContent(tree)
     const tooltipText = tooltipLines
       .map((line) => (line.deadSuffix ? `${line.text} ${line.deadSuffix}` : line.text))
       .join('\n')
+    setAnnouncement(tooltipText.replace(/\n/g, '. '))
     const metrics = getTooltipMetrics()
-    const position = calculateTooltipPosition(tooltipText, event.clientX, event.clientY, metrics)
+    const position = calculateTooltipPosition(tooltipText, anchor.clientX, anchor.clientY, metrics)
     setTooltip({
       lines: tooltipLines,
       metrics,
@@ -132,34 +200,244 @@ function App() {
     })
   }
 
-  const handleCellMouseLeave = (cellIndex: number) => {
-    if (trees.length === 0) return
-    setCellTreeIndices((previous) => {
-      const next = [...previous]
-      next[cellIndex] = getRandomTreeIndex()
-      return next
-    })
+  const openTreeDetail = (tree: TreeRecord) => {
+    const index = scoredTrees?.indexOf(tree) ?? -1
+    if (index === -1) return
     setTooltip(null)
-    setMobileActiveCell((active) => (active === cellIndex ? null : active))
+    setSelectedTreeIndex(index)
   }
 
-  const handleMobileTooltipRequest = (
-    cellIndex: number,
-    event: MouseEvent<HTMLButtonElement>,
-    tree: TreeRecord,
-  ) => {
-    if (mobileActiveCell != null && mobileActiveCell !== cellIndex) {
-      handleCellMouseLeave(mobileActiveCell)
+  // History records and pinned trees outlive the dataset they came from, so they find their tree again by key.
+  const canRevisitTree = (tree: TreeLocation) => scoredTreeIndices.has(getTreeKey(tree))
+
+  const revisitTree = (tree: TreeLocation) => {
+    const index = scoredTreeIndices.get(getTreeKey(tree))
+    if (index == null) return
+    setTooltip(null)
+    setSelectedTreeIndex(index)
+  }
+
+  const pinTreeToCollection = (tree: TreeRecord) => {
+    const collectionName = collections.pin(tree)
+    setAnnouncement(`Pinned tree-#${tree.treeId} to ${collectionName}.`)
+  }
+
+  const toggleSidePanel = (panel: SidePanel) => {
+    setSidePanel((current) => (current === panel ? null : panel))
+  }
+
+  const showTreeOnMap = (tree: TreeRecord) => {
+    setTooltip(null)
+    setHighlightedTree(tree)
+    setViewMode('map')
+  }
+
+  // Indices and highlighted records point into the old trees, so a new dataset clears them.
+  const clearTreeSelection = () => {
+    setTooltip(null)
+    setSelectedTreeIndex(null)
+    setHighlightedTree(null)
+  }
+
+  const handleDatasetUpload = (dataset: UploadedDataset) => {
+    clearTreeSelection()
+    uploadDataset(dataset)
+  }
+
+  const handleDatasetReset = () => {
+    clearTreeSelection()
+    resetDataset()
+  }
+
+  const handleCellOpen = (tree: TreeRecord) => {
+    if (cellClickAction === 'details') {
+      openTreeDetail(tree)
+    } else if (cellClickAction === 'google-maps') {
+      openTreeLocation(tree)
+    } else if (cellClickAction === 'pin') {
+      pinTreeToCollection(tree)
+    } else {
+      showTreeOnMap(tree)
+    }
+  }
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    setTooltip(null)
+    setViewMode(mode)
+  }
+
+  const handleNeighborhoodSelect = (neighborhood: string, borough: Borough) => {
+    setTreeFilters((current) => ({ ...current, borough, neighborhood }))
+    setViewMode('mosaic')
+  }
+
+  // Neighborhood names are only unique within a borough, so switching boroughs drops the neighborhood filter.
+  const handleBoroughChange = (value: string) => {
+    setTooltip(null)
+    setTreeFilters((current) => ({ ...current, borough: isBorough(value) ? value : null, neighborhood: null }))
+  }
+
+  const copySessionLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setCopyLinkStatus('copied')
+    } catch {
+      setCopyLinkStatus('failed')
+    }
+  }
+
+  const updateGridDimension = (dimension: keyof GridSize, value: string) => {
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_GRID_DIMENSION) return
+    setTooltip(null)
+    setGridSize((current) => ({ ...current, [dimension]: parsed }))
+  }
+
+  const freezeMosaic = (): MosaicSnapshot | null => {
+    const cellTrees = mosaicCellTreesRef.current
+    if (cellTrees.length !== gridSize.rows * gridSize.columns) return null
+    return {
+      capturedAt: new Date(),
+      sessionUrl: window.location.href,
+      rows: gridSize.rows,
+      columns: gridSize.columns,
+      cellTrees: [...cellTrees],
+      colorScale,
+      scoringModel: scoringModel.id,
     }
-    setMobileActiveCell(cellIndex)
-    updateTooltip(event, tree)
   }
 
+  const getMosaicGridTrees = () =>
+    mosaicCellTreesRef.current.filter((tree): tree is TreeRecord => tree !== undefined)
+
   const closeModal = () => setIsModalOpen(false)
+  useFocusTrap(modalRef, isModalOpen, closeModal)
 
   return (
     <main className="app">
       <header className="app__header">
+        <label className="app__control">
+          <span className="app__control-label">View</span>
+          <select
+            className="app__select"
+            value={viewMode}
+            onChange={(event) => handleViewModeChange(event.target.value as ViewMode)}
+          >
+            <option value="mosaic">Mosaic</option>
+            <option value="map">Map</option>
+            <option value="dashboard">Neighborhoods</option>
+          </select>
+        </label>
+        <label className="app__control">
+          <span className="app__control-label">Borough</span>
+          <select
+            className="app__select"
+            value={treeFilters.borough ?? ''}
+            onChange={(event) => handleBoroughChange(event.target.value)}
+          >
+            <option value="">All boroughs</option>
+            {BOROUGHS.map((borough) => {
+              const count = filterOptions?.boroughs.find((option) => option.value === borough)?.count ?? 0
+              return (
+                <option key={borough} value={borough} disabled={count === 0 && borough !== treeFilters.borough}>
+                  {borough} ({count})
+                </option>
+              )
+            })}
+          </select>
+        </label>
+        <fieldset className="app__fieldset app__control">
+          <legend className="app__control-label">Grid</legend>
+          <input
+            className="app__input app__input--narrow"
+            type="number"
+            min={1}
+            max={MAX_GRID_DIMENSION}
+            aria-label="Grid rows"
+            value={gridSize.rows}
+            onChange={(event) => updateGridDimension('rows', event.target.value)}
+          />
+          ×
+          <input
+            className="app__input app__input--narrow"
+            type="number"
+            min={1}
+            max={MAX_GRID_DIMENSION}
+            aria-label="Grid columns"
+            value={gridSize.columns}
+            onChange={(event) => updateGridDimension('columns', event.target.value)}
+          />
+        </fieldset>
+        <label className="app__control">
+          <span className="app__control-label">Sampling</span>
+          <select
+            className="app__select"
+            value={samplingMode}
+            title={SAMPLING_MODES.find((mode) => mode.id === samplingMode)?.description}
+            onChange={(event) => setSamplingMode(event.target.value as SamplingMode)}
+          >
+            {SAMPLING_MODES.map((mode) => (
+              <option key={mode.id} value={mode.id}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="app__control">
+          <span className="app__control-label">Click opens</span>
+          <select
+            className="app__select"
+            value={cellClickAction}
+            onChange={(event) => setCellClickAction(event.target.value as CellClickAction)}
+          >
+            <option value="details">Details</option>
+            <option value="google-maps">Google Maps</option>
+            <option value="map-view">Map view</option>
+            <option value="pin">Pin</option>
+          </select>
+        </label>
+        <label className="app__control">
+          <span className="app__control-label">Scoring</span>
+          <select
+            className="app__select"
+            value={scoringModel.id}
+            title={scoringModel.description}
+            onChange={(event) => setScoringModelId(event.target.value)}
+          >
+            {SCORING_MODELS.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          className="app__text-button"
+          title="Draw a new random mosaic"
+          onClick={() => setSeed(createRandomSeed())}
+        >
+          shuffle
+        </button>
+        <button
+          type="button"
+          className="app__text-button"
+          aria-pressed={sidePanel === 'history'}
+          onClick={() => toggleSidePanel('history')}
+        >
+          history
+        </button>
+        <button
+          type="button"
+          className="app__text-button"
+          aria-pressed={sidePanel === 'collections'}
+          onClick={() => toggleSidePanel('collections')}
+        >
+          collections
+        </button>
+        <button type="button" className="app__text-button" onClick={copySessionLink}>
+          {copyLinkStatus === 'copied' ? 'link copied' : copyLinkStatus === 'failed' ? 'copy failed' : 'copy link'}
+        </button>
         <button
           type="button"
           className="app__help-button"
@@ -172,7 +450,9 @@ function App() {
       {isModalOpen && (
         <div className="app__modal-overlay" role="presentation" onClick={closeModal}>
           <div
+            ref={modalRef}
             className="app__modal"
+            tabIndex={-1}
             role="dialog"
             aria-modal="true"
             aria-labelledby="onboarding-modal-title"
@@ -199,15 +479,38 @@ function App() {
                 ranked, and interpreted through the lens of accessibility.
               </p>
               <p>
-                The interface displays a mosaic of neutral buttons, each corresponding to a tree in Manhattan as recorded
-                in the 2015 NYC Tree Census. At first, every button appears uncolored. The color is only revealed when
-                the user hovers over a button, temporarily uncovering the tree&apos;s accessibility score:
+                The interface displays a mosaic of neutral buttons, each corresponding to a tree in New York City as
+                recorded in the 2015 NYC Tree Census. At first, every button appears uncolored. The color is only
+                revealed when the user hovers over a button, temporarily uncovering the tree&apos;s accessibility score:
               </p>
               <p>
                 Dark green signifies a tree that is classified as more accessible.
                 <br />
                 Red indicates a tree that is less accessible.
               </p>
+              <p>
+                The legend below the mosaic shows the score bands for the active palette, where colorblind-safe
+                palettes and a continuous gradient can be chosen instead.
+              </p>
+              <p>
+                The Neighborhoods view compares every neighborhood side by side: score distributions, species, tree
+                health and StreetEasy rent against mean accessibility. Selecting a neighborhood there fills the mosaic
+                with its trees alone.
+              </p>
+              <p>
+                For those who want to find a striking tree again, the history panel can keep a log of every tree as it
+                vanishes, with its cell and scores. The log stays in the browser, can be searched and downloaded, and
+                summarizes the accessibility seen in each session. Trees worth keeping on purpose can be pinned into
+                named collections with a note each, and collections export to a JSON file that a colleague can import
+                as a walking tour of their own. The walking route panel turns a collection, the trees matching the
+                filters or the trees on the mosaic into an ordered walk with its distance and time, downloadable as GPX
+                or as a list of map links.
+              </p>
+              <p>
+                The bundled data covers Manhattan. Uploaded datasets can span all five boroughs, and the Borough menu
+                then scopes the mosaic to one of them. Rent is only ever estimated from neighborhoods in the tree&apos;s
+                own borough.
+              </p>
               <p>
                 Once the user moves the cursor away, that tree disappears from view and is replaced by another randomly
                 selected one. This cycle prevents returning to the same tree and introduces a deliberate element of
@@ -215,8 +518,10 @@ function App() {
                 the ongoing change within ecological systems.
               </p>
               <p>
-                By clicking on a button during the brief moment it is visible, users can access the tree&apos;s
-                coordinates on Google Maps, where they may explore its location and surroundings through Street View.
+                By clicking on a button during the brief moment it is visible, users can open a panel that keeps the
+                tree in view: every recorded field, how each part of its score was derived, and a small map of its
+                nearest neighbors. From there its coordinates open on Google Maps, where they may explore its location
+                and surroundings through Street View.
                 (Note: since the underlying data originates from 2015, certain entries may not fully reflect current
                 conditions.)
               </p>
@@ -256,6 +561,9 @@ function App() {
           </div>
         </div>
       )}
+      <div className="app__sr-only" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
       {tooltip && (
         <div
           className="app__tooltip"
@@ -280,62 +588,390 @@ function App() {
         </div>
       )}
       <div className="app__content">
-        <div className="app__stage">
-          <div className="app__canvas">
-            {Array.from({ length: CELL_COUNT }).map((_, index) => {
-              const tree = trees[cellTreeIndices[index]]
-              return (
-                <Cell
-                  key={index}
-                  index={index}
-                  tree={tree}
-                  isMobile={isMobile}
-                  mobileActiveCell={mobileActiveCell}
-                  onMouseLeave={() => handleCellMouseLeave(index)}
-                  onHoverStart={updateTooltip}
-                  onHoverMove={updateTooltip}
-                  onHoverEnd={() => setTooltip(null)}
-                  onMobileTooltipRequest={(event, tappedTree) =>
-                    handleMobileTooltipRequest(index, event, tappedTree)
-                  }
-                />
-              )
-            })}
-          </div>
+        <div
+          className={viewMode === 'mosaic' ? 'app__stage' : `app__stage app__stage--${viewMode}`}
+          style={{ '--grid-rows': gridSize.rows, '--grid-columns': gridSize.columns } as CSSProperties}
+        >
+          {treeData.status === 'loading' ? (
+            <LoadingStatus progress={treeData.progress} />
+          ) : treeData.status === 'error' ? (
+            <div className="app__status app__status--error" role="alert">
+              <p>The tree data could not be loaded.</p>
+              <p className="app__status-detail">{treeData.message}</p>
+            </div>
+          ) : viewMode === 'dashboard' ? (
+            dashboardTrees &&
+            (dashboardTrees.length === 0 ? (
+              <div className="app__status" role="status">
+                <p>No trees match these filters.</p>
+                <p className="app__status-detail">Loosen or clear the filters below to fill the dashboard.</p>
+              </div>
+            ) : (
+              <NeighborhoodDashboard
+                trees={dashboardTrees}
+                neighborhoodRents={treeData.neighborhoodRents}
+                selectedNeighborhood={treeFilters.neighborhood}
+                selectedBorough={treeFilters.borough}
+                colorScale={colorScale}
+                onNeighborhoodSelect={handleNeighborhoodSelect}
+              />
+            ))
+          ) : filteredTrees?.length === 0 ? (
+            <div className="app__status" role="status">
+              <p>No trees match these filters.</p>
+              <p className="app__status-detail">Loosen or clear the filters below to refill the {viewMode}.</p>
+            </div>
+          ) : (
+            filteredTrees &&
+            (viewMode === 'map' ? (
+              <TreeMap
+                trees={filteredTrees}
+                highlightedTree={highlightedTree}
+                colorScale={colorScale}
+                onTooltipUpdate={updateTooltip}
+                onTooltipClear={() => setTooltip(null)}
+                onTreeSelect={openTreeDetail}
+              />
+            ) : (
+              <Mosaic
+                key={mosaicKey}
+                trees={filteredTrees}
+                seed={seed}
+                gridSize={gridSize}
+                samplingMode={samplingMode}
+                colorScale={colorScale}
+                cellTreesRef={mosaicCellTreesRef}
+                isMobile={isMobile}
+                onTooltipUpdate={updateTooltip}
+                onTooltipClear={() => setTooltip(null)}
+                onCellOpen={handleCellOpen}
+                onTreeVanish={(tree, cellIndex) =>
+                  visitHistory.recordVisit(tree, cellIndex, gridSize.columns, scoringModel.id)
+                }
+              />
+            ))
+          )}
         </div>
       </div>
+      {treeData.status === 'ready' && (
+        <footer className="app__footer">
+          <ColorLegend colorScale={colorScale} onPaletteChange={setColorPaletteId} onModeChange={setColorMode} />
+          {filterOptions && scoredTrees && filteredTrees && (
+            <FilterPanel
+              filters={treeFilters}
+              options={filterOptions}
+              matchingCount={filteredTrees.length}
+              totalCount={scoredTrees.length}
+              onFiltersChange={setTreeFilters}
+            />
+          )}
+          {scoredTrees && filteredTrees && (
+            <TreeExportPanel
+              trees={scoredTrees}
+              filteredTrees={filteredTrees}
+              filters={treeFilters}
+              scoringModel={scoringModel}
+              rentInterpolation={rentInterpolation}
+              fileBaseName="random-roots"
+            />
+          )}
+          {filteredTrees && (
+            <WalkingRoutePanel
+              filteredTrees={filteredTrees}
+              collection={collections.activeCollection}
+              getGridTrees={viewMode === 'mosaic' ? getMosaicGridTrees : null}
+              fileBaseName="random-roots"
+            />
+          )}
+          {viewMode === 'mosaic' && filteredTrees && filteredTrees.length > 0 && (
+            <ExportPanel
+              fileBaseName={`random-roots-${formatSeed(seed)}`}
+              onFreeze={freezeMosaic}
+            />
+          )}
+          <RentPanel
+            interpolation={rentInterpolation}
+            unmatchedNeighborhoods={treeData.unmatchedRentNeighborhoods}
+            isUpdating={treeData.isUpdating}
+            onInterpolationChange={setRentInterpolation}
+          />
+          <DatasetUploadPanel
+            upload={treeData.upload}
+            uploadError={treeData.uploadError}
+            isUpdating={treeData.isUpdating}
+            onUpload={handleDatasetUpload}
+            onReset={handleDatasetReset}
+          />
+        </footer>
+      )}
+      {selectedTree && scoredTrees && treeData.status === 'ready' && (
+        <TreeDetailDrawer
+          tree={selectedTree}
+          trees={scoredTrees}
+          rentReference={treeData.rentReference}
+          interpolation={treeData.interpolation}
+          scoringModel={scoringModel}
+          colorScale={colorScale}
+          isPinned={isTreePinned(collections.activeCollection, getTreeKey(selectedTree))}
+          onOpenInMaps={openTreeLocation}
+          onShowOnMap={showTreeOnMap}
+          onPin={pinTreeToCollection}
+          onClose={() => setSelectedTreeIndex(null)}
+        />
+      )}
+      {sidePanel === 'history' && (
+        <VisitHistoryPanel
+          records={visitHistory.records}
+          sessionId={visitHistory.sessionId}
+          isEnabled={visitHistory.isEnabled}
+          saveFailed={visitHistory.saveFailed}
+          colorScale={colorScale}
+          canRevisit={canRevisitTree}
+          onEnabledChange={visitHistory.setEnabled}
+          onRevisit={revisitTree}
+          onOpenInMaps={openTreeLocation}
+          onClear={visitHistory.clearHistory}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      {sidePanel === 'collections' && (
+        <CollectionsPanel
+          collections={collections}
+          canRevisit={canRevisitTree}
+          onRevisit={revisitTree}
+          onOpenInMaps={openTreeLocation}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+      {import.meta.env.DEV && treeData.status === 'ready' && treeData.validationReport && (
+        <ValidationOverlay report={treeData.validationReport} />
+      )}
     </main>
   )
 }
 
 export default App
 
+type MosaicProps = {
+  trees: TreeRecord[]
+  seed: number
+  gridSize: GridSize
+  samplingMode: SamplingMode
+  colorScale: ColorScale
+  cellTreesRef: RefObject<(TreeRecord | undefined)[]>
+  isMobile: boolean
+  onTooltipUpdate: (anchor: TooltipAnchor, tree: TreeRecord) => void
+  onTooltipClear: () => void
+  onCellOpen: (tree: TreeRecord) => void
+  onTreeVanish: (tree: TreeRecord, cellIndex: number) => void
+}
+
+function Mosaic({
+  trees,
+  seed,
+  gridSize,
+  samplingMode,
+  colorScale,
+  cellTreesRef,
+  isMobile,
+  onTooltipUpdate,
+  onTooltipClear,
+  onCellOpen,
+  onTreeVanish,
+}: MosaicProps) {
+  const cellCount = gridSize.rows * gridSize.columns
+  const [drawState, setDrawState] = useState(() => ({
+    cells: Array.from({ length: cellCount }, (_, cellIndex): CellDraw => ({ draw: 0, sequence: cellIndex })),
+    nextSequence: cellCount,
+  }))
+  const [mobileActiveCell, setMobileActiveCell] = useState<number | null>(null)
+  const [focusTargetCell, setFocusTargetCell] = useState(0)
+  const cellRefs = useRef<(HTMLButtonElement | null)[]>([])
+  const sampleTree = useMemo(
+    () => createTreeSampler(samplingMode, trees, seed, gridSize),
+    [samplingMode, trees, seed, gridSize],
+  )
+  // Stable across unrelated re-renders, such as tooltip moves, so the canvas only repaints when a cell is redrawn.
+  const cellTrees = useMemo(
+    () => drawState.cells.map((cellDraw, cellIndex): TreeRecord | undefined => trees[sampleTree(cellIndex, cellDraw)]),
+    [drawState.cells, sampleTree, trees],
+  )
+
+  useEffect(() => {
+    cellTreesRef.current = cellTrees
+  }, [cellTrees, cellTreesRef])
+
+  useEffect(() => {
+    if (!isMobile) {
+      setMobileActiveCell(null)
+    }
+  }, [isMobile])
+
+  const handleCellMouseLeave = (cellIndex: number) => {
+    if (trees.length === 0) return
+    const tree = cellTrees[cellIndex]
+    if (tree) onTreeVanish(tree, cellIndex)
+    setDrawState((previous) => {
+      const cells = [...previous.cells]
+      cells[cellIndex] = { draw: previous.cells[cellIndex].draw + 1, sequence: previous.nextSequence }
+      return { cells, nextSequence: previous.nextSequence + 1 }
+    })
+    onTooltipClear()
+    setMobileActiveCell((active) => (active === cellIndex ? null : active))
+  }
+
+  const handleMobileTooltipRequest = (cellIndex: number, anchor: TooltipAnchor, tree: TreeRecord) => {
+    if (mobileActiveCell != null && mobileActiveCell !== cellIndex) {
+      handleCellMouseLeave(mobileActiveCell)
+    }
+    setMobileActiveCell(cellIndex)
+    onTooltipUpdate(anchor, tree)
+  }
+
+  const focusCell = (cellIndex: number) => {
+    setFocusTargetCell(cellIndex)
+    cellRefs.current[cellIndex]?.focus()
+  }
+
+  const instructions = (
+    <p id={MOSAIC_INSTRUCTIONS_ID} className="app__sr-only">
+      Use the arrow keys to move between hidden trees. Focusing a tree reveals its accessibility score, leaving it
+      replaces the tree, and Enter opens its details.
+    </p>
+  )
+
+  if (cellCount > CANVAS_RENDER_THRESHOLD) {
+    return (
+      <>
+        {instructions}
+        <MosaicCanvas
+          describedBy={MOSAIC_INSTRUCTIONS_ID}
+          rows={gridSize.rows}
+          columns={gridSize.columns}
+          cellTrees={cellTrees}
+          colorScale={colorScale}
+          isMobile={isMobile}
+          mobileActiveCell={mobileActiveCell}
+          onCellLeave={handleCellMouseLeave}
+          onHover={onTooltipUpdate}
+          onHoverEnd={onTooltipClear}
+          onOpen={onCellOpen}
+          onMobileTooltipRequest={handleMobileTooltipRequest}
+        />
+      </>
+    )
+  }
+
+  return (
+    <div className="app__canvas" role="group" aria-label="Tree mosaic" aria-describedby={MOSAIC_INSTRUCTIONS_ID}>
+      {instructions}
+      {cellTrees.map((tree, index) => (
+        <Cell
+          key={index}
+          ref={(element) => {
+            cellRefs.current[index] = element
+          }}
+          index={index}
+          columns={gridSize.columns}
+          tree={tree}
+          colorScale={colorScale}
+          isFocusTarget={index === focusTargetCell}
+          onFocusCell={() => setFocusTargetCell(index)}
+          onNavigate={(key, withModifier) => {
+            const next = getNextGridIndex(index, key, gridSize.rows, gridSize.columns, withModifier)
+            if (next == null) return false
+            if (next !== index) focusCell(next)
+            return true
+          }}
+          isMobile={isMobile}
+          mobileActiveCell={mobileActiveCell}
+          onMouseLeave={() => handleCellMouseLeave(index)}
+          onHoverStart={onTooltipUpdate}
+          onHoverMove={onTooltipUpdate}
+          onHoverEnd={onTooltipClear}
+          onOpen={onCellOpen}
+          onMobileTooltipRequest={(event, tappedTree) =>
+            handleMobileTooltipRequest(index, event, tappedTree)
+          }
+        />
+      ))}
+    </div>
+  )
+}
+
+type LoadingStatusProps = {
+  progress: TreeDataProgress | null
+}
+
+function LoadingStatus({ progress }: LoadingStatusProps) {
+  const label = progress ? TREE_DATA_STAGE_LABELS[progress.stage] : 'Starting up'
+  const percent =
+    progress?.stage === 'parsing' && progress.total > 0
+      ? Math.round((progress.completed / progress.total) * 100)
+      : null
+
+  return (
+    <div className="app__status" role="status" aria-live="polite">
+      <p>{percent != null ? `${label} ${percent}%` : `${label}…`}</p>
+      <div
+        className="app__progress"
+        role="progressbar"
+        aria-label="Tree data loading progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent ?? undefined}
+      >
+        <div
+          className={percent != null ? 'app__progress-bar' : 'app__progress-bar app__progress-bar--indeterminate'}
+          style={percent != null ? { width: `${percent}%` } : undefined}
+        />
+      </div>
+    </div>
+  )
+}
+
 type CellProps = {
+  ref: Ref<HTMLButtonElement>
   index: number
+  columns: number
   tree?: TreeRecord
+  colorScale: ColorScale
+  isFocusTarget: boolean
+  onFocusCell: () => void
+  onNavigate: (key: string, withModifier: boolean) => boolean
   isMobile: boolean
   mobileActiveCell: number | null
   onMouseLeave: () => void
-  onHoverStart: (event: MouseEvent<HTMLButtonElement>, tree: TreeRecord) => void
-  onHoverMove: (event: MouseEvent<HTMLButtonElement>, tree: TreeRecord) => void
+  onHoverStart: (anchor: TooltipAnchor, tree: TreeRecord) => void
+  onHoverMove: (anchor: TooltipAnchor, tree: TreeRecord) => void
   onHoverEnd: () => void
+  onOpen: (tree: TreeRecord) => void
   onMobileTooltipRequest: (event: MouseEvent<HTMLButtonElement>, tree: TreeRecord) => void
 }
 
 function Cell({
+  ref,
   index,
+  columns,
   tree,
+  colorScale,
+  isFocusTarget,
+  onFocusCell,
+  onNavigate,
   isMobile,
   mobileActiveCell,
   onMouseLeave,
   onHoverStart,
   onHoverMove,
   onHoverEnd,
+  onOpen,
   onMobileTooltipRequest,
 }: CellProps) {
+  const revealedByFocusRef = useRef(false)
+
   const handleMouseEnter = (event: MouseEvent<HTMLButtonElement>) => {
     if (!tree || isMobile) return
-    event.currentTarget.style.backgroundColor = getAccessibilityColor(tree.accessibilityScore)
+    event.currentTarget.style.backgroundColor = getAccessibilityColor(tree.accessibilityScore, colorScale)
     onHoverStart(event, tree)
   }
 
@@ -351,34 +987,67 @@ function Cell({
     onMouseLeave()
   }
 
+  const handleFocus = (event: FocusEvent<HTMLButtonElement>) => {
+    onFocusCell()
+    if (isMobile || !event.currentTarget.matches(':focus-visible')) return
+    revealedByFocusRef.current = true
+    if (!tree) return
+    event.currentTarget.style.backgroundColor = getAccessibilityColor(tree.accessibilityScore, colorScale)
+    onHoverStart(getCellAnchor(event.currentTarget.getBoundingClientRect()), tree)
+  }
+
+  const handleBlur = (event: FocusEvent<HTMLButtonElement>) => {
+    if (!revealedByFocusRef.current) return
+    revealedByFocusRef.current = false
+    event.currentTarget.style.backgroundColor = DEFAULT_CELL_COLOR
+    onHoverEnd()
+    onMouseLeave()
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      if (tree) onOpen(tree)
+      return
+    }
+    if (onNavigate(event.key, event.ctrlKey || event.metaKey)) {
+      event.preventDefault()
+    }
+  }
+
   const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
     if (!tree) return
     if (isMobile) {
       if (mobileActiveCell === index) {
         onHoverEnd()
         onMouseLeave()
-        openTreeLocation(tree)
+        onOpen(tree)
         return
       }
       onMobileTooltipRequest(event, tree)
       return
     }
 
-    openTreeLocation(tree)
+    onOpen(tree)
   }
 
   const mobileActiveStyle =
     isMobile && tree && mobileActiveCell === index
-      ? { backgroundColor: getAccessibilityColor(tree.accessibilityScore) }
+      ? { backgroundColor: getAccessibilityColor(tree.accessibilityScore, colorScale) }
       : undefined
 
   return (
     <button
       type="button"
+      ref={ref}
       className="app__cell"
-      aria-label={`Cell ${Math.floor(index / GRID_SIZE) + 1}, ${index % GRID_SIZE + 1}`}
+      tabIndex={isFocusTarget ? 0 : -1}
+      aria-label={`Hidden tree, row ${Math.floor(index / columns) + 1}, column ${index % columns + 1}`}
       style={mobileActiveStyle}
       onClick={handleClick}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
       onMouseEnter={handleMouseEnter}
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}
@@ -386,442 +1055,8 @@ function Cell({
   )
 }
 
-function openTreeLocation(tree: TreeRecord): void {
-  const url = `https://www.google.com/maps/search/?api=1&query=${tree.latitude},${tree.longitude}`
-  window.open(url, '_blank', 'noopener')
-}
-
-function parseTreeData(
-  csvData: string,
-  neighborhoods: NeighborhoodRecord[],
-  rentLookup: Map<string, number>,
-): TreeRecord[] {
-  const normalizedData = csvData.replace(/^\uFEFF/, '').trim()
-  const lines = normalizedData.split(/\r?\n/).filter(Boolean)
-  if (lines.length <= 1) return []
-
-  const headers = parseCsvLine(lines[0])
-
-  const parsedTrees = lines.slice(1).map((line) => {
-    const values = parseCsvLine(line)
-    const row = headers.reduce<Record<string, string>>((acc, header, index) => {
-      acc[header] = values[index] ?? ''
-      return acc
-    }, {})
-
-    const latitude = Number(row.latitude)
-    const longitude = Number(row.longitude)
-    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined
-
-    const nearestMatches = getClosestNeighborhoodMatches(
-      latitude,
-      longitude,
-      neighborhoods,
-      rentLookup,
-      NEAREST_NEIGHBOR_COUNT,
-    )
-    const closestNeighborhood = nearestMatches[0]?.name ?? 'Unknown'
-    const expectedRent = calculateExpectedRent(nearestMatches)
-    const affordabilityScore = expectedRent != null ? calculateAffordabilityScore(expectedRent) : null
-
-    const treeRecord: TreeRecord = {
-      treeId: (row.tree_id ?? '').trim() || 'unknown',
-      status: row.status?.trim() ?? '',
-      sidewalk: row.sidewalk?.trim() ?? '',
-      problems: row.problems?.trim() ?? '',
-      latitude,
-      longitude,
-      neighborhood: closestNeighborhood,
-      species: (row.spc_common ?? '').trim().toLowerCase() || 'unknown',
-      treeFriendsScore: 0,
-      affordabilityScore,
-      accessibilityScore: null,
-    }
-    return treeRecord
-  }).filter((tree): tree is TreeRecord => Boolean(tree))
-
-  assignTreeFriendsScores(parsedTrees)
-  assignAccessibilityScores(parsedTrees)
-  return parsedTrees
-}
-
-function parseNeighborhoodData(csvData: string): NeighborhoodRecord[] {
-  const normalizedData = csvData.replace(/^\uFEFF/, '').trim()
-  const lines = normalizedData.split(/\r?\n/).filter(Boolean)
-  if (lines.length <= 1) return []
-
-  const headers = parseCsvLine(lines[0])
-
-  return lines.slice(1).map((line) => {
-    const values = parseCsvLine(line)
-    const row = headers.reduce<Record<string, string>>((acc, header, index) => {
-      acc[header] = values[index] ?? ''
-      return acc
-    }, {})
-
-    const latitude = Number(row.latitude)
-    const longitude = Number(row.longitude)
-    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined
-
-    return {
-      name: normalizeNeighborhoodName(row.name ?? ''),
-      latitude,
-      longitude,
-    }
-  }).filter((neighborhood): neighborhood is NeighborhoodRecord => Boolean(neighborhood))
-}
-
-function normalizeNeighborhoodName(value: string): string {
-  const trimmed = value.replace(/\s+/g, ' ').trim()
-  return trimmed || 'Unknown'
-}
-
-function parseRentData(csvData: string): Map<string, number> {
-  const rentLookup = new Map<string, number>()
-  const normalizedData = csvData.replace(/^\uFEFF/, '').trim()
-  const lines = normalizedData.split(/\r?\n/).filter(Boolean)
-  if (lines.length <= 1) return rentLookup
-
-  const headers = parseCsvLine(lines[0])
-  const nameIndex = headers.findIndex((header) => header.toLowerCase() === 'areaname')
-  const rentIndex = headers.findIndex((header) => header.toLowerCase() === 'rent')
-
-  if (nameIndex === -1 || rentIndex === -1) return rentLookup
-
-  lines.slice(1).forEach((line) => {
-    const values = parseCsvLine(line)
-    const key = normalizeRentKey(values[nameIndex] ?? '')
-    const rentValue = Number(values[rentIndex])
-    if (!key || !Number.isFinite(rentValue)) return
-    rentLookup.set(key, rentValue)
-  })
-
-  return rentLookup
-}
-
-function normalizeRentKey(value: string): string {
-  const normalized = normalizeNeighborhoodName(value)
-  if (!normalized || normalized === 'Unknown') return ''
-  const lowered = normalized.toLowerCase()
-  return RENT_KEY_ALIASES[lowered] ?? lowered
-}
-
-function getNeighborhoodRent(name: string, rentLookup: Map<string, number>): number | null {
-  const key = normalizeRentKey(name)
-  if (!key) return null
-  return rentLookup.get(key) ?? null
-}
-
-function getClosestNeighborhoodMatches(
-  latitude: number,
-  longitude: number,
-  neighborhoods: NeighborhoodRecord[],
-  rentLookup: Map<string, number>,
-  limit: number,
-): NeighborhoodMatch[] {
-  if (neighborhoods.length === 0 || limit <= 0) return []
-
-  const matches: NeighborhoodMatch[] = []
-
-  neighborhoods.forEach((neighborhood) => {
-    const distance = getDistanceInMeters(latitude, longitude, neighborhood.latitude, neighborhood.longitude)
-    if (!Number.isFinite(distance)) return
-
-    const match = {
-      name: neighborhood.name,
-      distance,
-      rent: getNeighborhoodRent(neighborhood.name, rentLookup),
-    }
-
-    if (matches.length < limit) {
-      matches.push(match)
-      matches.sort((a, b) => a.distance - b.distance)
-      return
-    }
-
-    const farthestDistance = matches[matches.length - 1]?.distance ?? Number.POSITIVE_INFINITY
-    if (distance < farthestDistance) {
-      matches[matches.length - 1] = match
-      matches.sort((a, b) => a.distance - b.distance)
-    }
-  })
-
-  return matches
-}
-
-function calculateExpectedRent(matches: NeighborhoodMatch[]): number | null {
-  if (matches.length < 3) return null
-  const [x1, x2, x3] = matches
-  if (x1.rent == null || x2.rent == null || x3.rent == null) return null
-
-  const d1 = Math.max(x1.distance, 0)
-  const d2 = Math.max(x2.distance, 0)
-  const d3 = Math.max(x3.distance, 0)
-
-  const denominator = d1 + d2 + d3
-  if (denominator === 0) {
-    return (x1.rent + x2.rent + x3.rent) / 3
-  }
-
-  const weight1 = (d2 + d3 - d1) / denominator
-  const weight2 = (d1 + d3 - d2) / denominator
-  const weight3 = (d1 + d2 - d3) / denominator
-
-  return weight1 * x1.rent + weight2 * x2.rent + weight3 * x3.rent
-}
-
-function calculateAffordabilityScore(expectedRent: number): number {
-  if (!Number.isFinite(expectedRent) || expectedRent === 0) return 0
-  const score = 36370 / expectedRent - 2.737
-  return clamp(score, 0, 10)
-}
-
-function getDistanceInMeters(
-  originLat: number,
-  originLng: number,
-  targetLat: number,
-  targetLng: number,
-): number {
-  const earthRadius = 6371_000
-  const dLat = toRadians(targetLat - originLat)
-  const dLng = toRadians(targetLng - originLng)
-
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRadians(originLat)) * Math.cos(toRadians(targetLat)) * Math.sin(dLng / 2) ** 2
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  return earthRadius * c
-}
-
-function toRadians(degrees: number): number {
-  return (degrees * Math.PI) / 180
-}
-
-function parseCsvLine(line: string): string[] {
-  const result: string[] = []
-  let current = ''
-  let inQuotes = false
-
-  for (let i = 0; i < line.length; i += 1) {
-    const char = line[i]
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"'
-        i += 1
-      } else {
-        inQuotes = !inQuotes
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current)
-      current = ''
-    } else {
-      current += char
-    }
-  }
-
-  result.push(current)
-  return result
-}
-
-function getRandomTreeIndex(): number {
-  if (trees.length === 0) return -1
-  return Math.floor(Math.random() * trees.length)
-}
-
-function getTreeTooltipContent(tree: TreeRecord): TooltipLine[] {
-  const lines: TooltipLine[] = [
-    { text: tree.treeId ? `tree-#${tree.treeId}` : 'tree-#unknown' },
-    { text: `Accessibility: ${formatAccessibilityScore(tree.accessibilityScore)}` },
-    { text: `Neighborhood: ${tree.neighborhood}` },
-    { text: `Coordinates: ${formatCoordinate(tree.latitude)}, ${formatCoordinate(tree.longitude)}` },
-    { text: `Species: ${tree.species || 'unknown'}` },
-    { text: `Tree Friends: ${formatTreeFriendsScore(tree.treeFriendsScore)}` },
-    { text: `Affordability: ${formatAffordabilityScore(tree.affordabilityScore)}` },
-    { text: `Health: ${formatHealthScore(tree)}` },
-  ]
-
-  if (shouldShowProblems(tree)) {
-    const isDead = tree.status.trim().toLowerCase() === 'dead'
-    if (isDead) {
-      lines.push({
-        text: 'Problems:',
-        deadSuffix: 'dead',
-      })
-    } else {
-      lines.push({
-        text: `Problems: ${formatProblems(tree)}`,
-      })
-    }
-  }
-
-  return lines
-}
-
-function formatTreeFriendsScore(score: number): string {
-  return normalizeTreeFriendsScore(score).toFixed(1)
-}
-
-function formatAffordabilityScore(value: number | null): string {
-  return normalizeAffordabilityScore(value).toFixed(1)
-}
-
-function formatAccessibilityScore(score: number | null): string {
-  if (score == null || !Number.isFinite(score)) return '0.0'
-  return score.toFixed(1)
-}
-
-function formatCoordinate(value: number): string {
-  if (!Number.isFinite(value)) return 'unknown'
-  return value.toFixed(5)
-}
-
-function formatHealthScore(tree: TreeRecord): string {
-  const score = calculateHealthScore(tree)
-  if (!Number.isFinite(score)) return '0'
-  return score.toFixed(0)
-}
-
-function calculateHealthScore(tree: TreeRecord): number {
-  const status = tree.status.toLowerCase()
-  if (status === 'stump' || status === 'dead') {
-    return 0
-  }
-
-  let differences = 0
-  if (tree.status.toLowerCase() !== 'alive') differences += 1
-  if (tree.sidewalk.toLowerCase() !== 'nodamage') differences += 1
-  if (tree.problems && tree.problems.trim().toLowerCase() !== 'none') differences += 1
-
-  if (differences === 0) return 3
-  if (differences === 1) return 2
-  return 1
-}
-
-function shouldShowProblems(tree: TreeRecord): boolean {
-  if (tree.status.trim().toLowerCase() === 'dead') return true
-  return calculateHealthScore(tree) !== 3
-}
-
-function formatProblems(tree: TreeRecord): string {
-  const rawProblems = tree.problems?.trim()
-  if (rawProblems && rawProblems.toLowerCase() !== 'none') {
-    return rawProblems
-  }
-
-  const sidewalkIssue = tree.sidewalk?.trim()
-  if (sidewalkIssue && sidewalkIssue.toLowerCase() !== 'nodamage') {
-    return sidewalkIssue
-  }
-
-  return 'Unknown'
-}
-
-function normalizeTreeFriendsScore(score: number): number {
-  if (!Number.isFinite(score)) return 0
-  return (clamp(score, 0, 10) / 10) * 4
-}
-
-function normalizeAffordabilityScore(value: number | null): number {
-  if (value == null || !Number.isFinite(value)) return 0
-  return (clamp(value, 0, 10) / 10) * 4
-}
-
-function getAccessibilityColor(score: number | null): string {
-  if (score == null || !Number.isFinite(score)) return ACCESSIBILITY_COLORS.unknown
-  if (score >= 8.5) return ACCESSIBILITY_COLORS.excellent
-  if (score >= 7.5) return ACCESSIBILITY_COLORS.great
-  if (score >= 4.5) return ACCESSIBILITY_COLORS.fair
-  return ACCESSIBILITY_COLORS.poor
-}
-
-function calculateTooltipPosition(
-  text: string,
-  clientX: number,
-  clientY: number,
-  metrics: TooltipMetrics,
-): { x: number; y: number } {
-  if (typeof window === 'undefined') {
-    return { x: clientX + TOOLTIP_GAP, y: clientY + TOOLTIP_GAP }
-  }
-
-  const { width, height } = measureTooltipSize(text, metrics)
-  const viewportWidth = window.innerWidth
-  const viewportHeight = window.innerHeight
-
-  const spaceOnLeft = clientX - TOOLTIP_GAP - width
-  if (spaceOnLeft >= TOOLTIP_GAP) {
-    const y = clamp(clientY - height / 2, TOOLTIP_GAP, viewportHeight - height - TOOLTIP_GAP)
-    return { x: spaceOnLeft, y }
-  }
-
-  const y = clamp(clientY + TOOLTIP_GAP, TOOLTIP_GAP, viewportHeight - height - TOOLTIP_GAP)
-  const x = clamp(clientX - width / 2, TOOLTIP_GAP, viewportWidth - width - TOOLTIP_GAP)
-  return { x, y }
-}
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(Math.max(value, min), max)
-}
-
-function measureTooltipSize(text: string, metrics: TooltipMetrics): { width: number; height: number } {
-  const lines = text.split('\n')
-  const lineHeight = metrics.fontSizePx * TOOLTIP_LINE_HEIGHT
-  const textHeight = Math.max(lineHeight * lines.length, metrics.fontSizePx)
-
-  const fallbackLineWidth = Math.max(...lines.map((line) => line.length * metrics.fontSizePx * 0.6), 0)
-  const context = getMeasurementContext()
-
-  if (!context) {
-    return {
-      width: fallbackLineWidth + metrics.paddingXPx * 2,
-      height: textHeight + metrics.paddingYPx * 2,
-    }
-  }
-
-  context.font = `${metrics.fontSizePx}px 'Menlo', 'Courier New', monospace`
-  const maxMeasuredWidth = lines.reduce((maxWidth, line) => {
-    const measurement = context.measureText(line)
-    return Math.max(maxWidth, measurement.width)
-  }, 0)
-
-  return {
-    width: Math.max(maxMeasuredWidth, fallbackLineWidth) + metrics.paddingXPx * 2,
-    height: textHeight + metrics.paddingYPx * 2,
-  }
-}
-
-function getTooltipMetrics(): TooltipMetrics {
-  const fontSizePx = getResponsiveFontSizePx()
-  return {
-    fontSizePx,
-    paddingXPx: fontSizePx * TOOLTIP_PADDING_X_SCALE,
-    paddingYPx: fontSizePx * TOOLTIP_PADDING_Y_SCALE,
-  }
-}
-
-function getResponsiveFontSizePx(): number {
-  const fallback = clamp(800 * TOOLTIP_FONT_SIZE_VIEWPORT_RATIO, TOOLTIP_FONT_SIZE_MIN_PX, TOOLTIP_FONT_SIZE_MAX_PX)
-  if (typeof window === 'undefined') {
-    return fallback
-  }
-
-  const viewportMin = Math.min(window.innerWidth, window.innerHeight)
-  const ideal = viewportMin * TOOLTIP_FONT_SIZE_VIEWPORT_RATIO
-  return clamp(ideal, TOOLTIP_FONT_SIZE_MIN_PX, TOOLTIP_FONT_SIZE_MAX_PX)
-}
-
-function getMeasurementContext(): CanvasRenderingContext2D | null {
-  if (measurementContext) return measurementContext
-  if (typeof document === 'undefined') return null
-
-  const canvas = document.createElement('canvas')
-  const context = canvas.getContext('2d')
-  if (!context) return null
-
-  measurementContext = context
-  return context
+function openTreeLocation(tree: Pick<TreeRecord, 'latitude' | 'longitude'>): void {
+  window.open(getGoogleMapsUrl(tree.latitude, tree.longitude), '_blank', 'noopener')
 }
 
 function useIsMobile(): boolean {
@@ -848,129 +1083,3 @@ function isCoarsePointerDevice(): boolean {
   if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return false
   return window.matchMedia(MOBILE_POINTER_QUERY).matches
 }
-
-function assignTreeFriendsScores(trees: TreeRecord[], neighborCount = 5): void {
-  if (trees.length === 0) return
-
-  const points: IndexedTreePoint[] = trees.map((tree, index) => ({
-    tree,
-    latitude: tree.latitude,
-    longitude: tree.longitude,
-    index,
-  }))
-
-  const kdTreeRoot = buildKdTree(points)
-  if (!kdTreeRoot) return
-
-  points.forEach((point) => {
-    const neighborDistances = findKNearestNeighborDistances(kdTreeRoot, point, neighborCount)
-    const averageDistance =
-      neighborDistances.length > 0
-        ? neighborDistances.reduce((sum, distance) => sum + distance, 0) / neighborDistances.length
-        : Number.POSITIVE_INFINITY
-
-    point.tree.treeFriendsScore = getTreeFriendsScore(averageDistance)
-  })
-}
-
-function assignAccessibilityScores(trees: TreeRecord[]): void {
-  trees.forEach((tree) => {
-    const normalizedTreeFriends = normalizeTreeFriendsScore(tree.treeFriendsScore)
-    const normalizedAffordability = normalizeAffordabilityScore(tree.affordabilityScore)
-    const healthScore = calculateHealthScore(tree)
-    const totalScore = normalizedTreeFriends + normalizedAffordability + healthScore
-    const isDead = tree.status.trim().toLowerCase() === 'dead'
-    tree.accessibilityScore = isDead ? 0 : totalScore
-  })
-}
-
-function buildKdTree(points: IndexedTreePoint[], depth = 0): KdTreeNode | null {
-  if (points.length === 0) return null
-  const axis = (depth % 2) as 0 | 1
-  const sorted = [...points].sort((a, b) => (axis === 0 ? a.latitude - b.latitude : a.longitude - b.longitude))
-
-  const medianIndex = Math.floor(sorted.length / 2)
-  const medianPoint = sorted[medianIndex]
-
-  return {
-    point: medianPoint,
-    axis,
-    left: buildKdTree(sorted.slice(0, medianIndex), depth + 1),
-    right: buildKdTree(sorted.slice(medianIndex + 1), depth + 1),
-  }
-}
-
-function findKNearestNeighborDistances(
-  root: KdTreeNode,
-  target: IndexedTreePoint,
-  k: number,
-): number[] {
-  const distances: number[] = []
-
-  const search = (node: KdTreeNode | null) => {
-    if (!node) return
-
-    const targetValue = node.axis === 0 ? target.latitude : target.longitude
-    const nodeValue = node.axis === 0 ? node.point.latitude : node.point.longitude
-    const nextNode = targetValue < nodeValue ? node.left : node.right
-    const farNode = targetValue < nodeValue ? node.right : node.left
-
-    search(nextNode)
-
-    if (node.point.index !== target.index) {
-      const distance = getDistanceInMeters(
-        target.latitude,
-        target.longitude,
-        node.point.latitude,
-        node.point.longitude,
-      )
-      addDistance(distance)
-    }
-
-    const deltaDegrees = Math.abs(targetValue - nodeValue)
-    const axisDistanceMeters = getAxisDistanceMeters(deltaDegrees, node.axis, target.latitude)
-    const currentMaxDistance = distances[distances.length - 1] ?? Number.POSITIVE_INFINITY
-
-    if (distances.length < k || axisDistanceMeters < currentMaxDistance) {
-      search(farNode)
-    }
-  }
-
-  const addDistance = (distance: number) => {
-    if (!Number.isFinite(distance)) return
-    distances.push(distance)
-    distances.sort((a, b) => a - b)
-    if (distances.length > k) {
-      distances.pop()
-    }
-  }
-
-  search(root)
-  return distances
-}
-
-function getAxisDistanceMeters(deltaDegrees: number, axis: 0 | 1, referenceLatitude: number): number {
-  if (deltaDegrees === 0) return 0
-  if (axis === 0) {
-    return deltaDegrees * 111_132
-  }
-  return deltaDegrees * getMetersPerDegreeLongitude(referenceLatitude)
-}
-
-function getMetersPerDegreeLongitude(latitude: number): number {
-  const meters = 111_320 * Math.cos(toRadians(latitude))
-  return Number.isFinite(meters) && meters > 0 ? meters : 0
-}
-
-function getTreeFriendsScore(averageDistance: number): number {
-  if (!Number.isFinite(averageDistance) || averageDistance <= 0) {
-    return 10
-  }
-
-  if (averageDistance < 2) {
-    return 10
-  }
-
-  const rawScore = 10 - 0.12 * (averageDistance - 2)
-  return clamp(rawScore, 0, 10)
-}
@@ -0,0 +1,201 @@
+import { useState } from 'react'
+import { getTreeKey, type TreeRecord } from '../data/trees.ts'
+import { downloadBlob } from '../download.ts'
+import { getTreeTooltipContent } from '../tooltip.ts'
+import type { Collections } from '../useCollections.ts'
+import { createCollectionsFile, parseCollectionsFile } from './collections.ts'
+
+type CollectionsPanelProps = {
+  collections: Collections
+  canRevisit: (tree: TreeRecord) => boolean
+  onRevisit: (tree: TreeRecord) => void
+  onOpenInMaps: (tree: TreeRecord) => void
+  onClose: () => void
+}
+
+export function CollectionsPanel({ collections, canRevisit, onRevisit, onOpenInMaps, onClose }: CollectionsPanelProps) {
+  const [newCollectionName, setNewCollectionName] = useState('')
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+  const { activeCollection } = collections
+  const titleId = 'collections-title'
+
+  const addCollection = () => {
+    collections.addCollection(newCollectionName)
+    setNewCollectionName('')
+  }
+
+  const downloadCollections = () => {
+    const exportedAt = new Date()
+    const file = createCollectionsFile(collections.collections, exportedAt)
+    downloadBlob(
+      new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }),
+      `random-roots-collections-${exportedAt.toISOString().replace(/[:.]/g, '-')}.json`,
+    )
+  }
+
+  const importFile = async (file: File) => {
+    try {
+      const { collections: imported, skippedEntryCount } = parseCollectionsFile(await file.text())
+      collections.importCollections(imported)
+      setImportMessage(
+        `Imported ${imported.length} ${imported.length === 1 ? 'collection' : 'collections'}.` +
+          (skippedEntryCount > 0
+            ? ` Skipped ${skippedEntryCount} incomplete or repeated ${skippedEntryCount === 1 ? 'entry' : 'entries'}.`
+            : ''),
+      )
+    } catch (error) {
+      setImportMessage(error instanceof Error ? error.message : 'The file could not be imported.')
+    }
+  }
+
+  return (
+    <aside className="app__detail app__detail--left" aria-labelledby={titleId}>
+      <div className="app__detail-header">
+        <h2 id={titleId} className="app__detail-title">
+          collections
+        </h2>
+        <button type="button" className="app__text-button" aria-label="Close collections" onClick={onClose}>
+          close
+        </button>
+      </div>
+      <p className="app__panel-note">
+        Pin trees from their details, or set Click opens to Pin and click them in the mosaic. They go into the
+        selected collection.
+        {collections.saveFailed && ' Collections could not be saved, so they will be lost when the page closes.'}
+      </p>
+
+      {activeCollection && (
+        <div className="app__panel-row">
+          <label className="app__control">
+            <span className="app__control-label">Collection</span>
+            <select
+              className="app__select"
+              value={activeCollection.id}
+              onChange={(event) => collections.setActiveCollectionId(event.target.value)}
+            >
+              {collections.collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name} ({collection.entries.length})
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="app__text-button"
+            onClick={() => collections.deleteCollection(activeCollection.id)}
+          >
+            delete
+          </button>
+        </div>
+      )}
+      <form
+        className="app__panel-row"
+        onSubmit={(event) => {
+          event.preventDefault()
+          addCollection()
+        }}
+      >
+        <input
+          className="app__input app__collection-name"
+          type="text"
+          placeholder="new collection"
+          aria-label="New collection name"
+          value={newCollectionName}
+          onChange={(event) => setNewCollectionName(event.target.value)}
+        />
+        <button type="submit" className="app__text-button">
+          add
+        </button>
+      </form>
+      <div className="app__panel-row">
+        <button
+          type="button"
+          className="app__text-button"
+          disabled={collections.collections.length === 0}
+          onClick={downloadCollections}
+        >
+          export JSON
+        </button>
+        <label className="app__text-button">
+          import JSON
+          <input
+            className="app__sr-only"
+            type="file"
+            accept=".json,application/json"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) void importFile(file)
+              event.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+      {importMessage && (
+        <p className="app__panel-note" role="status">
+          {importMessage}
+        </p>
+      )}
+
+      {activeCollection && (
+        <section className="app__detail-section">
+          <h3 className="app__control-label">{activeCollection.name}</h3>
+          {activeCollection.entries.length === 0 ? (
+            <p className="app__panel-note">No trees pinned yet.</p>
+          ) : (
+            <ol className="app__panel-list app__collection-list">
+              {activeCollection.entries.map((entry) => (
+                <li key={getTreeKey(entry.tree)} className="app__collection-entry">
+                  <p className="app__collection-tree">
+                    {getTreeTooltipContent(entry.tree).map((line, index) => (
+                      <span key={index} className="app__tooltip-line">
+                        {line.text}
+                        {line.deadSuffix && (
+                          <>
+                            {' '}
+                            <span className="app__tooltip-line--dead">{line.deadSuffix}</span>
+                          </>
+                        )}
+                      </span>
+                    ))}
+                  </p>
+                  <textarea
+                    className="app__input app__collection-note"
+                    rows={2}
+                    placeholder="note"
+                    aria-label={`Note for tree-#${entry.tree.treeId}`}
+                    value={entry.note}
+                    onChange={(event) =>
+                      collections.updateNote(activeCollection.id, getTreeKey(entry.tree), event.target.value)
+                    }
+                  />
+                  <div className="app__panel-row">
+                    <button type="button" className="app__text-button" onClick={() => onOpenInMaps(entry.tree)}>
+                      open in Google Maps
+                    </button>
+                    <button
+                      type="button"
+                      className="app__text-button"
+                      disabled={!canRevisit(entry.tree)}
+                      title={canRevisit(entry.tree) ? undefined : 'This tree is not in the loaded dataset.'}
+                      onClick={() => onRevisit(entry.tree)}
+                    >
+                      details
+                    </button>
+                    <button
+                      type="button"
+                      className="app__text-button"
+                      onClick={() => collections.unpin(activeCollection.id, getTreeKey(entry.tree))}
+                    >
+                      unpin
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      )}
+    </aside>
+  )
+}
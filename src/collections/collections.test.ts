@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { getTreeKey, type TreeRecord } from '../data/trees.ts'
+import { createTree } from '../test/treeFixtures.ts'
+import {
+  COLLECTIONS_FILE_VERSION,
+  createCollection,
+  createCollectionsFile,
+  isTreePinned,
+  parseCollectionsFile,
+  pinTree,
+  unpinTree,
+  updateEntryNote,
+  type CollectionEntry,
+} from './collections.ts'
+
+const PINNED_AT = '2026-05-01T12:00:00.000Z'
+
+function createEntry(treeId: string, note = ''): CollectionEntry {
+  return { tree: createTree({ treeId }), note, pinnedAt: PINNED_AT }
+}
+
+function createFileText(entries: unknown[]): string {
+  return JSON.stringify({
+    version: COLLECTIONS_FILE_VERSION,
+    exportedAt: PINNED_AT,
+    collections: [{ id: 'shared', name: 'Block walk', createdAt: PINNED_AT, entries }],
+  })
+}
+
+describe('parseCollectionsFile', () => {
+  it('round-trips an export under fresh ids and restores the lone-tree distance', () => {
+    const lone = { ...createEntry('lone'), tree: createTree({ treeId: 'lone', averageNeighborDistance: Infinity }) }
+    const collection = { ...createCollection('Block walk'), entries: [createEntry('1', 'by the school'), lone] }
+
+    const { collections, skippedEntryCount } = parseCollectionsFile(
+      JSON.stringify(createCollectionsFile([collection], new Date(PINNED_AT))),
+    )
+
+    expect(skippedEntryCount).toBe(0)
+    expect(collections).toHaveLength(1)
+    expect(collections[0].id).not.toBe(collection.id)
+    expect(collections[0].name).toBe('Block walk')
+    expect(collections[0].entries).toEqual(collection.entries)
+  })
+
+  it('skips and counts entries that are not complete trees', () => {
+    const { tree } = createEntry('partial')
+    const { collections, skippedEntryCount } = parseCollectionsFile(
+      createFileText([
+        createEntry('1'),
+        { tree: { treeId: '2', latitude: 40.7, longitude: -73.9 }, note: '', pinnedAt: PINNED_AT },
+        { tree: { ...tree, species: 7 } },
+        { tree: { ...tree, latitude: 'north' } },
+        { tree: { ...tree, borough: 'Atlantis' } },
+        { tree: { ...tree, neighborhoodMethod: 'guess' } },
+        { tree: null },
+        null,
+        5,
+        'x',
+      ]),
+    )
+
+    expect(collections[0].entries.map((entry) => entry.tree.treeId)).toEqual(['1'])
+    expect(skippedEntryCount).toBe(9)
+  })
+
+  it('defaults the borough, note and pin time of entries from older files', () => {
+    const treeWithoutBorough: Partial<TreeRecord> = createTree({ treeId: 'old' })
+    delete treeWithoutBorough.borough
+    const { collections } = parseCollectionsFile(createFileText([{ tree: treeWithoutBorough }]))
+
+    expect(collections[0].entries).toEqual([
+      { tree: createTree({ treeId: 'old' }), note: '', pinnedAt: new Date(0).toISOString() },
+    ])
+  })
+
+  it('keeps only the first entry for a repeated tree', () => {
+    const { collections, skippedEntryCount } = parseCollectionsFile(
+      createFileText([createEntry('1', 'first'), createEntry('2'), createEntry('1', 'second')]),
+    )
+
+    expect(collections[0].entries.map((entry) => entry.note)).toEqual(['first', ''])
+    expect(skippedEntryCount).toBe(1)
+  })
+
+  it('keeps trees that share an id but stand in different places', () => {
+    const elsewhere = { ...createEntry('unknown'), tree: createTree({ treeId: 'unknown', latitude: 40.8 }) }
+    const { collections } = parseCollectionsFile(createFileText([createEntry('unknown'), elsewhere]))
+    expect(collections[0].entries).toHaveLength(2)
+  })
+
+  it('rejects files that are not collection exports', () => {
+    expect(() => parseCollectionsFile('{')).toThrow('The file is not valid JSON.')
+    expect(() => parseCollectionsFile(JSON.stringify({ version: 2, collections: [] }))).toThrow(
+      `The file is not a version ${COLLECTIONS_FILE_VERSION} Random Roots collections export.`,
+    )
+    expect(() => parseCollectionsFile(JSON.stringify({ version: 1, collections: [{ entries: [] }] }))).toThrow(
+      'Collection 1 has no name or entries.',
+    )
+  })
+})
+
+describe('collection entries', () => {
+  const first = createTree({ treeId: 'unknown' })
+  const second = createTree({ treeId: 'unknown', latitude: 40.8 })
+
+  it('pins, notes and unpins trees by key, so trees sharing an id stay apart', () => {
+    let collection = pinTree(pinTree(createCollection('Block walk'), first), second)
+    expect(pinTree(collection, { ...first })).toBe(collection)
+    expect(collection.entries.map((entry) => entry.tree)).toEqual([first, second])
+
+    collection = updateEntryNote(collection, getTreeKey(second), 'by the school')
+    expect(collection.entries.map((entry) => entry.note)).toEqual(['', 'by the school'])
+
+    collection = unpinTree(collection, getTreeKey(first))
+    expect(isTreePinned(collection, getTreeKey(first))).toBe(false)
+    expect(isTreePinned(collection, getTreeKey(second))).toBe(true)
+  })
+})
@@ -0,0 +1,180 @@
+import { DEFAULT_BOROUGH, isBorough } from '../data/boroughs.ts'
+import { getTreeKey, type NeighborhoodAssignmentMethod, type TreeRecord } from '../data/trees.ts'
+
+const COLLECTIONS_STORAGE_KEY = 'random-roots:collections'
+
+export const COLLECTIONS_FILE_VERSION = 1
+export const DEFAULT_COLLECTION_NAME = 'Pinned trees'
+
+const NEIGHBORHOOD_METHODS: NeighborhoodAssignmentMethod[] = ['polygon', 'centroid', 'none']
+
+export type CollectionEntry = {
+  tree: TreeRecord
+  note: string
+  pinnedAt: string
+}
+
+export type TreeCollection = {
+  id: string
+  name: string
+  createdAt: string
+  entries: CollectionEntry[]
+}
+
+export type CollectionsFile = {
+  version: number
+  exportedAt: string
+  collections: TreeCollection[]
+}
+
+export type CollectionsImport = {
+  collections: TreeCollection[]
+  skippedEntryCount: number
+}
+
+export function createCollection(name: string, createdAt = new Date()): TreeCollection {
+  return {
+    id: `${createdAt.getTime().toString(36)}-${Math.floor(Math.random() * 36 ** 4).toString(36)}`,
+    name: name.trim() || DEFAULT_COLLECTION_NAME,
+    createdAt: createdAt.toISOString(),
+    entries: [],
+  }
+}
+
+// A tree appears at most once per collection; pinning it again keeps the first entry and its note.
+export function pinTree(
+  collection: TreeCollection,
+  tree: TreeRecord,
+  note = '',
+  pinnedAt = new Date(),
+): TreeCollection {
+  const treeKey = getTreeKey(tree)
+  if (collection.entries.some((entry) => getTreeKey(entry.tree) === treeKey)) return collection
+  return { ...collection, entries: [...collection.entries, { tree, note, pinnedAt: pinnedAt.toISOString() }] }
+}
+
+// Entries are addressed by getTreeKey, since two pinned trees can share an id.
+export function unpinTree(collection: TreeCollection, treeKey: string): TreeCollection {
+  return { ...collection, entries: collection.entries.filter((entry) => getTreeKey(entry.tree) !== treeKey) }
+}
+
+export function updateEntryNote(collection: TreeCollection, treeKey: string, note: string): TreeCollection {
+  return {
+    ...collection,
+    entries: collection.entries.map((entry) => (getTreeKey(entry.tree) === treeKey ? { ...entry, note } : entry)),
+  }
+}
+
+export function isTreePinned(collection: TreeCollection | null, treeKey: string): boolean {
+  return collection?.entries.some((entry) => getTreeKey(entry.tree) === treeKey) ?? false
+}
+
+export function createCollectionsFile(collections: TreeCollection[], exportedAt = new Date()): CollectionsFile {
+  return { version: COLLECTIONS_FILE_VERSION, exportedAt: exportedAt.toISOString(), collections }
+}
+
+// Imported collections get fresh ids so that importing a colleague's file twice, or one's own export, never
+// overwrites what is already here. Entries that are not complete tree records are skipped and counted.
+export function parseCollectionsFile(text: string): CollectionsImport {
+  let file: Partial<CollectionsFile>
+  try {
+    file = JSON.parse(text) as Partial<CollectionsFile>
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+  if (file?.version !== COLLECTIONS_FILE_VERSION || !Array.isArray(file.collections)) {
+    throw new Error(`The file is not a version ${COLLECTIONS_FILE_VERSION} Random Roots collections export.`)
+  }
+
+  let skippedEntryCount = 0
+  const collections = file.collections.map((collection, index) => {
+    if (typeof collection?.name !== 'string' || !Array.isArray(collection.entries)) {
+      throw new Error(`Collection ${index + 1} has no name or entries.`)
+    }
+    const entries = restoreCollectionEntries(collection.entries)
+    skippedEntryCount += collection.entries.length - entries.length
+    return { ...createCollection(collection.name), entries }
+  })
+  return { collections, skippedEntryCount }
+}
+
+// Stored collections are checked like imported ones, since anything in localStorage may have been edited by hand.
+export function readCollections(): TreeCollection[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(COLLECTIONS_STORAGE_KEY) ?? '[]') as unknown
+    if (!Array.isArray(stored)) return []
+    return stored
+      .filter(
+        (collection): collection is TreeCollection =>
+          typeof collection?.id === 'string' &&
+          typeof collection.name === 'string' &&
+          Array.isArray(collection.entries),
+      )
+      .map((collection) => ({ ...collection, entries: restoreCollectionEntries(collection.entries) }))
+  } catch {
+    return []
+  }
+}
+
+export function writeCollections(collections: TreeCollection[]): boolean {
+  try {
+    window.localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections))
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Keeps the first entry for each tree key and drops any entry whose tree lacks a field the panel renders.
+function restoreCollectionEntries(values: unknown[]): CollectionEntry[] {
+  const treeKeys = new Set<string>()
+  return values.flatMap((value): CollectionEntry[] => {
+    if (typeof value !== 'object' || value == null) return []
+    const entry = value as Partial<CollectionEntry>
+    const tree = restoreTreeRecord(entry.tree)
+    if (!tree || treeKeys.has(getTreeKey(tree))) return []
+    treeKeys.add(getTreeKey(tree))
+    return [
+      {
+        tree,
+        note: typeof entry.note === 'string' ? entry.note : '',
+        pinnedAt: typeof entry.pinnedAt === 'string' ? entry.pinnedAt : new Date(0).toISOString(),
+      },
+    ]
+  })
+}
+
+// JSON turns the infinite neighbor distance of a lone tree into null, and files shared by older builds have no
+// borough. Anything else missing or mistyped rejects the tree.
+function restoreTreeRecord(value: unknown): TreeRecord | null {
+  if (typeof value !== 'object' || value == null) return null
+  const tree = value as Record<keyof TreeRecord, unknown>
+  const textFields = [tree.treeId, tree.status, tree.sidewalk, tree.problems, tree.species, tree.neighborhood]
+  if (!textFields.every((field) => typeof field === 'string')) return null
+  if (!isFiniteNumber(tree.latitude) || !isFiniteNumber(tree.longitude) || !isFiniteNumber(tree.treeFriendsScore)) {
+    return null
+  }
+  const optionalNumbers = [
+    tree.averageNeighborDistance,
+    tree.expectedRent,
+    tree.affordabilityScore,
+    tree.accessibilityScore,
+  ]
+  if (!optionalNumbers.every((field) => field == null || typeof field === 'number')) return null
+  if (tree.borough != null && !(typeof tree.borough === 'string' && isBorough(tree.borough))) return null
+  if (!NEIGHBORHOOD_METHODS.includes(tree.neighborhoodMethod as NeighborhoodAssignmentMethod)) return null
+
+  const restored = { ...value } as TreeRecord
+  return {
+    ...restored,
+    borough: restored.borough ?? DEFAULT_BOROUGH,
+    averageNeighborDistance: restored.averageNeighborDistance ?? Number.POSITIVE_INFINITY,
+    expectedRent: restored.expectedRent ?? null,
+    affordabilityScore: restored.affordabilityScore ?? null,
+    accessibilityScore: restored.accessibilityScore ?? null,
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
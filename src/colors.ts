@@ -0,0 +1,144 @@
+import { ACCESSIBILITY_SCORE_MAX } from './data/scoringModels.ts'
+
+export type ScoreBand = 'excellent' | 'great' | 'fair' | 'poor'
+
+export type ScoreBandInfo = {
+  id: ScoreBand
+  label: string
+  min: number
+}
+
+export type ColorPaletteId = 'classic' | 'blue-orange' | 'purple-orange' | 'viridis' | 'cividis'
+
+export type ColorPalette = {
+  id: ColorPaletteId
+  label: string
+  kind: 'diverging' | 'sequential'
+  colorblindSafe: boolean
+  bands: Record<ScoreBand, string>
+}
+
+export type ColorMode = 'bands' | 'gradient'
+
+export type ColorScale = {
+  palette: ColorPalette
+  mode: ColorMode
+}
+
+// Ordered from the highest band down; a score belongs to the first band whose minimum it reaches.
+export const SCORE_BANDS: ScoreBandInfo[] = [
+  { id: 'excellent', label: 'Excellent', min: 8.5 },
+  { id: 'great', label: 'Great', min: 7.5 },
+  { id: 'fair', label: 'Fair', min: 4.5 },
+  { id: 'poor', label: 'Poor', min: 0 },
+]
+
+export const COLOR_PALETTES: ColorPalette[] = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    kind: 'diverging',
+    colorblindSafe: false,
+    bands: { excellent: '#0C3B1D', great: '#1C7F3B', fair: '#FFFFFF', poor: '#C0392B' },
+  },
+  {
+    id: 'blue-orange',
+    label: 'Blue-orange',
+    kind: 'diverging',
+    colorblindSafe: true,
+    bands: { excellent: '#08519C', great: '#6BAED6', fair: '#F7F7F7', poor: '#E66101' },
+  },
+  {
+    id: 'purple-orange',
+    label: 'Purple-orange',
+    kind: 'diverging',
+    colorblindSafe: true,
+    bands: { excellent: '#542788', great: '#998EC3', fair: '#F7F7F7', poor: '#E08214' },
+  },
+  {
+    id: 'viridis',
+    label: 'Viridis',
+    kind: 'sequential',
+    colorblindSafe: true,
+    bands: { excellent: '#FDE725', great: '#35B779', fair: '#287C8E', poor: '#443A83' },
+  },
+  {
+    id: 'cividis',
+    label: 'Cividis',
+    kind: 'sequential',
+    colorblindSafe: true,
+    bands: { excellent: '#FEE838', great: '#BCAF6F', fair: '#7C7B78', poor: '#35456C' },
+  },
+]
+
+export const COLOR_MODES: { id: ColorMode; label: string }[] = [
+  { id: 'bands', label: 'Bands' },
+  { id: 'gradient', label: 'Gradient' },
+]
+
+export const DEFAULT_COLOR_PALETTE = COLOR_PALETTES[0]
+export const DEFAULT_COLOR_MODE: ColorMode = 'bands'
+export const DEFAULT_COLOR_SCALE: ColorScale = { palette: DEFAULT_COLOR_PALETTE, mode: DEFAULT_COLOR_MODE }
+
+export const UNKNOWN_SCORE_COLOR = '#3A2A24'
+export const DEFAULT_CELL_COLOR = '#160B06'
+
+// Gradient colors are rounded to this many steps so the map can still batch points by color.
+const GRADIENT_STEPS = 64
+
+// Each band's color sits at the middle of its score range; scores in between blend the neighboring colors.
+const GRADIENT_ANCHORS = SCORE_BANDS.map((band, index) => ({
+  id: band.id,
+  score: (band.min + (index === 0 ? ACCESSIBILITY_SCORE_MAX : SCORE_BANDS[index - 1].min)) / 2,
+})).reverse()
+
+export function getColorPalette(id: string): ColorPalette {
+  return COLOR_PALETTES.find((palette) => palette.id === id) ?? DEFAULT_COLOR_PALETTE
+}
+
+export function isColorMode(value: string | null): value is ColorMode {
+  return COLOR_MODES.some((mode) => mode.id === value)
+}
+
+export function getScoreBand(score: number): ScoreBandInfo {
+  return SCORE_BANDS.find((band) => score >= band.min) ?? SCORE_BANDS[SCORE_BANDS.length - 1]
+}
+
+export function getAccessibilityColor(score: number | null, scale: ColorScale = DEFAULT_COLOR_SCALE): string {
+  if (score == null || !Number.isFinite(score)) return UNKNOWN_SCORE_COLOR
+  if (scale.mode === 'bands') return scale.palette.bands[getScoreBand(score).id]
+  return getGradientColor(scale.palette, score)
+}
+
+// CSS linear-gradient stops that match getAccessibilityColor in gradient mode from score 0 to the maximum.
+export function getGradientStops(palette: ColorPalette): string[] {
+  return GRADIENT_ANCHORS.map(
+    (anchor) => `${palette.bands[anchor.id]} ${((anchor.score / ACCESSIBILITY_SCORE_MAX) * 100).toFixed(1)}%`,
+  )
+}
+
+function getGradientColor(palette: ColorPalette, score: number): string {
+  const first = GRADIENT_ANCHORS[0]
+  const last = GRADIENT_ANCHORS[GRADIENT_ANCHORS.length - 1]
+  if (score <= first.score) return palette.bands[first.id]
+  if (score >= last.score) return palette.bands[last.id]
+
+  const upperIndex = GRADIENT_ANCHORS.findIndex((anchor) => anchor.score > score)
+  const lower = GRADIENT_ANCHORS[upperIndex - 1]
+  const upper = GRADIENT_ANCHORS[upperIndex]
+  const t = Math.round(((score - lower.score) / (upper.score - lower.score)) * GRADIENT_STEPS) / GRADIENT_STEPS
+  return mixColors(palette.bands[lower.id], palette.bands[upper.id], t)
+}
+
+function mixColors(from: string, to: string, t: number): string {
+  const start = parseHexColor(from)
+  const end = parseHexColor(to)
+  return `#${start
+    .map((channel, index) => Math.round(channel + (end[index] - channel) * t).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`
+}
+
+function parseHexColor(color: string): number[] {
+  return [1, 3, 5].map((offset) => parseInt(color.slice(offset, offset + 2), 16))
+}
@@ -0,0 +1,419 @@
+import { useMemo, useState } from 'react'
+import { SCORE_BANDS, type ColorScale } from '../colors.ts'
+import { getNeighborhoodKey, type Borough } from '../data/boroughs.ts'
+import {
+  getNeighborhoodProfiles,
+  getTopSpecies,
+  UNASSIGNED_NEIGHBORHOOD,
+  type NeighborhoodProfile,
+  type ScoreDistribution,
+} from '../data/neighborhoodSummary.ts'
+import { ACCESSIBILITY_SCORE_MAX } from '../data/scoringModels.ts'
+import { FILTERABLE_SCORES } from '../data/treeFilters.ts'
+import type { TreeRecord } from '../data/trees.ts'
+
+// Okabe-Ito, which stays distinguishable with the common forms of color blindness.
+const SPECIES_COLORS = ['#E69F00', '#56B4E9', '#009E73', '#F0E442', '#0072B2', '#D55E00', '#CC79A7']
+const OTHER_SPECIES_COLOR = '#8B7D73'
+const HEALTH_LABELS = ['Dead or stump', 'Poor', 'Fair', 'Good']
+const BOX_PLOT_WIDTH = 120
+const BOX_PLOT_HEIGHT = 16
+const STACKED_BAR_WIDTH = 140
+const SCATTER_WIDTH = 560
+const SCATTER_HEIGHT = 320
+const SCATTER_MARGIN = { top: 16, right: 16, bottom: 40, left: 48 }
+const SCATTER_POINT_RADIUS = 4
+const AXIS_COLOR = '#312013'
+const LABEL_COLOR = '#8B7D73'
+const SELECTED_COLOR = '#FFFFFF'
+
+type SortKey = 'name' | 'accessibility' | 'trees' | 'rent'
+
+const SORT_OPTIONS: { id: SortKey; label: string }[] = [
+  { id: 'name', label: 'Name' },
+  { id: 'accessibility', label: 'Mean accessibility' },
+  { id: 'trees', label: 'Tree count' },
+  { id: 'rent', label: 'Rent' },
+]
+
+type NeighborhoodDashboardProps = {
+  trees: TreeRecord[]
+  neighborhoodRents: Record<string, number>
+  selectedNeighborhood: string | null
+  selectedBorough: Borough | null
+  colorScale: ColorScale
+  onNeighborhoodSelect: (neighborhood: string, borough: Borough) => void
+}
+
+export function NeighborhoodDashboard({
+  trees,
+  neighborhoodRents,
+  selectedNeighborhood,
+  selectedBorough,
+  colorScale,
+  onNeighborhoodSelect,
+}: NeighborhoodDashboardProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('name')
+  const profiles = useMemo(() => getNeighborhoodProfiles(trees, neighborhoodRents), [trees, neighborhoodRents])
+  const topSpecies = useMemo(() => getTopSpecies(profiles, SPECIES_COLORS.length), [profiles])
+  const sortedProfiles = useMemo(() => sortProfiles(profiles, sortKey), [profiles, sortKey])
+  // Health 3 takes the best band color and dead trees the worst, so the bars read like the mosaic.
+  const healthColors = [...SCORE_BANDS].reverse().map((band) => colorScale.palette.bands[band.id])
+  const spansBoroughs = new Set(profiles.map((profile) => profile.borough)).size > 1
+  const getLabel = (profile: NeighborhoodProfile) =>
+    spansBoroughs ? `${profile.neighborhood}, ${profile.borough}` : profile.neighborhood
+  // Links from before boroughs existed only name the neighborhood, which then matches it in every borough.
+  const isSelected = (profile: NeighborhoodProfile) =>
+    profile.neighborhood === selectedNeighborhood && (selectedBorough == null || profile.borough === selectedBorough)
+
+  return (
+    <div className="app__dashboard">
+      <div className="app__panel-row app__panel-row--spread">
+        <p className="app__panel-note">
+          {profiles.length} neighborhoods · {trees.length.toLocaleString()} trees. Select a neighborhood to show only
+          its trees in the mosaic.
+        </p>
+        <label className="app__control">
+          <span className="app__control-label">Sort by</span>
+          <select
+            className="app__select"
+            value={sortKey}
+            onChange={(event) => setSortKey(event.target.value as SortKey)}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="app__dashboard-legend">
+        <ChartLegend
+          title="Species"
+          items={[
+            ...topSpecies.map((species, index) => ({ label: species, color: SPECIES_COLORS[index] })),
+            { label: 'other', color: OTHER_SPECIES_COLOR },
+          ]}
+        />
+        <ChartLegend
+          title="Health"
+          items={HEALTH_LABELS.map((label, index) => ({ label, color: healthColors[index] }))}
+        />
+      </div>
+      <div className="app__dashboard-table-wrapper">
+        <table className="app__dashboard-table">
+          <thead>
+            <tr>
+              <th scope="col">Neighborhood</th>
+              <th scope="col">Trees</th>
+              {FILTERABLE_SCORES.map((score) => (
+                <th key={score.id} scope="col">
+                  {score.label} (0-{score.max})
+                </th>
+              ))}
+              <th scope="col">Species</th>
+              <th scope="col">Health</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedProfiles.map((profile) => (
+              <tr
+                key={getNeighborhoodKey(profile.borough, profile.neighborhood)}
+                className={isSelected(profile) ? 'app__dashboard-row--selected' : undefined}
+              >
+                <th scope="row">
+                  <button
+                    type="button"
+                    className="app__text-button"
+                    disabled={profile.neighborhood === UNASSIGNED_NEIGHBORHOOD}
+                    aria-pressed={isSelected(profile)}
+                    onClick={() => onNeighborhoodSelect(profile.neighborhood, profile.borough)}
+                  >
+                    {getLabel(profile)}
+                  </button>
+                </th>
+                <td>{profile.treeCount.toLocaleString()}</td>
+                {FILTERABLE_SCORES.map((score) => (
+                  <td key={score.id}>
+                    <BoxPlot
+                      label={`${score.label} in ${getLabel(profile)}`}
+                      distribution={profile.scoreDistributions[score.id]}
+                      max={score.max}
+                    />
+                  </td>
+                ))}
+                <td>
+                  <StackedBar
+                    label={`Species in ${getLabel(profile)}`}
+                    segments={getSpeciesSegments(profile, topSpecies)}
+                  />
+                </td>
+                <td>
+                  <StackedBar
+                    label={`Health in ${getLabel(profile)}`}
+                    segments={profile.healthCounts.map((count, index) => ({
+                      label: HEALTH_LABELS[index],
+                      count,
+                      color: healthColors[index],
+                    }))}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <RentScatter
+        profiles={profiles}
+        getLabel={getLabel}
+        isSelected={isSelected}
+        onNeighborhoodSelect={onNeighborhoodSelect}
+      />
+    </div>
+  )
+}
+
+type ChartLegendProps = {
+  title: string
+  items: { label: string; color: string }[]
+}
+
+function ChartLegend({ title, items }: ChartLegendProps) {
+  return (
+    <ul className="app__legend-list" aria-label={`${title} colors`}>
+      <li className="app__control-label">{title}</li>
+      {items.map((item) => (
+        <li key={item.label} className="app__legend-item">
+          <span className="app__legend-swatch" style={{ backgroundColor: item.color }} />
+          {item.label}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+type BoxPlotProps = {
+  label: string
+  distribution: ScoreDistribution | null
+  max: number
+}
+
+function BoxPlot({ label, distribution, max }: BoxPlotProps) {
+  if (!distribution) return <span className="app__panel-muted">no scores</span>
+
+  const x = (value: number) => (Math.min(Math.max(value, 0), max) / max) * BOX_PLOT_WIDTH
+  const middle = BOX_PLOT_HEIGHT / 2
+  const { min, lowerQuartile, median, upperQuartile, max: highest } = distribution
+
+  return (
+    <svg
+      className="app__dashboard-chart"
+      width={BOX_PLOT_WIDTH}
+      height={BOX_PLOT_HEIGHT}
+      viewBox={`-1 0 ${BOX_PLOT_WIDTH + 2} ${BOX_PLOT_HEIGHT}`}
+      role="img"
+      aria-label={
+        `${label}: minimum ${formatScore(min)}, quartiles ${formatScore(lowerQuartile)} to ` +
+        `${formatScore(upperQuartile)}, median ${formatScore(median)}, maximum ${formatScore(highest)}`
+      }
+    >
+      <line x1={0} x2={BOX_PLOT_WIDTH} y1={middle} y2={middle} stroke={AXIS_COLOR} />
+      <line x1={x(min)} x2={x(highest)} y1={middle} y2={middle} stroke={LABEL_COLOR} />
+      <rect
+        x={x(lowerQuartile)}
+        y={3}
+        width={Math.max(x(upperQuartile) - x(lowerQuartile), 1)}
+        height={BOX_PLOT_HEIGHT - 6}
+        fill="#312013"
+        stroke={LABEL_COLOR}
+      />
+      <line x1={x(median)} x2={x(median)} y1={2} y2={BOX_PLOT_HEIGHT - 2} stroke={SELECTED_COLOR} strokeWidth={2} />
+    </svg>
+  )
+}
+
+type StackedBarSegment = {
+  label: string
+  count: number
+  color: string
+}
+
+type StackedBarProps = {
+  label: string
+  segments: StackedBarSegment[]
+}
+
+function StackedBar({ label, segments }: StackedBarProps) {
+  const total = segments.reduce((sum, segment) => sum + segment.count, 0)
+  if (total === 0) return null
+  let offset = 0
+
+  return (
+    <svg
+      className="app__dashboard-chart"
+      width={STACKED_BAR_WIDTH}
+      height={BOX_PLOT_HEIGHT}
+      role="img"
+      aria-label={`${label}: ${segments
+        .filter((segment) => segment.count > 0)
+        .map((segment) => `${segment.label} ${formatPercent(segment.count / total)}`)
+        .join(', ')}`}
+    >
+      {segments.map((segment) => {
+        const width = (segment.count / total) * STACKED_BAR_WIDTH
+        const x = offset
+        offset += width
+        return (
+          <rect key={segment.label} x={x} y={2} width={width} height={BOX_PLOT_HEIGHT - 4} fill={segment.color}>
+            <title>{`${segment.label}: ${segment.count} (${formatPercent(segment.count / total)})`}</title>
+          </rect>
+        )
+      })}
+    </svg>
+  )
+}
+
+type RentScatterProps = {
+  profiles: NeighborhoodProfile[]
+  getLabel: (profile: NeighborhoodProfile) => string
+  isSelected: (profile: NeighborhoodProfile) => boolean
+  onNeighborhoodSelect: (neighborhood: string, borough: Borough) => void
+}
+
+function RentScatter({ profiles, getLabel, isSelected, onNeighborhoodSelect }: RentScatterProps) {
+  const points = profiles.filter(
+    (profile): profile is NeighborhoodProfile & { rent: number; meanAccessibility: number } =>
+      profile.rent != null && profile.meanAccessibility != null,
+  )
+  const missingCount = profiles.length - points.length
+  if (points.length === 0) {
+    return <p className="app__panel-note">No neighborhood has both a StreetEasy rent and scored trees.</p>
+  }
+
+  const rents = points.map((point) => point.rent)
+  const rentTicks = getNiceTicks(Math.min(...rents), Math.max(...rents), 5)
+  const rentMin = rentTicks[0]
+  const rentMax = rentTicks[rentTicks.length - 1]
+  const plotWidth = SCATTER_WIDTH - SCATTER_MARGIN.left - SCATTER_MARGIN.right
+  const plotHeight = SCATTER_HEIGHT - SCATTER_MARGIN.top - SCATTER_MARGIN.bottom
+  const x = (rent: number) =>
+    SCATTER_MARGIN.left + (rentMax === rentMin ? 0.5 : (rent - rentMin) / (rentMax - rentMin)) * plotWidth
+  const y = (score: number) => SCATTER_MARGIN.top + (1 - score / ACCESSIBILITY_SCORE_MAX) * plotHeight
+  const scoreTicks = getNiceTicks(0, ACCESSIBILITY_SCORE_MAX, 5).filter((tick) => tick <= ACCESSIBILITY_SCORE_MAX)
+
+  return (
+    <figure className="app__dashboard-figure">
+      <svg
+        className="app__dashboard-scatter"
+        viewBox={`0 0 ${SCATTER_WIDTH} ${SCATTER_HEIGHT}`}
+        role="group"
+        aria-label="StreetEasy median rent against mean accessibility by neighborhood"
+      >
+        {rentTicks.map((tick) => (
+          <g key={`x-${tick}`}>
+            <line
+              x1={x(tick)}
+              x2={x(tick)}
+              y1={SCATTER_MARGIN.top}
+              y2={SCATTER_MARGIN.top + plotHeight}
+              stroke={AXIS_COLOR}
+            />
+            <text x={x(tick)} y={SCATTER_HEIGHT - 22} fill={LABEL_COLOR} textAnchor="middle">
+              ${tick.toLocaleString()}
+            </text>
+          </g>
+        ))}
+        {scoreTicks.map((tick) => (
+          <g key={`y-${tick}`}>
+            <line
+              x1={SCATTER_MARGIN.left}
+              x2={SCATTER_MARGIN.left + plotWidth}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke={AXIS_COLOR}
+            />
+            <text x={SCATTER_MARGIN.left - 8} y={y(tick) + 4} fill={LABEL_COLOR} textAnchor="end">
+              {tick}
+            </text>
+          </g>
+        ))}
+        <text x={SCATTER_MARGIN.left + plotWidth / 2} y={SCATTER_HEIGHT - 4} fill={LABEL_COLOR} textAnchor="middle">
+          StreetEasy median rent
+        </text>
+        {points.map((point) => {
+          const isPointSelected = isSelected(point)
+          return (
+            <circle
+              key={getNeighborhoodKey(point.borough, point.neighborhood)}
+              className="app__dashboard-point"
+              cx={x(point.rent)}
+              cy={y(point.meanAccessibility)}
+              r={isPointSelected ? SCATTER_POINT_RADIUS * 1.75 : SCATTER_POINT_RADIUS}
+              fill={isPointSelected ? SELECTED_COLOR : LABEL_COLOR}
+              tabIndex={0}
+              role="button"
+              aria-label={
+                `${getLabel(point)}: rent $${Math.round(point.rent).toLocaleString()}, ` +
+                `mean accessibility ${formatScore(point.meanAccessibility)}`
+              }
+              onClick={() => onNeighborhoodSelect(point.neighborhood, point.borough)}
+              onKeyDown={(event) => {
+                if (event.key !== 'Enter' && event.key !== ' ') return
+                event.preventDefault()
+                onNeighborhoodSelect(point.neighborhood, point.borough)
+              }}
+            >
+              <title>
+                {`${getLabel(point)}\n$${Math.round(point.rent).toLocaleString()} · ` +
+                  `${formatScore(point.meanAccessibility)} mean accessibility`}
+              </title>
+            </circle>
+          )
+        })}
+      </svg>
+      <figcaption className="app__panel-note">
+        Mean accessibility (0-{ACCESSIBILITY_SCORE_MAX}) against StreetEasy median rent.
+        {missingCount > 0 && ` ${missingCount} neighborhoods without a StreetEasy rent are left out.`}
+      </figcaption>
+    </figure>
+  )
+}
+
+function getSpeciesSegments(profile: NeighborhoodProfile, topSpecies: string[]): StackedBarSegment[] {
+  const segments = topSpecies.map((species, index) => ({
+    label: species,
+    count: profile.speciesCounts.get(species) ?? 0,
+    color: SPECIES_COLORS[index],
+  }))
+  const listedCount = segments.reduce((sum, segment) => sum + segment.count, 0)
+  return [...segments, { label: 'other', count: profile.treeCount - listedCount, color: OTHER_SPECIES_COLOR }]
+}
+
+function sortProfiles(profiles: NeighborhoodProfile[], sortKey: SortKey): NeighborhoodProfile[] {
+  if (sortKey === 'name') return profiles
+  const getValue = (profile: NeighborhoodProfile) =>
+    sortKey === 'accessibility' ? profile.meanAccessibility : sortKey === 'trees' ? profile.treeCount : profile.rent
+  return [...profiles].sort((a, b) => (getValue(b) ?? -Infinity) - (getValue(a) ?? -Infinity))
+}
+
+function getNiceTicks(min: number, max: number, count: number): number[] {
+  if (min === max) return [min]
+  const roughStep = (max - min) / count
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep))
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= roughStep)!
+  const ticks: number[] = []
+  for (let tick = Math.floor(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Math.round(tick * 1e6) / 1e6)
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(ticks[ticks.length - 1] + step)
+  return ticks
+}
+
+function formatScore(value: number): string {
+  return value.toFixed(1)
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
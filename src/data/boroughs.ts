@@ -0,0 +1,43 @@
+export type Borough = 'Manhattan' | 'Bronx' | 'Brooklyn' | 'Queens' | 'Staten Island'
+
+// In the order of the city's borough codes, 1 to 5.
+export const BOROUGHS: Borough[] = ['Manhattan', 'Bronx', 'Brooklyn', 'Queens', 'Staten Island']
+
+// The bundled neighborhood and rent files cover Manhattan only and have no borough column.
+export const DEFAULT_BOROUGH: Borough = 'Manhattan'
+
+const BOROUGH_ALIASES: Record<string, Borough> = {
+  manhattan: 'Manhattan',
+  'new york': 'Manhattan',
+  mn: 'Manhattan',
+  bronx: 'Bronx',
+  'the bronx': 'Bronx',
+  bx: 'Bronx',
+  brooklyn: 'Brooklyn',
+  kings: 'Brooklyn',
+  bk: 'Brooklyn',
+  queens: 'Queens',
+  qn: 'Queens',
+  qns: 'Queens',
+  'staten island': 'Staten Island',
+  richmond: 'Staten Island',
+  si: 'Staten Island',
+}
+
+// Accepts borough names, county names, the two-letter codes and the numeric borough codes.
+export function parseBorough(value: string | undefined): Borough | null {
+  const normalized = (value ?? '').replace(/\s+/g, ' ').trim().toLowerCase()
+  if (!normalized) return null
+  const code = Number(normalized)
+  if (Number.isInteger(code)) return BOROUGHS[code - 1] ?? null
+  return BOROUGH_ALIASES[normalized] ?? null
+}
+
+export function isBorough(value: string): value is Borough {
+  return (BOROUGHS as string[]).includes(value)
+}
+
+// Neighborhood names are only unique within a borough.
+export function getNeighborhoodKey(borough: Borough, name: string): string {
+  return `${borough}/${name}`
+}
@@ -0,0 +1,73 @@
+import type { CsvHeaderAliases } from './csv.ts'
+import { DATASET_SCHEMAS, type DatasetName } from './validation.ts'
+
+export type DatasetColumnMappings = Partial<Record<DatasetName, CsvHeaderAliases>>
+
+export const DATASET_NAMES: DatasetName[] = ['trees', 'neighborhoods', 'rent']
+
+export const DATASET_LABELS: Record<DatasetName, string> = {
+  trees: 'Trees',
+  neighborhoods: 'Neighborhood coordinates',
+  rent: 'Rent',
+}
+
+// Other names the expected headers commonly go by, checked after an exact and a case-insensitive match.
+const COLUMN_SYNONYMS: Record<string, string[]> = {
+  tree_id: ['id', 'treeid', 'tree id'],
+  spc_common: ['species', 'common_name', 'common name'],
+  latitude: ['lat', 'y'],
+  longitude: ['lon', 'lng', 'long', 'x'],
+  name: ['neighborhood', 'ntaname', 'areaname'],
+  areaName: ['neighborhood', 'area', 'name'],
+  Rent: ['median_rent', 'medianrent', 'median rent'],
+  borough: ['boroname', 'boro_name', 'boro', 'borocode'],
+}
+
+// Every dataset may name a borough per row. It is not part of the validation schemas because the bundled files,
+// which are all Manhattan, leave it out.
+const BOROUGH_COLUMN = { name: 'borough', required: false }
+
+export function getDatasetColumns(dataset: DatasetName): { name: string; required: boolean }[] {
+  return [...DATASET_SCHEMAS[dataset].columns, BOROUGH_COLUMN]
+}
+
+export function guessColumnMapping(dataset: DatasetName, headers: string[]): CsvHeaderAliases {
+  const mapping: CsvHeaderAliases = {}
+  const normalizedHeaders = headers.map((header) => header.trim().toLowerCase())
+
+  getDatasetColumns(dataset).forEach(({ name }) => {
+    const candidates = [name, ...(COLUMN_SYNONYMS[name] ?? [])].map((candidate) => candidate.toLowerCase())
+    const exactIndex = headers.indexOf(name)
+    const index =
+      exactIndex !== -1
+        ? exactIndex
+        : candidates.reduce((found, candidate) => (found !== -1 ? found : normalizedHeaders.indexOf(candidate)), -1)
+    if (index !== -1) mapping[name] = headers[index]
+  })
+
+  return mapping
+}
+
+export function getUnmappedRequiredColumns(dataset: DatasetName, mapping: CsvHeaderAliases): string[] {
+  return getDatasetColumns(dataset)
+    .filter((column) => column.required && !mapping[column.name])
+    .map((column) => column.name)
+}
+
+// Picks the dataset whose required columns the headers cover best, skipping datasets that already have a file.
+export function guessDatasetName(headers: string[], assigned: DatasetName[] = []): DatasetName | null {
+  let bestDataset: DatasetName | null = null
+  let bestCoverage = 0
+
+  DATASET_NAMES.filter((dataset) => !assigned.includes(dataset)).forEach((dataset) => {
+    const required = getDatasetColumns(dataset).filter((column) => column.required)
+    const mapping = guessColumnMapping(dataset, headers)
+    const coverage = required.filter((column) => mapping[column.name]).length / required.length
+    if (coverage > bestCoverage) {
+      bestDataset = dataset
+      bestCoverage = coverage
+    }
+  })
+
+  return bestDataset
+}
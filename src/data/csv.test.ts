@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createCsvParser,
+  createCsvRowMapper,
+  createCsvTableParser,
+  formatCsvRecord,
+  parseCsvRecords,
+  parseCsvTable,
+  type CsvColumns,
+} from './csv.ts'
+
+function splitIntoChunks(text: string, size: number): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size))
+  }
+  return chunks
+}
+
+describe('parseCsvRecords', () => {
+  it('parses simple records', () => {
+    expect(parseCsvRecords('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ])
+  })
+
+  it('keeps empty fields', () => {
+    expect(parseCsvRecords(',a,,\n')).toEqual([['', 'a', '', '']])
+  })
+
+  it('accepts LF, CRLF and lone CR line endings', () => {
+    expect(parseCsvRecords('a\nb\r\nc\rd')).toEqual([['a'], ['b'], ['c'], ['d']])
+  })
+
+  it('ignores a trailing newline and blank lines', () => {
+    expect(parseCsvRecords('a,b\n\n1,2\r\n\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+
+  it('strips a leading byte order mark', () => {
+    expect(parseCsvRecords('\uFEFFareaName,Rent\nSoho,5000')).toEqual([
+      ['areaName', 'Rent'],
+      ['Soho', '5000'],
+    ])
+  })
+
+  it('keeps a byte order mark that is not at the start', () => {
+    expect(parseCsvRecords('a,\uFEFFb')).toEqual([['a', '\uFEFFb']])
+  })
+
+  it('unwraps quoted fields containing commas', () => {
+    expect(parseCsvRecords('"Smith, John",42')).toEqual([['Smith, John', '42']])
+  })
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsvRecords('"say ""hi""",""""')).toEqual([['say "hi"', '"']])
+  })
+
+  it('keeps newlines inside quoted fields', () => {
+    expect(parseCsvRecords('id,notes\n1,"line one\nline two"\n2,"a\r\nb"')).toEqual([
+      ['id', 'notes'],
+      ['1', 'line one\nline two'],
+      ['2', 'a\r\nb'],
+    ])
+  })
+
+  it('keeps a quoted empty field as its own record', () => {
+    expect(parseCsvRecords('a\n""\nb')).toEqual([['a'], [''], ['b']])
+  })
+
+  it('treats quotes inside unquoted fields as literal characters', () => {
+    expect(parseCsvRecords('5\'10",tall')).toEqual([['5\'10"', 'tall']])
+  })
+
+  it('keeps text after a closing quote in the same field', () => {
+    expect(parseCsvRecords('"a"b,c')).toEqual([['ab', 'c']])
+  })
+
+  it('closes an unterminated quoted field at the end of input', () => {
+    expect(parseCsvRecords('a,"unterminated\nvalue')).toEqual([['a', 'unterminated\nvalue']])
+  })
+
+  it('returns no records for empty input', () => {
+    expect(parseCsvRecords('')).toEqual([])
+    expect(parseCsvRecords('\uFEFF')).toEqual([])
+  })
+
+  it('produces the same records however the input is chunked', () => {
+    const text = '\uFEFFid,"notes, quoted"\r\n1,"multi\r\nline ""quote"""\r\n2,plain\r\n'
+    const expected = parseCsvRecords(text)
+    for (let size = 1; size <= text.length; size += 1) {
+      expect(parseCsvRecords(splitIntoChunks(text, size))).toEqual(expected)
+    }
+  })
+})
+
+describe('createCsvParser', () => {
+  it('emits records as soon as they are complete', () => {
+    const records: string[][] = []
+    const parser = createCsvParser((record) => records.push(record))
+
+    parser.write('a,b\n1,')
+    expect(records).toEqual([['a', 'b']])
+
+    parser.write('2\n3,4')
+    expect(records).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+
+    parser.end()
+    expect(records).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ])
+  })
+
+  it('numbers records without counting blank lines or embedded newlines', () => {
+    const numbers: number[] = []
+    const parser = createCsvParser((_, recordNumber) => numbers.push(recordNumber))
+    parser.write('a\n\n"b\nc"\nd')
+    parser.end()
+    expect(numbers).toEqual([1, 2, 3])
+  })
+
+  it('does not split CRLF across chunks into two line breaks', () => {
+    const records: string[][] = []
+    const parser = createCsvParser((record) => records.push(record))
+    parser.write('a\r')
+    parser.write('\nb')
+    parser.end()
+    expect(records).toEqual([['a'], ['b']])
+  })
+})
+
+type Row = { name: string; rent: number }
+
+const ROW_COLUMNS: CsvColumns<Row> = {
+  name: { header: 'areaName', parse: (value) => value?.trim() ?? '' },
+  rent: { header: 'Rent', parse: Number },
+}
+
+describe('createCsvRowMapper', () => {
+  it('maps records to typed rows by header name regardless of column order', () => {
+    const mapper = createCsvRowMapper(['Rent', 'areaName'], ROW_COLUMNS)
+    expect(mapper.missingHeaders).toEqual([])
+    expect(mapper.map(['4200', ' Chelsea '])).toEqual({ name: 'Chelsea', rent: 4200 })
+  })
+
+  it('passes an empty string for short records and undefined for missing headers', () => {
+    const seen: (string | undefined)[] = []
+    const mapper = createCsvRowMapper(['areaName'], {
+      name: { header: 'areaName', parse: (value) => seen.push(value) },
+      rent: { header: 'Rent', parse: (value) => seen.push(value) },
+    })
+    mapper.map([])
+    expect(seen).toEqual(['', undefined])
+    expect(mapper.missingHeaders).toEqual(['Rent'])
+  })
+
+  it('matches headers case-insensitively when asked to', () => {
+    expect(createCsvRowMapper(['AREANAME', 'rent'], ROW_COLUMNS).missingHeaders).toEqual(['areaName', 'Rent'])
+    expect(
+      createCsvRowMapper(['AREANAME', 'rent'], ROW_COLUMNS, { caseInsensitiveHeaders: true }).missingHeaders,
+    ).toEqual([])
+  })
+})
+
+describe('parseCsvTable', () => {
+  it('maps every data record through the column definitions', () => {
+    expect(parseCsvTable('areaName,Rent\n"Soho, NoHo",5100\nHarlem,2800\n', ROW_COLUMNS)).toEqual([
+      { name: 'Soho, NoHo', rent: 5100 },
+      { name: 'Harlem', rent: 2800 },
+    ])
+  })
+
+  it('returns no rows when there is only a header', () => {
+    expect(parseCsvTable('areaName,Rent', ROW_COLUMNS)).toEqual([])
+  })
+})
+
+describe('createCsvTableParser', () => {
+  it('streams typed rows with their record numbers', () => {
+    const rows: [Row, number][] = []
+    const parser = createCsvTableParser(ROW_COLUMNS, (row, recordNumber) => rows.push([row, recordNumber]))
+    splitIntoChunks('areaName,Rent\nSoho,5100\nHarlem,2800', 4).forEach((chunk) => parser.write(chunk))
+    parser.end()
+    expect(rows).toEqual([
+      [{ name: 'Soho', rent: 5100 }, 2],
+      [{ name: 'Harlem', rent: 2800 }, 3],
+    ])
+  })
+})
+
+describe('formatCsvRecord', () => {
+  it('leaves plain values unquoted and writes missing values as empty fields', () => {
+    expect(formatCsvRecord(['Soho', 5100, null, undefined, ''])).toBe('Soho,5100,,,')
+  })
+
+  it('quotes fields that the parser would otherwise split', () => {
+    const values = ['Smith, John', 'say "hi"', 'line one\nline two', 'a\rb']
+    expect(formatCsvRecord(values)).toBe('"Smith, John","say ""hi""","line one\nline two","a\rb"')
+    expect(parseCsvRecords(formatCsvRecord(values))).toEqual([values])
+  })
+})
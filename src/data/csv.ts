@@ -0,0 +1,199 @@
+export type CsvRecordHandler = (record: string[], recordNumber: number) => void
+
+export type CsvParser = {
+  write: (chunk: string) => void
+  end: () => void
+}
+
+export type CsvInput = string | Iterable<string>
+
+export type CsvColumn<T> = {
+  header: string
+  parse: (value: string | undefined) => T
+}
+
+export type CsvColumns<T> = { [K in keyof T]: CsvColumn<T[K]> }
+
+// Maps the header a column expects to the header it goes by in a particular file.
+export type CsvHeaderAliases = Record<string, string>
+
+export type CsvColumnOptions = {
+  caseInsensitiveHeaders?: boolean
+  headerAliases?: CsvHeaderAliases
+}
+
+export type CsvRowMapper<T> = {
+  missingHeaders: string[]
+  map: (record: string[]) => T
+}
+
+const BYTE_ORDER_MARK = '\uFEFF'
+
+export function createCsvParser(onRecord: CsvRecordHandler): CsvParser {
+  let record: string[] = []
+  let field = ''
+  let fieldWasQuoted = false
+  let inQuotes = false
+  let quotePending = false
+  let skipLineFeed = false
+  let isStart = true
+  let recordNumber = 0
+
+  const endField = () => {
+    record.push(field)
+    field = ''
+    fieldWasQuoted = false
+  }
+
+  const endRecord = () => {
+    const isBlankLine = record.length === 0 && field === '' && !fieldWasQuoted
+    endField()
+    if (!isBlankLine) {
+      recordNumber += 1
+      onRecord(record, recordNumber)
+    }
+    record = []
+  }
+
+  const write = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i += 1) {
+      const char = chunk[i]
+
+      if (isStart) {
+        isStart = false
+        if (char === BYTE_ORDER_MARK) continue
+      }
+
+      if (skipLineFeed) {
+        skipLineFeed = false
+        if (char === '\n') continue
+      }
+
+      if (quotePending) {
+        quotePending = false
+        if (char === '"') {
+          field += '"'
+          continue
+        }
+        inQuotes = false
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true
+        } else {
+          field += char
+        }
+        continue
+      }
+
+      if (char === '"' && field === '' && !fieldWasQuoted) {
+        inQuotes = true
+        fieldWasQuoted = true
+      } else if (char === ',') {
+        endField()
+      } else if (char === '\r') {
+        endRecord()
+        skipLineFeed = true
+      } else if (char === '\n') {
+        endRecord()
+      } else {
+        field += char
+      }
+    }
+  }
+
+  const end = () => {
+    inQuotes = false
+    quotePending = false
+    if (record.length > 0 || field !== '' || fieldWasQuoted) {
+      endRecord()
+    }
+  }
+
+  return { write, end }
+}
+
+export function parseCsvRecords(input: CsvInput): string[][] {
+  const records: string[][] = []
+  const parser = createCsvParser((record) => records.push(record))
+  writeCsvInput(parser, input)
+  return records
+}
+
+export function createCsvRowMapper<T>(
+  headers: string[],
+  columns: CsvColumns<T>,
+  { caseInsensitiveHeaders = false, headerAliases = {} }: CsvColumnOptions = {},
+): CsvRowMapper<T> {
+  const normalizeHeader = (header: string) => (caseInsensitiveHeaders ? header.toLowerCase() : header)
+  const normalizedHeaders = headers.map(normalizeHeader)
+  const keys = Object.keys(columns) as (keyof T)[]
+  const indices = keys.map((key) => {
+    const header = columns[key].header
+    return normalizedHeaders.indexOf(normalizeHeader(headerAliases[header] ?? header))
+  })
+
+  return {
+    missingHeaders: keys.filter((_, index) => indices[index] === -1).map((key) => columns[key].header),
+    map: (record) => {
+      const row = {} as T
+      keys.forEach((key, index) => {
+        const columnIndex = indices[index]
+        row[key] = columns[key].parse(columnIndex === -1 ? undefined : (record[columnIndex] ?? ''))
+      })
+      return row
+    },
+  }
+}
+
+export function createCsvTableParser<T>(
+  columns: CsvColumns<T>,
+  onRow: (row: T, recordNumber: number) => void,
+  options: CsvColumnOptions = {},
+): CsvParser {
+  let mapper: CsvRowMapper<T> | null = null
+  return createCsvParser((record, recordNumber) => {
+    if (!mapper) {
+      mapper = createCsvRowMapper(record, columns, options)
+      return
+    }
+    onRow(mapper.map(record), recordNumber)
+  })
+}
+
+export function parseCsvTable<T>(input: CsvInput, columns: CsvColumns<T>, options: CsvColumnOptions = {}): T[] {
+  const rows: T[] = []
+  const parser = createCsvTableParser(columns, (row) => rows.push(row), options)
+  writeCsvInput(parser, input)
+  return rows
+}
+
+export function parseCsvHeader(input: CsvInput): string[] {
+  let header: string[] | null = null
+  const parser = createCsvParser((record) => {
+    header ??= record
+  })
+  writeCsvInput(parser, input)
+  return header ?? []
+}
+
+export function formatCsvRecord(values: (string | number | null | undefined)[]): string {
+  return values
+    .map((value) => {
+      const text = value == null ? '' : String(value)
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    })
+    .join(',')
+}
+
+function writeCsvInput(parser: CsvParser, input: CsvInput): void {
+  if (typeof input === 'string') {
+    parser.write(input)
+  } else {
+    for (const chunk of input) {
+      parser.write(chunk)
+    }
+  }
+  parser.end()
+}
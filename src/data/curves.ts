@@ -0,0 +1,33 @@
+import { clamp } from './math.ts'
+
+export const COMPONENT_SCORE_MAX = 10
+
+export type NormalizationCurve =
+  | { type: 'linear-decay'; plateau: number; slope: number }
+  | { type: 'reciprocal'; numerator: number; offset: number }
+  | { type: 'linear'; min: number; max: number }
+
+export const TREE_FRIENDS_CURVE: NormalizationCurve = { type: 'linear-decay', plateau: 2, slope: 0.12 }
+export const AFFORDABILITY_CURVE: NormalizationCurve = { type: 'reciprocal', numerator: 36370, offset: 2.737 }
+export const HEALTH_CURVE: NormalizationCurve = { type: 'linear', min: 0, max: 3 }
+
+export function evaluateCurve(curve: NormalizationCurve, value: number): number {
+  switch (curve.type) {
+    case 'linear-decay': {
+      if (!Number.isFinite(value) || value <= 0) return COMPONENT_SCORE_MAX
+      if (value < curve.plateau) return COMPONENT_SCORE_MAX
+      const rawScore = COMPONENT_SCORE_MAX - curve.slope * (value - curve.plateau)
+      return clamp(rawScore, 0, COMPONENT_SCORE_MAX)
+    }
+    case 'reciprocal': {
+      if (!Number.isFinite(value) || value === 0) return 0
+      const score = curve.numerator / value - curve.offset
+      return clamp(score, 0, COMPONENT_SCORE_MAX)
+    }
+    case 'linear': {
+      if (!Number.isFinite(value) || curve.max === curve.min) return 0
+      const score = ((value - curve.min) / (curve.max - curve.min)) * COMPONENT_SCORE_MAX
+      return clamp(score, 0, COMPONENT_SCORE_MAX)
+    }
+  }
+}
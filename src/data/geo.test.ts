@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { getAxisDistanceMeters, getDistanceInMeters, getMetersPerDegreeLongitude } from './geo.ts'
+
+const EARTH_RADIUS_METERS = 6371_000
+
+describe('getDistanceInMeters', () => {
+  it('is zero for the same point', () => {
+    expect(getDistanceInMeters(40.7128, -74.006, 40.7128, -74.006)).toBe(0)
+  })
+
+  it('measures one degree along a meridian and along the equator as the same arc', () => {
+    const oneDegree = (EARTH_RADIUS_METERS * Math.PI) / 180
+    expect(getDistanceInMeters(0, 0, 1, 0)).toBeCloseTo(oneDegree, 6)
+    expect(getDistanceInMeters(0, 0, 0, 1)).toBeCloseTo(oneDegree, 6)
+  })
+
+  it('measures a quarter circumference from the equator to a pole', () => {
+    expect(getDistanceInMeters(0, 0, 90, 0)).toBeCloseTo((EARTH_RADIUS_METERS * Math.PI) / 2, 6)
+  })
+
+  it('measures half the circumference between antipodes', () => {
+    expect(getDistanceInMeters(0, 0, 0, 180)).toBeCloseTo(EARTH_RADIUS_METERS * Math.PI, 6)
+    expect(getDistanceInMeters(40.7, -74, -40.7, 106)).toBeCloseTo(EARTH_RADIUS_METERS * Math.PI, 3)
+  })
+
+  it('matches published great-circle distances between cities', () => {
+    // Paris to London, and JFK to LAX, on a 6371 km sphere.
+    expect(getDistanceInMeters(48.8566, 2.3522, 51.5074, -0.1278) / 1000).toBeCloseTo(343.6, 0)
+    expect(getDistanceInMeters(40.6413, -73.7781, 33.9416, -118.4085) / 1000).toBeCloseTo(3974.3, 0)
+  })
+
+  it('is symmetric', () => {
+    expect(getDistanceInMeters(40.7484, -73.9857, 40.6892, -74.0445)).toBeCloseTo(
+      getDistanceInMeters(40.6892, -74.0445, 40.7484, -73.9857),
+      9,
+    )
+  })
+})
+
+describe('getAxisDistanceMeters', () => {
+  it('is zero when the points share the split coordinate', () => {
+    expect(getAxisDistanceMeters(0, 0, 40.7)).toBe(0)
+    expect(getAxisDistanceMeters(0, 1, 40.7)).toBe(0)
+  })
+
+  it('never overstates the great-circle distance across a latitude split', () => {
+    expect(getAxisDistanceMeters(0.01, 0, 40.7)).toBeLessThanOrEqual(getDistanceInMeters(40.7, -74, 40.71, -74))
+  })
+
+  it('scales longitude distances by the cosine of the latitude', () => {
+    expect(getAxisDistanceMeters(1, 1, 60)).toBeCloseTo(getMetersPerDegreeLongitude(60), 6)
+    expect(getMetersPerDegreeLongitude(60)).toBeCloseTo(111_320 / 2, 6)
+  })
+})
+
+describe('getMetersPerDegreeLongitude', () => {
+  it('is never negative, even at the poles', () => {
+    expect(getMetersPerDegreeLongitude(90)).toBeGreaterThanOrEqual(0)
+    expect(getMetersPerDegreeLongitude(-90)).toBeGreaterThanOrEqual(0)
+  })
+})
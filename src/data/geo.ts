@@ -0,0 +1,38 @@
+export function getDistanceInMeters(
+  originLat: number,
+  originLng: number,
+  targetLat: number,
+  targetLng: number,
+): number {
+  const earthRadius = 6371_000
+  const dLat = toRadians(targetLat - originLat)
+  const dLng = toRadians(targetLng - originLng)
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(originLat)) * Math.cos(toRadians(targetLat)) * Math.sin(dLng / 2) ** 2
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return earthRadius * c
+}
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+export function getAxisDistanceMeters(deltaDegrees: number, axis: 0 | 1, referenceLatitude: number): number {
+  if (deltaDegrees === 0) return 0
+  if (axis === 0) {
+    return deltaDegrees * 111_132
+  }
+  return deltaDegrees * getMetersPerDegreeLongitude(referenceLatitude)
+}
+
+export function getMetersPerDegreeLongitude(latitude: number): number {
+  const meters = 111_320 * Math.cos(toRadians(latitude))
+  return Number.isFinite(meters) && meters > 0 ? meters : 0
+}
+
+export function getGoogleMapsUrl(latitude: number, longitude: number): string {
+  return `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`
+}
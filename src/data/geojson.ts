@@ -0,0 +1,63 @@
+export type GeoJsonPosition = [longitude: number, latitude: number]
+
+export type GeoJsonPoint = {
+  type: 'Point'
+  coordinates: GeoJsonPosition
+}
+
+export type GeoJsonPolygon = {
+  type: 'Polygon'
+  coordinates: GeoJsonPosition[][]
+}
+
+export type GeoJsonMultiPolygon = {
+  type: 'MultiPolygon'
+  coordinates: GeoJsonPosition[][][]
+}
+
+export type GeoJsonGeometry = GeoJsonPoint | GeoJsonPolygon | GeoJsonMultiPolygon
+
+export type GeoJsonFeature<
+  Properties = Record<string, unknown>,
+  Geometry extends GeoJsonGeometry = GeoJsonPolygon | GeoJsonMultiPolygon,
+> = {
+  type: 'Feature'
+  properties: Properties
+  geometry: Geometry
+}
+
+export type GeoJsonFeatureCollection<
+  Properties = Record<string, unknown>,
+  Geometry extends GeoJsonGeometry = GeoJsonPolygon | GeoJsonMultiPolygon,
+> = {
+  type: 'FeatureCollection'
+  features: GeoJsonFeature<Properties, Geometry>[]
+}
+
+export type GeoBounds = {
+  minLongitude: number
+  maxLongitude: number
+  minLatitude: number
+  maxLatitude: number
+}
+
+export function getPolygonRings(geometry: GeoJsonPolygon | GeoJsonMultiPolygon): GeoJsonPosition[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+}
+
+export function getGeoBounds(positions: GeoJsonPosition[]): GeoBounds {
+  return positions.reduce<GeoBounds>(
+    (bounds, [longitude, latitude]) => ({
+      minLongitude: Math.min(bounds.minLongitude, longitude),
+      maxLongitude: Math.max(bounds.maxLongitude, longitude),
+      minLatitude: Math.min(bounds.minLatitude, latitude),
+      maxLatitude: Math.max(bounds.maxLatitude, latitude),
+    }),
+    {
+      minLongitude: Number.POSITIVE_INFINITY,
+      maxLongitude: Number.NEGATIVE_INFINITY,
+      minLatitude: Number.POSITIVE_INFINITY,
+      maxLatitude: Number.NEGATIVE_INFINITY,
+    },
+  )
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { getSeededRandom } from '../session/random.ts'
+import { getDistanceInMeters } from './geo.ts'
+import { buildKdTree, findKNearestNeighborDistances, type IndexedTreePoint } from './kdTree.ts'
+import type { TreeRecord } from './trees.ts'
+
+const RANDOM_SET_COUNT = 40
+const NEIGHBOR_COUNTS = [1, 3, 5, 12]
+
+function createPoints(coordinates: [latitude: number, longitude: number][]): IndexedTreePoint[] {
+  return coordinates.map(([latitude, longitude], index) => ({
+    tree: {} as TreeRecord,
+    latitude,
+    longitude,
+    index,
+  }))
+}
+
+// Seeded so a failure can be reproduced from the set number in the test name.
+function createRandomPoints(seed: number, count: number): IndexedTreePoint[] {
+  const coordinates = Array.from({ length: count }, (_, index): [number, number] => [
+    40.7 + getSeededRandom(seed, index, 0) * 0.1,
+    -74.02 + getSeededRandom(seed, index, 1) * 0.1,
+  ])
+  // Repeat a few coordinates so zero distances and ties are covered too.
+  for (let i = 0; i < count / 10; i += 1) {
+    coordinates[Math.floor(getSeededRandom(seed, i, 2) * count)] = coordinates[i]
+  }
+  return createPoints(coordinates)
+}
+
+function findNearestByBruteForce(points: IndexedTreePoint[], target: IndexedTreePoint, k: number): number[] {
+  return points
+    .filter((point) => point.index !== target.index)
+    .map((point) => getDistanceInMeters(target.latitude, target.longitude, point.latitude, point.longitude))
+    .sort((a, b) => a - b)
+    .slice(0, k)
+}
+
+describe('findKNearestNeighborDistances', () => {
+  for (let seed = 1; seed <= RANDOM_SET_COUNT; seed += 1) {
+    it(`matches a brute-force search on random point set ${seed}`, () => {
+      const points = createRandomPoints(seed, 20 + seed * 5)
+      const root = buildKdTree(points)!
+      NEIGHBOR_COUNTS.forEach((k) => {
+        points.forEach((point) => {
+          const expected = findNearestByBruteForce(points, point, k)
+          const actual = findKNearestNeighborDistances(root, point, k)
+          expect(actual).toHaveLength(expected.length)
+          actual.forEach((distance, index) => expect(distance).toBeCloseTo(expected[index], 6))
+        })
+      })
+    })
+  }
+
+  it('returns every other point when k exceeds the point count', () => {
+    const points = createPoints([
+      [40.7, -74],
+      [40.71, -74],
+      [40.7, -73.99],
+    ])
+    expect(findKNearestNeighborDistances(buildKdTree(points)!, points[0], 10)).toHaveLength(2)
+  })
+
+  it('never counts the target as its own neighbor', () => {
+    const points = createPoints([[40.7, -74]])
+    expect(findKNearestNeighborDistances(buildKdTree(points)!, points[0], 3)).toEqual([])
+  })
+
+  it('counts a different tree at the same coordinates as zero meters away', () => {
+    const points = createPoints([
+      [40.7, -74],
+      [40.7, -74],
+      [40.8, -74],
+    ])
+    expect(findKNearestNeighborDistances(buildKdTree(points)!, points[0], 1)).toEqual([0])
+  })
+})
+
+describe('buildKdTree', () => {
+  it('returns null for an empty point set', () => {
+    expect(buildKdTree([])).toBeNull()
+  })
+})
@@ -0,0 +1,81 @@
+import { getAxisDistanceMeters, getDistanceInMeters } from './geo.ts'
+import type { TreeRecord } from './trees.ts'
+
+export type IndexedTreePoint = {
+  tree: TreeRecord
+  latitude: number
+  longitude: number
+  index: number
+}
+
+export type KdTreeNode = {
+  point: IndexedTreePoint
+  axis: 0 | 1
+  left: KdTreeNode | null
+  right: KdTreeNode | null
+}
+
+export function buildKdTree(points: IndexedTreePoint[], depth = 0): KdTreeNode | null {
+  if (points.length === 0) return null
+  const axis = (depth % 2) as 0 | 1
+  const sorted = [...points].sort((a, b) => (axis === 0 ? a.latitude - b.latitude : a.longitude - b.longitude))
+
+  const medianIndex = Math.floor(sorted.length / 2)
+  const medianPoint = sorted[medianIndex]
+
+  return {
+    point: medianPoint,
+    axis,
+    left: buildKdTree(sorted.slice(0, medianIndex), depth + 1),
+    right: buildKdTree(sorted.slice(medianIndex + 1), depth + 1),
+  }
+}
+
+export function findKNearestNeighborDistances(
+  root: KdTreeNode,
+  target: IndexedTreePoint,
+  k: number,
+): number[] {
+  const distances: number[] = []
+
+  const search = (node: KdTreeNode | null) => {
+    if (!node) return
+
+    const targetValue = node.axis === 0 ? target.latitude : target.longitude
+    const nodeValue = node.axis === 0 ? node.point.latitude : node.point.longitude
+    const nextNode = targetValue < nodeValue ? node.left : node.right
+    const farNode = targetValue < nodeValue ? node.right : node.left
+
+    search(nextNode)
+
+    if (node.point.index !== target.index) {
+      const distance = getDistanceInMeters(
+        target.latitude,
+        target.longitude,
+        node.point.latitude,
+        node.point.longitude,
+      )
+      addDistance(distance)
+    }
+
+    const deltaDegrees = Math.abs(targetValue - nodeValue)
+    const axisDistanceMeters = getAxisDistanceMeters(deltaDegrees, node.axis, target.latitude)
+    const currentMaxDistance = distances[distances.length - 1] ?? Number.POSITIVE_INFINITY
+
+    if (distances.length < k || axisDistanceMeters < currentMaxDistance) {
+      search(farNode)
+    }
+  }
+
+  const addDistance = (distance: number) => {
+    if (!Number.isFinite(distance)) return
+    distances.push(distance)
+    distances.sort((a, b) => a - b)
+    if (distances.length > k) {
+      distances.pop()
+    }
+  }
+
+  search(root)
+  return distances
+}
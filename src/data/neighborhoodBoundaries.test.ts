@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import type { GeoJsonPosition } from './geojson.ts'
+import {
+  createNeighborhoodBoundaryIndex,
+  findContainingNeighborhood,
+  isPointInPolygon,
+  parseNeighborhoodBoundaries,
+} from './neighborhoodBoundaries.ts'
+import { parseNeighborhoodData } from './neighborhoods.ts'
+import { parseRentData } from './rent.ts'
+import { parseTreeData } from './trees.ts'
+
+function createRectangle(west: number, south: number, east: number, north: number): GeoJsonPosition[] {
+  return [
+    [west, south],
+    [east, south],
+    [east, north],
+    [west, north],
+    [west, south],
+  ]
+}
+
+// Ring Park has a hole, East Side shares Ring Park's east edge, and Twin Islands is two separate squares in Brooklyn.
+const BOUNDARY_GEOJSON = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { name: 'Ring Park' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [createRectangle(-74, 40.7, -73.98, 40.72), createRectangle(-73.995, 40.705, -73.985, 40.715)],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { ntaname: 'East  Side', boroname: 'Manhattan' },
+      geometry: { type: 'Polygon', coordinates: [createRectangle(-73.98, 40.7, -73.975, 40.72)] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Twin Islands', borocode: 3 },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [[createRectangle(-73.97, 40.7, -73.96, 40.71)], [createRectangle(-73.97, 40.73, -73.96, 40.74)]],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Landmark' },
+      geometry: { type: 'Point', coordinates: [-73.99, 40.71] },
+    },
+    {
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Polygon', coordinates: [createRectangle(-74.1, 40.6, -74.09, 40.61)] },
+    },
+  ],
+})
+
+const boundaries = parseNeighborhoodBoundaries(BOUNDARY_GEOJSON)
+const index = createNeighborhoodBoundaryIndex(boundaries)
+
+function findName(latitude: number, longitude: number): string | null {
+  return findContainingNeighborhood(index, latitude, longitude)?.name ?? null
+}
+
+describe('parseNeighborhoodBoundaries', () => {
+  it('keeps named polygons and multipolygons with their boroughs', () => {
+    expect(boundaries.map(({ name, borough, polygons }) => [name, borough, polygons.length])).toEqual([
+      ['Ring Park', 'Manhattan', 1],
+      ['East Side', 'Manhattan', 1],
+      ['Twin Islands', 'Brooklyn', 2],
+    ])
+    expect(boundaries[2].bounds).toEqual({
+      minLongitude: -73.97,
+      maxLongitude: -73.96,
+      minLatitude: 40.7,
+      maxLatitude: 40.74,
+    })
+  })
+
+  it('reads anything but a feature collection as no boundaries', () => {
+    expect(parseNeighborhoodBoundaries('{"type":"Feature"}')).toEqual([])
+  })
+
+  it('names the problem with a file that is not JSON', () => {
+    expect(() => parseNeighborhoodBoundaries('{"type":')).toThrow(/^The neighborhood boundaries are not valid JSON: /)
+  })
+})
+
+describe('findContainingNeighborhood', () => {
+  it('finds the polygon around a point', () => {
+    expect(findName(40.702, -73.998)).toBe('Ring Park')
+    expect(findName(40.71, -73.977)).toBe('East Side')
+  })
+
+  it('leaves out points in a hole', () => {
+    expect(isPointInPolygon(-73.99, 40.71, boundaries[0].polygons[0])).toBe(false)
+    expect(findName(40.71, -73.99)).toBeNull()
+  })
+
+  it('finds each part of a multipolygon but not the gap between them', () => {
+    expect(findName(40.705, -73.965)).toBe('Twin Islands')
+    expect(findName(40.735, -73.965)).toBe('Twin Islands')
+    expect(findName(40.72, -73.965)).toBeNull()
+  })
+
+  it('assigns a point on an edge shared by two polygons to exactly one of them', () => {
+    const [ringPark, eastSide] = boundaries
+    const containing = [ringPark, eastSide].filter((boundary) =>
+      isPointInPolygon(-73.98, 40.71, boundary.polygons[0]),
+    )
+
+    expect(containing).toHaveLength(1)
+    expect(findName(40.71, -73.98)).toBe(containing[0].name)
+  })
+
+  it('finds nothing outside every polygon', () => {
+    expect(findName(40.65, -73.99)).toBeNull()
+    expect(findName(40.71, -73.95)).toBeNull()
+  })
+
+  it('only matches boundaries in the given borough', () => {
+    expect(findContainingNeighborhood(index, 40.705, -73.965, 'Brooklyn')?.name).toBe('Twin Islands')
+    expect(findContainingNeighborhood(index, 40.705, -73.965, 'Manhattan')).toBeNull()
+  })
+})
+
+describe('neighborhood assignment with boundaries', () => {
+  const neighborhoods = parseNeighborhoodData(
+    'name,borough,latitude,longitude\nRing Park,Manhattan,40.71,-73.99\nFar North,Manhattan,40.8,-73.99\n',
+  )
+  const rentLookup = parseRentData('areaName,Rent\nRing Park,3000\nFar North,5000\n')
+  const trees = parseTreeData(
+    [
+      'tree_id,status,sidewalk,problems,latitude,longitude,spc_common',
+      'inside,Alive,NoDamage,None,40.702,-73.998,pin oak',
+      'hole,Alive,NoDamage,None,40.71,-73.99,pin oak',
+      'outside,Alive,NoDamage,None,40.79,-73.99,pin oak',
+    ].join('\n'),
+    neighborhoods,
+    rentLookup,
+    { boundaryIndex: index },
+  )
+
+  it('uses the containing polygon when there is one', () => {
+    expect(trees[0]).toMatchObject({ treeId: 'inside', neighborhood: 'Ring Park', neighborhoodMethod: 'polygon' })
+  })
+
+  it('falls back to the closest centroid outside every polygon', () => {
+    expect(trees[1]).toMatchObject({ treeId: 'hole', neighborhood: 'Ring Park', neighborhoodMethod: 'centroid' })
+    expect(trees[2]).toMatchObject({ treeId: 'outside', neighborhood: 'Far North', neighborhoodMethod: 'centroid' })
+  })
+})
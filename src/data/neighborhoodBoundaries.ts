@@ -0,0 +1,129 @@
+import { DEFAULT_BOROUGH, parseBorough, type Borough } from './boroughs.ts'
+import {
+  getGeoBounds,
+  getPolygonRings,
+  type GeoBounds,
+  type GeoJsonFeatureCollection,
+  type GeoJsonPosition,
+} from './geojson.ts'
+import { normalizeNeighborhoodName } from './neighborhoods.ts'
+
+const BOUNDARY_INDEX_CELL_SIZE_DEGREES = 0.01
+const BOUNDARY_NAME_PROPERTIES = ['name', 'neighborhood', 'ntaname', 'NTAName', 'areaName']
+const BOUNDARY_BOROUGH_PROPERTIES = ['borough', 'boroname', 'BoroName', 'boro_name', 'borocode', 'BoroCode']
+
+export type NeighborhoodBoundary = {
+  name: string
+  borough: Borough
+  polygons: GeoJsonPosition[][][]
+  bounds: GeoBounds
+}
+
+export type NeighborhoodBoundaryIndex = {
+  boundaries: NeighborhoodBoundary[]
+  cellSize: number
+  cells: Map<string, number[]>
+}
+
+export function parseNeighborhoodBoundaries(geoJsonData: string): NeighborhoodBoundary[] {
+  let collection: GeoJsonFeatureCollection
+  try {
+    collection = JSON.parse(geoJsonData) as GeoJsonFeatureCollection
+  } catch (error) {
+    throw new Error(`The neighborhood boundaries are not valid JSON: ${(error as Error).message}`)
+  }
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) return []
+
+  return collection.features
+    .filter((feature) => feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon')
+    .map((feature) => {
+      const polygons = getPolygonRings(feature.geometry)
+      const nameProperty = BOUNDARY_NAME_PROPERTIES.find((key) => typeof feature.properties?.[key] === 'string')
+      const boroughProperty = BOUNDARY_BOROUGH_PROPERTIES.find((key) => feature.properties?.[key] != null)
+      return {
+        name: normalizeNeighborhoodName(nameProperty ? String(feature.properties[nameProperty]) : ''),
+        borough: (boroughProperty && parseBorough(String(feature.properties[boroughProperty]))) || DEFAULT_BOROUGH,
+        polygons,
+        bounds: getGeoBounds(polygons.flat(2)),
+      }
+    })
+    .filter((boundary) => boundary.name !== 'Unknown' && Number.isFinite(boundary.bounds.minLatitude))
+}
+
+export function createNeighborhoodBoundaryIndex(
+  boundaries: NeighborhoodBoundary[],
+  cellSize = BOUNDARY_INDEX_CELL_SIZE_DEGREES,
+): NeighborhoodBoundaryIndex {
+  const cells = new Map<string, number[]>()
+
+  boundaries.forEach((boundary, boundaryIndex) => {
+    const { minLongitude, maxLongitude, minLatitude, maxLatitude } = boundary.bounds
+    for (let column = Math.floor(minLongitude / cellSize); column <= Math.floor(maxLongitude / cellSize); column += 1) {
+      for (let row = Math.floor(minLatitude / cellSize); row <= Math.floor(maxLatitude / cellSize); row += 1) {
+        const key = getCellKey(column, row)
+        const bucket = cells.get(key)
+        if (bucket) {
+          bucket.push(boundaryIndex)
+        } else {
+          cells.set(key, [boundaryIndex])
+        }
+      }
+    }
+  })
+
+  return { boundaries, cellSize, cells }
+}
+
+// A tree that already knows its borough only matches boundaries in that borough.
+export function findContainingNeighborhood(
+  index: NeighborhoodBoundaryIndex,
+  latitude: number,
+  longitude: number,
+  borough: Borough | null = null,
+): NeighborhoodBoundary | null {
+  const candidates = index.cells.get(
+    getCellKey(Math.floor(longitude / index.cellSize), Math.floor(latitude / index.cellSize)),
+  )
+  if (!candidates) return null
+
+  for (const boundaryIndex of candidates) {
+    const boundary = index.boundaries[boundaryIndex]
+    if (borough != null && boundary.borough !== borough) continue
+    if (!isWithinBounds(boundary.bounds, latitude, longitude)) continue
+    if (boundary.polygons.some((rings) => isPointInPolygon(longitude, latitude, rings))) {
+      return boundary
+    }
+  }
+
+  return null
+}
+
+export function isPointInPolygon(longitude: number, latitude: number, rings: GeoJsonPosition[][]): boolean {
+  let inside = false
+
+  rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      const crosses = yi > latitude !== yj > latitude
+      if (crosses && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+        inside = !inside
+      }
+    }
+  })
+
+  return inside
+}
+
+function isWithinBounds(bounds: GeoBounds, latitude: number, longitude: number): boolean {
+  return (
+    longitude >= bounds.minLongitude &&
+    longitude <= bounds.maxLongitude &&
+    latitude >= bounds.minLatitude &&
+    latitude <= bounds.maxLatitude
+  )
+}
+
+function getCellKey(column: number, row: number): string {
+  return `${column}:${row}`
+}
@@ -0,0 +1,158 @@
+import { getNeighborhoodKey, type Borough } from './boroughs.ts'
+import { calculateHealthScore } from './scoring.ts'
+import { FILTERABLE_SCORES, getFilterableScore, type FilterableScore } from './treeFilters.ts'
+import type { TreeRecord } from './trees.ts'
+
+export type NeighborhoodSummary = {
+  neighborhood: string
+  // Null for a summary that spans boroughs.
+  borough: Borough | null
+  treeCount: number
+  scoredCount: number
+  meanAccessibility: number | null
+  medianAccessibility: number | null
+  deadPercent: number
+}
+
+export type ScoreDistribution = {
+  min: number
+  lowerQuartile: number
+  median: number
+  upperQuartile: number
+  max: number
+}
+
+export type NeighborhoodProfile = {
+  neighborhood: string
+  borough: Borough
+  treeCount: number
+  meanAccessibility: number | null
+  rent: number | null
+  scoreDistributions: Record<FilterableScore, ScoreDistribution | null>
+  speciesCounts: Map<string, number>
+  // Indexed by health score, 0 to 3.
+  healthCounts: number[]
+}
+
+export const UNASSIGNED_NEIGHBORHOOD = '(unassigned)'
+
+const HEALTH_SCORE_COUNT = 4
+
+type NeighborhoodGroup = {
+  neighborhood: string
+  borough: Borough
+  trees: TreeRecord[]
+}
+
+export function summarizeNeighborhoods(trees: TreeRecord[]): NeighborhoodSummary[] {
+  return groupByNeighborhood(trees).map((group) => summarizeTrees(group.neighborhood, group.trees, group.borough))
+}
+
+export function summarizeTrees(
+  neighborhood: string,
+  trees: TreeRecord[],
+  borough: Borough | null = null,
+): NeighborhoodSummary {
+  const scores = getSortedScores(trees, 'accessibilityScore')
+  const deadCount = trees.filter((tree) => tree.status.trim().toLowerCase() === 'dead').length
+
+  return {
+    neighborhood,
+    borough,
+    treeCount: trees.length,
+    scoredCount: scores.length,
+    meanAccessibility: getMean(scores),
+    medianAccessibility: scores.length > 0 ? getQuantile(scores, 0.5) : null,
+    deadPercent: trees.length > 0 ? (deadCount / trees.length) * 100 : 0,
+  }
+}
+
+export function getNeighborhoodProfiles(
+  trees: TreeRecord[],
+  neighborhoodRents: Record<string, number>,
+): NeighborhoodProfile[] {
+  return groupByNeighborhood(trees).map(({ neighborhood, borough, trees: group }) => {
+    const scoreDistributions = {} as Record<FilterableScore, ScoreDistribution | null>
+    FILTERABLE_SCORES.forEach(({ id }) => {
+      scoreDistributions[id] = getScoreDistribution(getSortedScores(group, id))
+    })
+    const speciesCounts = new Map<string, number>()
+    const healthCounts = new Array<number>(HEALTH_SCORE_COUNT).fill(0)
+    group.forEach((tree) => {
+      const species = tree.species || 'unknown'
+      speciesCounts.set(species, (speciesCounts.get(species) ?? 0) + 1)
+      healthCounts[calculateHealthScore(tree)] += 1
+    })
+
+    return {
+      neighborhood,
+      borough,
+      treeCount: group.length,
+      meanAccessibility: getMean(getSortedScores(group, 'accessibilityScore')),
+      rent: neighborhoodRents[getNeighborhoodKey(borough, neighborhood)] ?? null,
+      scoreDistributions,
+      speciesCounts,
+      healthCounts,
+    }
+  })
+}
+
+export function getTopSpecies(profiles: NeighborhoodProfile[], count: number): string[] {
+  const totals = new Map<string, number>()
+  profiles.forEach((profile) => {
+    profile.speciesCounts.forEach((speciesCount, species) => {
+      totals.set(species, (totals.get(species) ?? 0) + speciesCount)
+    })
+  })
+  return [...totals]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([species]) => species)
+}
+
+function groupByNeighborhood(trees: TreeRecord[]): NeighborhoodGroup[] {
+  const groups = new Map<string, NeighborhoodGroup>()
+  trees.forEach((tree) => {
+    const neighborhood = tree.neighborhood || UNASSIGNED_NEIGHBORHOOD
+    const key = getNeighborhoodKey(tree.borough, neighborhood)
+    const group = groups.get(key)
+    if (group) {
+      group.trees.push(tree)
+    } else {
+      groups.set(key, { neighborhood, borough: tree.borough, trees: [tree] })
+    }
+  })
+  return [...groups.values()].sort(
+    (a, b) => a.neighborhood.localeCompare(b.neighborhood) || a.borough.localeCompare(b.borough),
+  )
+}
+
+function getSortedScores(trees: TreeRecord[], key: FilterableScore): number[] {
+  return trees
+    .map((tree) => getFilterableScore(tree, key))
+    .filter((score): score is number => score != null && Number.isFinite(score))
+    .sort((a, b) => a - b)
+}
+
+function getScoreDistribution(sortedScores: number[]): ScoreDistribution | null {
+  if (sortedScores.length === 0) return null
+  return {
+    min: sortedScores[0],
+    lowerQuartile: getQuantile(sortedScores, 0.25),
+    median: getQuantile(sortedScores, 0.5),
+    upperQuartile: getQuantile(sortedScores, 0.75),
+    max: sortedScores[sortedScores.length - 1],
+  }
+}
+
+function getMean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null
+}
+
+// Linear interpolation between the closest ranks, which gives the usual median for even counts.
+function getQuantile(sortedValues: number[], quantile: number): number {
+  const position = (sortedValues.length - 1) * quantile
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower)
+}
@@ -0,0 +1,97 @@
+import { DEFAULT_BOROUGH, parseBorough, type Borough } from './boroughs.ts'
+import { parseCsvTable, type CsvColumns, type CsvHeaderAliases, type CsvInput } from './csv.ts'
+import { getDistanceInMeters } from './geo.ts'
+import { getNeighborhoodRent } from './rent.ts'
+
+export type NeighborhoodRecord = {
+  name: string
+  borough: Borough
+  latitude: number
+  longitude: number
+}
+
+export type NeighborhoodMatch = {
+  name: string
+  borough: Borough
+  distance: number
+  rent: number | null
+}
+
+const NEIGHBORHOOD_COLUMNS: CsvColumns<NeighborhoodRecord> = {
+  name: { header: 'name', parse: (value) => normalizeNeighborhoodName(value ?? '') },
+  borough: { header: 'borough', parse: (value) => parseBorough(value) ?? DEFAULT_BOROUGH },
+  latitude: { header: 'latitude', parse: Number },
+  longitude: { header: 'longitude', parse: Number },
+}
+
+export function parseNeighborhoodData(csvData: CsvInput, headerAliases: CsvHeaderAliases = {}): NeighborhoodRecord[] {
+  return parseCsvTable(csvData, NEIGHBORHOOD_COLUMNS, { headerAliases }).filter(
+    (neighborhood) => Number.isFinite(neighborhood.latitude) && Number.isFinite(neighborhood.longitude),
+  )
+}
+
+export function normalizeNeighborhoodName(value: string): string {
+  const trimmed = value.replace(/\s+/g, ' ').trim()
+  return trimmed || 'Unknown'
+}
+
+// Matches stay within the given borough so rent is never interpolated across borough lines. A null borough searches
+// them all, which only the initial assignment of a tree with no borough of its own needs.
+export function getClosestNeighborhoodMatches(
+  latitude: number,
+  longitude: number,
+  borough: Borough | null,
+  neighborhoods: NeighborhoodRecord[],
+  rentLookup: Map<string, number>,
+  limit: number,
+): NeighborhoodMatch[] {
+  if (neighborhoods.length === 0 || limit <= 0) return []
+
+  const matches: NeighborhoodMatch[] = []
+
+  neighborhoods.forEach((neighborhood) => {
+    if (borough != null && neighborhood.borough !== borough) return
+    const distance = getDistanceInMeters(latitude, longitude, neighborhood.latitude, neighborhood.longitude)
+    if (!Number.isFinite(distance)) return
+
+    const match = {
+      name: neighborhood.name,
+      borough: neighborhood.borough,
+      distance,
+      rent: getNeighborhoodRent(neighborhood.name, neighborhood.borough, rentLookup),
+    }
+
+    if (matches.length < limit) {
+      matches.push(match)
+      matches.sort((a, b) => a.distance - b.distance)
+      return
+    }
+
+    const farthestDistance = matches[matches.length - 1]?.distance ?? Number.POSITIVE_INFINITY
+    if (distance < farthestDistance) {
+      matches[matches.length - 1] = match
+      matches.sort((a, b) => a.distance - b.distance)
+    }
+  })
+
+  return matches
+}
+
+export function rankNeighborhoodsByDistance(
+  latitude: number,
+  longitude: number,
+  borough: Borough,
+  neighborhoods: NeighborhoodRecord[],
+  rentLookup: Map<string, number>,
+): NeighborhoodMatch[] {
+  return neighborhoods
+    .filter((neighborhood) => neighborhood.borough === borough)
+    .map((neighborhood) => ({
+      name: neighborhood.name,
+      borough: neighborhood.borough,
+      distance: getDistanceInMeters(latitude, longitude, neighborhood.latitude, neighborhood.longitude),
+      rent: getNeighborhoodRent(neighborhood.name, neighborhood.borough, rentLookup),
+    }))
+    .filter((match) => Number.isFinite(match.distance))
+    .sort((a, b) => a.distance - b.distance)
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { createTree } from '../test/treeFixtures.ts'
+import {
+  decodeTreeDataset,
+  encodeTreeDataset,
+  findTreeRecordMismatch,
+  PRECOMPUTED_TREE_DATASET_VERSION,
+} from './precomputed.ts'
+
+const trees = [
+  createTree({ treeId: '1' }),
+  createTree({
+    treeId: '2',
+    status: 'Stump',
+    species: 'pin oak',
+    borough: 'Bronx',
+    neighborhood: 'Mott Haven',
+    neighborhoodMethod: 'centroid',
+    averageNeighborDistance: Infinity,
+    expectedRent: null,
+    affordabilityScore: null,
+    accessibilityScore: null,
+  }),
+  createTree({ treeId: '3', latitude: 40.8, longitude: -73.95, neighborhoodMethod: 'none', accessibilityScore: 0 }),
+]
+
+// Codes are little-endian 16-bit integers in base64.
+function readCodes(codes: string): number[] {
+  return [...new Uint16Array(Uint8Array.from(atob(codes), (character) => character.charCodeAt(0)).buffer)]
+}
+
+describe('encodeTreeDataset', () => {
+  it('stores each distinct category once and refers to it by code', () => {
+    const dataset = encodeTreeDataset(trees)
+
+    expect(dataset.version).toBe(PRECOMPUTED_TREE_DATASET_VERSION)
+    expect(dataset.count).toBe(3)
+    expect(dataset.treeIds).toEqual(['1', '2', '3'])
+    expect(dataset.categories.status.values).toEqual(['Alive', 'Stump'])
+    expect(dataset.categories.neighborhoodMethod.values).toEqual(['polygon', 'centroid', 'none'])
+    expect(dataset.categories.borough.values).toEqual(['Manhattan', 'Bronx'])
+    expect(readCodes(dataset.categories.borough.codes)).toEqual([0, 1, 0])
+    expect(readCodes(dataset.categories.status.codes)).toEqual([0, 1, 0])
+  })
+
+  it('rejects a column with more distinct values than a code can hold', () => {
+    const manyTrees = Array.from({ length: 0x10001 }, (_, index) => ({ ...trees[0], species: String(index) }))
+    expect(() => encodeTreeDataset(manyTrees)).toThrow('Column "species" has too many distinct values to encode')
+  })
+})
+
+describe('decodeTreeDataset', () => {
+  it('restores every field, with null for missing numbers and Infinity kept', () => {
+    const decoded = decodeTreeDataset(encodeTreeDataset(trees))
+
+    expect(decoded).toEqual(trees)
+    expect(findTreeRecordMismatch(trees, decoded)).toBeNull()
+    expect(decoded[1].averageNeighborDistance).toBe(Infinity)
+    expect(decoded[1].expectedRent).toBeNull()
+    expect(decoded[2].accessibilityScore).toBe(0)
+  })
+
+  it('reads NaN in a nullable column as null', () => {
+    const decoded = decodeTreeDataset(encodeTreeDataset([{ ...trees[0], expectedRent: Number.NaN }]))
+    expect(decoded[0].expectedRent).toBeNull()
+  })
+
+  it('decodes an empty dataset', () => {
+    expect(decodeTreeDataset(encodeTreeDataset([]))).toEqual([])
+  })
+
+  it('rejects a dataset from another version', () => {
+    const dataset = { ...encodeTreeDataset(trees), version: PRECOMPUTED_TREE_DATASET_VERSION - 1 }
+    expect(() => decodeTreeDataset(dataset)).toThrow(
+      `Unsupported precomputed tree dataset version ${PRECOMPUTED_TREE_DATASET_VERSION - 1} ` +
+        `(expected ${PRECOMPUTED_TREE_DATASET_VERSION})`,
+    )
+  })
+})
+
+describe('findTreeRecordMismatch', () => {
+  it('names the first tree and field that differ', () => {
+    expect(findTreeRecordMismatch(trees, trees.slice(1))).toBe('expected 3 trees, received 2')
+    expect(findTreeRecordMismatch(trees, [trees[0], { ...trees[1], accessibilityScore: 0 }, trees[2]])).toBe(
+      'tree 2 (row 1) differs in "accessibilityScore": expected null, received 0',
+    )
+  })
+})
@@ -0,0 +1,160 @@
+import type { Borough } from './boroughs.ts'
+import type { NeighborhoodAssignmentMethod, TreeRecord } from './trees.ts'
+
+export const PRECOMPUTED_TREE_DATASET_VERSION = 4
+
+const CATEGORICAL_COLUMNS = [
+  'status',
+  'sidewalk',
+  'problems',
+  'borough',
+  'neighborhood',
+  'neighborhoodMethod',
+  'species',
+] as const
+const NUMERIC_COLUMNS = [
+  'latitude',
+  'longitude',
+  'averageNeighborDistance',
+  'expectedRent',
+  'treeFriendsScore',
+  'affordabilityScore',
+  'accessibilityScore',
+] as const
+const TREE_RECORD_FIELDS = ['treeId', ...CATEGORICAL_COLUMNS, ...NUMERIC_COLUMNS] as const
+const BASE64_CHUNK_SIZE = 0x8000
+
+type CategoricalColumn = (typeof CATEGORICAL_COLUMNS)[number]
+type NumericColumn = (typeof NUMERIC_COLUMNS)[number]
+
+type DictionaryColumn = {
+  values: string[]
+  codes: string
+}
+
+export type PrecomputedTreeDataset = {
+  version: number
+  count: number
+  treeIds: string[]
+  categories: Record<CategoricalColumn, DictionaryColumn>
+  numbers: Record<NumericColumn, string>
+}
+
+export function encodeTreeDataset(trees: TreeRecord[]): PrecomputedTreeDataset {
+  const categories = {} as Record<CategoricalColumn, DictionaryColumn>
+  CATEGORICAL_COLUMNS.forEach((column) => {
+    const values: string[] = []
+    const valueCodes = new Map<string, number>()
+    const codes = new Uint16Array(trees.length)
+
+    trees.forEach((tree, index) => {
+      const value = tree[column]
+      let code = valueCodes.get(value)
+      if (code == null) {
+        code = values.length
+        valueCodes.set(value, code)
+        values.push(value)
+      }
+      codes[index] = code
+    })
+
+    if (values.length > 0xffff) {
+      throw new Error(`Column "${column}" has too many distinct values to encode (${values.length})`)
+    }
+
+    categories[column] = { values, codes: encodeBytes(new Uint8Array(codes.buffer)) }
+  })
+
+  const numbers = {} as Record<NumericColumn, string>
+  NUMERIC_COLUMNS.forEach((column) => {
+    const values = new Float64Array(trees.length)
+    trees.forEach((tree, index) => {
+      values[index] = tree[column] ?? Number.NaN
+    })
+    numbers[column] = encodeBytes(new Uint8Array(values.buffer))
+  })
+
+  return {
+    version: PRECOMPUTED_TREE_DATASET_VERSION,
+    count: trees.length,
+    treeIds: trees.map((tree) => tree.treeId),
+    categories,
+    numbers,
+  }
+}
+
+export function decodeTreeDataset(dataset: PrecomputedTreeDataset): TreeRecord[] {
+  if (dataset.version !== PRECOMPUTED_TREE_DATASET_VERSION) {
+    throw new Error(
+      `Unsupported precomputed tree dataset version ${dataset.version} (expected ${PRECOMPUTED_TREE_DATASET_VERSION})`,
+    )
+  }
+
+  const codes = Object.fromEntries(
+    CATEGORICAL_COLUMNS.map((column) => [
+      column,
+      new Uint16Array(decodeBytes(dataset.categories[column].codes).buffer),
+    ]),
+  ) as Record<CategoricalColumn, Uint16Array>
+  const numbers = Object.fromEntries(
+    NUMERIC_COLUMNS.map((column) => [column, new Float64Array(decodeBytes(dataset.numbers[column]).buffer)]),
+  ) as Record<NumericColumn, Float64Array>
+
+  const getCategory = (column: CategoricalColumn, index: number) =>
+    dataset.categories[column].values[codes[column][index]] ?? ''
+
+  return Array.from({ length: dataset.count }, (_, index) => ({
+    treeId: dataset.treeIds[index] ?? 'unknown',
+    status: getCategory('status', index),
+    sidewalk: getCategory('sidewalk', index),
+    problems: getCategory('problems', index),
+    latitude: numbers.latitude[index],
+    longitude: numbers.longitude[index],
+    borough: getCategory('borough', index) as Borough,
+    neighborhood: getCategory('neighborhood', index),
+    neighborhoodMethod: getCategory('neighborhoodMethod', index) as NeighborhoodAssignmentMethod,
+    species: getCategory('species', index),
+    averageNeighborDistance: numbers.averageNeighborDistance[index],
+    expectedRent: toNullableNumber(numbers.expectedRent[index]),
+    treeFriendsScore: numbers.treeFriendsScore[index],
+    affordabilityScore: toNullableNumber(numbers.affordabilityScore[index]),
+    accessibilityScore: toNullableNumber(numbers.accessibilityScore[index]),
+  }))
+}
+
+export function findTreeRecordMismatch(expected: TreeRecord[], actual: TreeRecord[]): string | null {
+  if (expected.length !== actual.length) {
+    return `expected ${expected.length} trees, received ${actual.length}`
+  }
+
+  for (let index = 0; index < expected.length; index += 1) {
+    const field = TREE_RECORD_FIELDS.find((key) => !Object.is(expected[index][key], actual[index][key]))
+    if (field) {
+      return `tree ${expected[index].treeId} (row ${index}) differs in "${field}": ` +
+        `expected ${String(expected[index][field])}, received ${String(actual[index][field])}`
+    }
+  }
+
+  return null
+}
+
+function toNullableNumber(value: number): number | null {
+  return Number.isNaN(value) ? null : value
+}
+
+function encodeBytes(bytes: Uint8Array): string {
+  let binary = ''
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE))
+  }
+  return btoa(binary)
+}
+
+function decodeBytes(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index)
+  }
+  return bytes
+}
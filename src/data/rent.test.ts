@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import { getDistanceInMeters } from './geo.ts'
+import { getClosestNeighborhoodMatches, type NeighborhoodMatch, type NeighborhoodRecord } from './neighborhoods.ts'
+import { calculateExpectedRent, getNeighborhoodRent, parseRentData } from './rent.ts'
+import {
+  DEFAULT_RENT_INTERPOLATION,
+  estimateExpectedRent,
+  RENT_INTERPOLATION_STRATEGIES,
+  type RentEstimateInput,
+  type RentInterpolationOptions,
+} from './rentInterpolation.ts'
+
+function createMatches(...entries: [distance: number, rent: number | null][]): NeighborhoodMatch[] {
+  return entries.map(([distance, rent], index) => ({ name: `n${index}`, borough: 'Manhattan', distance, rent }))
+}
+
+describe('calculateExpectedRent', () => {
+  it('needs three matches', () => {
+    expect(calculateExpectedRent([])).toBeNull()
+    expect(calculateExpectedRent(createMatches([100, 3000], [200, 4000]))).toBeNull()
+  })
+
+  it('needs a rent for each of the three closest matches', () => {
+    expect(calculateExpectedRent(createMatches([100, 3000], [200, null], [300, 5000]))).toBeNull()
+  })
+
+  it('ignores matches past the third', () => {
+    expect(calculateExpectedRent(createMatches([100, 3000], [200, 4000], [300, 5000], [400, 90_000]))).toBe(
+      calculateExpectedRent(createMatches([100, 3000], [200, 4000], [300, 5000])),
+    )
+  })
+
+  it('averages the rents when the distances are equal', () => {
+    expect(calculateExpectedRent(createMatches([250, 3000], [250, 4000], [250, 5000]))).toBeCloseTo(4000, 9)
+  })
+
+  it('averages the rents when the tree sits on all three centroids', () => {
+    expect(calculateExpectedRent(createMatches([0, 3000], [0, 4000], [0, 6000]))).toBeCloseTo(13000 / 3, 9)
+  })
+
+  it('treats negative distances as zero', () => {
+    expect(calculateExpectedRent(createMatches([-10, 3000], [0, 4000], [0, 6000]))).toBeCloseTo(13000 / 3, 9)
+  })
+
+  it('weights each rent by the other two distances minus its own', () => {
+    // Weights (2 + 3 - 1) / 6, (1 + 3 - 2) / 6 and (1 + 2 - 3) / 6.
+    expect(calculateExpectedRent(createMatches([1, 6000], [2, 3000], [3, 9000]))).toBeCloseTo(5000, 9)
+  })
+
+  it('gives the whole weight to the closest rent when it sits on a centroid and the others are equidistant', () => {
+    expect(calculateExpectedRent(createMatches([0, 3000], [500, 4000], [500, 5000]))).toBeCloseTo(3000, 9)
+  })
+
+  it('keeps the weights summing to one', () => {
+    expect(calculateExpectedRent(createMatches([120, 4200], [480, 4200], [900, 4200]))).toBeCloseTo(4200, 9)
+  })
+})
+
+describe('borough-aware rent lookups', () => {
+  const rentLookup = parseRentData(
+    'areaName,borough,Rent\nChinatown,Manhattan,3500\nChinatown,Brooklyn,2600\nGramecy Park,,4100\n',
+  )
+
+  it('keeps same-named neighborhoods in different boroughs apart', () => {
+    expect(getNeighborhoodRent('Chinatown', 'Manhattan', rentLookup)).toBe(3500)
+    expect(getNeighborhoodRent('Chinatown', 'Brooklyn', rentLookup)).toBe(2600)
+    expect(getNeighborhoodRent('Chinatown', 'Queens', rentLookup)).toBeNull()
+  })
+
+  it('reads rows without a borough as Manhattan and applies its aliases', () => {
+    expect(getNeighborhoodRent('Gramercy Park', 'Manhattan', rentLookup)).toBe(4100)
+    expect(getNeighborhoodRent('Gramercy Park', 'Brooklyn', rentLookup)).toBeNull()
+  })
+
+  it('never matches a neighborhood across borough lines', () => {
+    const neighborhoods: NeighborhoodRecord[] = [
+      { name: 'Chinatown', borough: 'Manhattan', latitude: 40.7158, longitude: -73.997 },
+      { name: 'Chinatown', borough: 'Brooklyn', latitude: 40.6387, longitude: -74.0003 },
+      { name: 'DUMBO', borough: 'Brooklyn', latitude: 40.7033, longitude: -73.9881 },
+    ]
+    const matches = getClosestNeighborhoodMatches(40.714, -73.995, 'Brooklyn', neighborhoods, rentLookup, 3)
+
+    expect(matches.map(({ name, borough }) => `${borough}/${name}`)).toEqual(['Brooklyn/DUMBO', 'Brooklyn/Chinatown'])
+    expect(matches[1].rent).toBe(2600)
+  })
+})
+
+describe('estimateExpectedRent', () => {
+  const neighborhoods: NeighborhoodRecord[] = [
+    { name: 'Alpha', borough: 'Manhattan', latitude: 40.701, longitude: -74 },
+    { name: 'Bravo', borough: 'Manhattan', latitude: 40.702, longitude: -74 },
+    { name: 'Charlie', borough: 'Manhattan', latitude: 40.703, longitude: -74 },
+    { name: 'Delta', borough: 'Manhattan', latitude: 40.704, longitude: -74 },
+    { name: 'Echo', borough: 'Brooklyn', latitude: 40.7005, longitude: -74 },
+  ]
+  // Bravo has no rent.
+  const rentLookup = parseRentData(
+    'areaName,borough,Rent\nAlpha,Manhattan,3000\nCharlie,Manhattan,4000\nDelta,Manhattan,5000\nEcho,Brooklyn,1000\n',
+  )
+  const tree: RentEstimateInput = {
+    latitude: 40.7,
+    longitude: -74,
+    borough: 'Manhattan',
+    neighborhood: 'Alpha',
+    neighborhoodMethod: 'centroid',
+  }
+  const getDistance = (latitude: number) => getDistanceInMeters(40.7, -74, latitude, -74)
+  const estimate = (options: Partial<RentInterpolationOptions>, overrides: Partial<RentEstimateInput> = {}) =>
+    estimateExpectedRent({ ...tree, ...overrides }, neighborhoods, rentLookup, {
+      ...DEFAULT_RENT_INTERPOLATION,
+      ...options,
+    })
+
+  it('weighs the three closest neighborhoods that have a rent under the legacy strategy', () => {
+    expect(estimate({ strategy: 'legacy' })).toBeCloseTo(
+      calculateExpectedRent(
+        createMatches([getDistance(40.701), 3000], [getDistance(40.703), 4000], [getDistance(40.704), 5000]),
+      )!,
+      9,
+    )
+  })
+
+  it('gives no legacy estimate with fewer than three rents in the borough', () => {
+    expect(estimate({ strategy: 'legacy' }, { borough: 'Brooklyn' })).toBeNull()
+  })
+
+  it('takes the nearest neighborhood that has a rent', () => {
+    expect(estimate({ strategy: 'nearest' })).toBe(3000)
+    expect(estimate({ strategy: 'nearest' }, { latitude: 40.7021 })).toBe(4000)
+    expect(estimate({ strategy: 'nearest' }, { borough: 'Brooklyn' })).toBe(1000)
+  })
+
+  it('weights the k nearest rents by inverse distance to the given power', () => {
+    const [alpha, charlie] = [getDistance(40.701), getDistance(40.703)]
+    const expected = (3000 / alpha ** 2 + 4000 / charlie ** 2) / (1 / alpha ** 2 + 1 / charlie ** 2)
+    expect(estimate({ strategy: 'idw', power: 2, neighborCount: 2 })).toBeCloseTo(expected, 6)
+
+    const linear = (3000 / alpha + 4000 / charlie) / (1 / alpha + 1 / charlie)
+    expect(estimate({ strategy: 'idw', power: 1, neighborCount: 2 })).toBeCloseTo(linear, 6)
+  })
+
+  it('uses only the rent of a centroid the tree sits on', () => {
+    expect(estimate({ strategy: 'idw', neighborCount: 3 }, { latitude: 40.703 })).toBe(4000)
+  })
+
+  it('uses the rent of the containing polygon and otherwise the nearest centroid', () => {
+    expect(estimate({ strategy: 'polygon' }, { neighborhood: 'Delta', neighborhoodMethod: 'polygon' })).toBe(5000)
+    expect(estimate({ strategy: 'polygon' }, { neighborhood: 'Bravo', neighborhoodMethod: 'polygon' })).toBe(3000)
+    expect(estimate({ strategy: 'polygon' }, { neighborhood: 'Delta', neighborhoodMethod: 'centroid' })).toBe(3000)
+  })
+
+  it('gives no estimate without any rent in the borough', () => {
+    RENT_INTERPOLATION_STRATEGIES.forEach(({ id }) => {
+      expect(estimate({ strategy: id }, { borough: 'Queens' })).toBeNull()
+    })
+  })
+})
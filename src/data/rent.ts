@@ -0,0 +1,86 @@
+import { DEFAULT_BOROUGH, parseBorough, type Borough } from './boroughs.ts'
+import { parseCsvTable, type CsvColumns, type CsvHeaderAliases, type CsvInput } from './csv.ts'
+import { normalizeNeighborhoodName, type NeighborhoodMatch } from './neighborhoods.ts'
+
+export const RENT_KEY_ALIASES: Partial<Record<Borough, Record<string, string>>> = {
+  Manhattan: {
+    'gramecy park': 'gramercy park',
+    'stuyvesant town': 'stuyvesant town/pcv',
+  },
+}
+
+const RENT_COLUMNS: CsvColumns<{ name: string; borough: Borough; rent: number }> = {
+  name: { header: 'areaName', parse: (value) => value ?? '' },
+  borough: { header: 'borough', parse: (value) => parseBorough(value) ?? DEFAULT_BOROUGH },
+  rent: { header: 'Rent', parse: Number },
+}
+
+export function parseRentData(csvData: CsvInput, headerAliases: CsvHeaderAliases = {}): Map<string, number> {
+  const rentLookup = new Map<string, number>()
+  const rows = parseCsvTable(csvData, RENT_COLUMNS, { caseInsensitiveHeaders: true, headerAliases })
+  rows.forEach(({ name, borough, rent }) => {
+    const key = normalizeRentKey(name, borough)
+    if (!key || !Number.isFinite(rent)) return
+    rentLookup.set(key, rent)
+  })
+  return rentLookup
+}
+
+// Keys carry the borough, so a rent row only ever matches a neighborhood in the same borough.
+export function normalizeRentKey(value: string, borough: Borough): string {
+  const normalized = normalizeNeighborhoodName(value)
+  if (!normalized || normalized === 'Unknown') return ''
+  const lowered = normalized.toLowerCase()
+  return `${borough.toLowerCase()}/${RENT_KEY_ALIASES[borough]?.[lowered] ?? lowered}`
+}
+
+export function getNeighborhoodRent(name: string, borough: Borough, rentLookup: Map<string, number>): number | null {
+  const key = normalizeRentKey(name, borough)
+  if (!key) return null
+  return rentLookup.get(key) ?? null
+}
+
+export type UnmatchedRentNeighborhood = {
+  name: string
+  borough: Borough
+  rentKey: string
+  source: 'centroid' | 'boundary'
+}
+
+export function findUnmatchedRentNeighborhoods(
+  neighborhoods: { name: string; borough: Borough; source: UnmatchedRentNeighborhood['source'] }[],
+  rentLookup: Map<string, number>,
+): UnmatchedRentNeighborhood[] {
+  const seen = new Set<string>()
+  return neighborhoods
+    .filter(({ name, borough, source }) => {
+      const key = `${source}:${borough}/${name}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return getNeighborhoodRent(name, borough, rentLookup) == null
+    })
+    .map(({ name, borough, source }) => ({ name, borough, rentKey: normalizeRentKey(name, borough), source }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.borough.localeCompare(b.borough))
+}
+
+export function calculateExpectedRent(matches: NeighborhoodMatch[]): number | null {
+  const weights = getExpectedRentWeights(matches)
+  if (!weights) return null
+  const [x1, x2, x3] = matches
+  if (x1.rent == null || x2.rent == null || x3.rent == null) return null
+
+  return weights[0] * x1.rent + weights[1] * x2.rent + weights[2] * x3.rent
+}
+
+// Each of the three closest matches is weighted by the other two distances minus its own.
+export function getExpectedRentWeights(matches: NeighborhoodMatch[]): [number, number, number] | null {
+  if (matches.length < 3) return null
+  const [d1, d2, d3] = matches.slice(0, 3).map((match) => Math.max(match.distance, 0))
+
+  const denominator = d1 + d2 + d3
+  if (denominator === 0) {
+    return [1 / 3, 1 / 3, 1 / 3]
+  }
+
+  return [(d2 + d3 - d1) / denominator, (d1 + d3 - d2) / denominator, (d1 + d2 - d3) / denominator]
+}
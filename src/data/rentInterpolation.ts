@@ -0,0 +1,130 @@
+import type { Borough } from './boroughs.ts'
+import { rankNeighborhoodsByDistance, type NeighborhoodRecord } from './neighborhoods.ts'
+import { getExpectedRentWeights, getNeighborhoodRent } from './rent.ts'
+import type { NeighborhoodAssignmentMethod } from './trees.ts'
+
+export type RentInterpolationStrategy = 'legacy' | 'idw' | 'nearest' | 'polygon'
+
+export type RentInterpolationOptions = {
+  strategy: RentInterpolationStrategy
+  power: number
+  neighborCount: number
+}
+
+export type RentInterpolationStrategyInfo = {
+  id: RentInterpolationStrategy
+  label: string
+  description: string
+}
+
+export const LEGACY_NEIGHBOR_COUNT = 3
+
+export const DEFAULT_RENT_INTERPOLATION: RentInterpolationOptions = {
+  strategy: 'legacy',
+  power: 2,
+  neighborCount: 3,
+}
+
+export const RENT_INTERPOLATION_STRATEGIES: RentInterpolationStrategyInfo[] = [
+  {
+    id: 'legacy',
+    label: 'Legacy',
+    description: 'Original three-centroid weighting over the three nearest neighborhoods that have a rent value.',
+  },
+  {
+    id: 'idw',
+    label: 'Inverse distance',
+    description: 'Inverse-distance weighting over the k nearest neighborhoods that have a rent value.',
+  },
+  {
+    id: 'nearest',
+    label: 'Nearest',
+    description: 'Rent of the nearest neighborhood centroid that has a rent value.',
+  },
+  {
+    id: 'polygon',
+    label: 'Polygon',
+    description: 'Rent of the boundary polygon containing the tree, falling back to the nearest centroid.',
+  },
+]
+
+export type RentEstimateInput = {
+  latitude: number
+  longitude: number
+  borough: Borough
+  neighborhood: string
+  neighborhoodMethod: NeighborhoodAssignmentMethod
+}
+
+// A neighborhood that contributed to a tree's expected rent. Distance is null for the polygon containing the tree, and
+// weight is null when the legacy strategy cannot weigh the match.
+export type RentEstimateSource = {
+  name: string
+  distance: number | null
+  rent: number | null
+  weight: number | null
+}
+
+export function estimateExpectedRent(
+  tree: RentEstimateInput,
+  neighborhoods: NeighborhoodRecord[],
+  rentLookup: Map<string, number>,
+  options: RentInterpolationOptions = DEFAULT_RENT_INTERPOLATION,
+): number | null {
+  const sources = getRentEstimateSources(tree, neighborhoods, rentLookup, options)
+  if (sources.length === 0) return null
+
+  let expectedRent = 0
+  for (const { rent, weight } of sources) {
+    if (rent == null || weight == null) return null
+    expectedRent += weight * rent
+  }
+  return expectedRent
+}
+
+export function getRentEstimateSources(
+  tree: RentEstimateInput,
+  neighborhoods: NeighborhoodRecord[],
+  rentLookup: Map<string, number>,
+  options: RentInterpolationOptions = DEFAULT_RENT_INTERPOLATION,
+): RentEstimateSource[] {
+  if (options.strategy === 'polygon' && tree.neighborhoodMethod === 'polygon') {
+    const polygonRent = getNeighborhoodRent(tree.neighborhood, tree.borough, rentLookup)
+    if (polygonRent != null) return [{ name: tree.neighborhood, distance: null, rent: polygonRent, weight: 1 }]
+  }
+
+  const matchesWithRent = rankNeighborhoodsByDistance(
+    tree.latitude,
+    tree.longitude,
+    tree.borough,
+    neighborhoods,
+    rentLookup,
+  ).filter((match) => match.rent != null)
+
+  // Neighborhoods without a rent are skipped, so legacy weighs the three closest that have one. With fewer than three
+  // in the borough it cannot weigh them at all.
+  if (options.strategy === 'legacy') {
+    const matches = matchesWithRent.slice(0, LEGACY_NEIGHBOR_COUNT)
+    const weights = getExpectedRentWeights(matches)
+    return matches.map((match, index) => ({ ...match, weight: weights?.[index] ?? null }))
+  }
+
+  if (matchesWithRent.length === 0) return []
+
+  if (options.strategy !== 'idw') {
+    return [{ ...matchesWithRent[0], weight: 1 }]
+  }
+
+  const nearest = matchesWithRent.slice(0, Math.max(1, Math.floor(options.neighborCount)))
+  const exactMatch = nearest.find((match) => match.distance <= 0)
+  if (exactMatch) return [{ ...exactMatch, weight: 1 }]
+
+  const inverseDistances = nearest.map((match) => 1 / match.distance ** options.power)
+  const totalWeight = inverseDistances.reduce((total, weight) => total + weight, 0)
+  if (!(totalWeight > 0)) return []
+  return nearest.map((match, index) => ({ ...match, weight: inverseDistances[index] / totalWeight }))
+}
+
+export function isSameRentInterpolation(a: RentInterpolationOptions, b: RentInterpolationOptions): boolean {
+  return a.strategy === b.strategy && a.power === b.power && a.neighborCount === b.neighborCount
+}
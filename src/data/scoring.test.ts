@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest'
+import { getSeededRandom } from '../session/random.ts'
+import { createTree as createTestTree } from '../test/treeFixtures.ts'
+import { AFFORDABILITY_CURVE, COMPONENT_SCORE_MAX, evaluateCurve, HEALTH_CURVE, TREE_FRIENDS_CURVE } from './curves.ts'
+import { clamp } from './math.ts'
+import {
+  calculateAffordabilityScore,
+  calculateHealthScore,
+  getTreeFriendsScore,
+  normalizeAffordabilityScore,
+  normalizeTreeFriendsScore,
+} from './scoring.ts'
+import {
+  ACCESSIBILITY_SCORE_MAX,
+  calculateAccessibilityScore,
+  getScoringModel,
+  scoreComponent,
+  SCORING_MODELS,
+} from './scoringModels.ts'
+import type { TreeRecord } from './trees.ts'
+
+// Rents at which the affordability curve reaches its maximum and falls to zero.
+const FULL_AFFORDABILITY_RENT = 36370 / (COMPONENT_SCORE_MAX + 2.737)
+const ZERO_AFFORDABILITY_RENT = 36370 / 2.737
+// Average neighbor distance at which tree friends reaches zero.
+const ZERO_TREE_FRIENDS_DISTANCE = 2 + COMPONENT_SCORE_MAX / 0.12
+
+// Close neighbors and a cheap rent put every component at its maximum.
+function createTree(overrides: Partial<TreeRecord> = {}): TreeRecord {
+  return createTestTree({ averageNeighborDistance: 1, expectedRent: 2000, ...overrides })
+}
+
+describe('getTreeFriendsScore', () => {
+  it('gives the full score to trees closer than the plateau distance', () => {
+    expect(getTreeFriendsScore(0.5)).toBe(COMPONENT_SCORE_MAX)
+    expect(getTreeFriendsScore(2)).toBe(COMPONENT_SCORE_MAX)
+  })
+
+  it('falls linearly past the plateau', () => {
+    expect(getTreeFriendsScore(12)).toBeCloseTo(COMPONENT_SCORE_MAX - 1.2, 9)
+  })
+
+  it('reaches zero and stays there', () => {
+    expect(getTreeFriendsScore(ZERO_TREE_FRIENDS_DISTANCE)).toBeCloseTo(0, 9)
+    expect(getTreeFriendsScore(ZERO_TREE_FRIENDS_DISTANCE + 1)).toBe(0)
+    expect(getTreeFriendsScore(10_000)).toBe(0)
+  })
+
+  it('treats zero, negative and NaN distances as touching neighbors', () => {
+    expect(getTreeFriendsScore(0)).toBe(COMPONENT_SCORE_MAX)
+    expect(getTreeFriendsScore(-5)).toBe(COMPONENT_SCORE_MAX)
+    expect(getTreeFriendsScore(Number.NaN)).toBe(COMPONENT_SCORE_MAX)
+  })
+})
+
+describe('calculateAffordabilityScore', () => {
+  it('gives the full score at and below the cheapest rent on the curve', () => {
+    expect(calculateAffordabilityScore(FULL_AFFORDABILITY_RENT)).toBeCloseTo(COMPONENT_SCORE_MAX, 9)
+    expect(calculateAffordabilityScore(1000)).toBe(COMPONENT_SCORE_MAX)
+  })
+
+  it('reaches zero at the most expensive rent on the curve and stays there', () => {
+    expect(calculateAffordabilityScore(ZERO_AFFORDABILITY_RENT)).toBeCloseTo(0, 9)
+    expect(calculateAffordabilityScore(20_000)).toBe(0)
+  })
+
+  it('scores zero, negative and NaN rents as 0', () => {
+    expect(calculateAffordabilityScore(0)).toBe(0)
+    expect(calculateAffordabilityScore(-3000)).toBe(0)
+    expect(calculateAffordabilityScore(Number.NaN)).toBe(0)
+  })
+})
+
+describe('evaluateCurve', () => {
+  it('maps the health curve range onto the component score range', () => {
+    expect(evaluateCurve(HEALTH_CURVE, 0)).toBe(0)
+    expect(evaluateCurve(HEALTH_CURVE, 1.5)).toBe(COMPONENT_SCORE_MAX / 2)
+    expect(evaluateCurve(HEALTH_CURVE, 3)).toBe(COMPONENT_SCORE_MAX)
+    expect(evaluateCurve(HEALTH_CURVE, 4)).toBe(COMPONENT_SCORE_MAX)
+  })
+
+  it('returns 0 for a linear curve with an empty range', () => {
+    expect(evaluateCurve({ type: 'linear', min: 2, max: 2 }, 2)).toBe(0)
+  })
+
+  it('keeps every curve inside the component score range', () => {
+    ;[TREE_FRIENDS_CURVE, AFFORDABILITY_CURVE, HEALTH_CURVE].forEach((curve) => {
+      ;[-1e9, -1, 0, 0.5, 1, 3, 100, 5000, 1e9].forEach((value) => {
+        const score = evaluateCurve(curve, value)
+        expect(score).toBeGreaterThanOrEqual(0)
+        expect(score).toBeLessThanOrEqual(COMPONENT_SCORE_MAX)
+      })
+    })
+  })
+})
+
+describe('calculateHealthScore', () => {
+  it('scores a healthy tree 3', () => {
+    expect(calculateHealthScore(createTree())).toBe(3)
+  })
+
+  it('takes a point off for each problem', () => {
+    expect(calculateHealthScore(createTree({ sidewalk: 'Damage' }))).toBe(2)
+    expect(calculateHealthScore(createTree({ problems: 'RootStone' }))).toBe(2)
+    expect(calculateHealthScore(createTree({ status: 'Unknown' }))).toBe(2)
+    expect(calculateHealthScore(createTree({ sidewalk: 'Damage', problems: 'RootStone' }))).toBe(1)
+  })
+
+  it('never drops a standing tree below 1', () => {
+    expect(calculateHealthScore(createTree({ status: 'Unknown', sidewalk: 'Damage', problems: 'RootStone' }))).toBe(1)
+  })
+
+  it('scores dead trees and stumps 0 whatever their other fields say', () => {
+    expect(calculateHealthScore(createTree({ status: 'Dead' }))).toBe(0)
+    expect(calculateHealthScore(createTree({ status: 'stump', sidewalk: 'Damage' }))).toBe(0)
+  })
+
+  it('ignores case and treats empty problems as none', () => {
+    expect(calculateHealthScore(createTree({ status: 'ALIVE', sidewalk: 'nodamage', problems: '' }))).toBe(3)
+    expect(calculateHealthScore(createTree({ problems: ' none ' }))).toBe(3)
+  })
+})
+
+describe('normalizeTreeFriendsScore and normalizeAffordabilityScore', () => {
+  it('map the component range onto the 0-4 display range', () => {
+    expect(normalizeTreeFriendsScore(0)).toBe(0)
+    expect(normalizeTreeFriendsScore(5)).toBe(2)
+    expect(normalizeTreeFriendsScore(10)).toBe(4)
+    expect(normalizeAffordabilityScore(10)).toBe(4)
+  })
+
+  it('clamp out-of-range values and zero missing ones', () => {
+    expect(normalizeTreeFriendsScore(-1)).toBe(0)
+    expect(normalizeTreeFriendsScore(11)).toBe(4)
+    expect(normalizeTreeFriendsScore(Number.NaN)).toBe(0)
+    expect(normalizeAffordabilityScore(null)).toBe(0)
+    expect(normalizeAffordabilityScore(Number.POSITIVE_INFINITY)).toBe(0)
+  })
+})
+
+describe('calculateAccessibilityScore', () => {
+  it('gives a healthy tree with close neighbors in a cheap area the maximum under every model', () => {
+    SCORING_MODELS.forEach((model) => {
+      expect(calculateAccessibilityScore(createTree(), model)).toBeCloseTo(ACCESSIBILITY_SCORE_MAX, 9)
+    })
+  })
+
+  it('scores a dead tree 0 under every model', () => {
+    SCORING_MODELS.forEach((model) => {
+      expect(calculateAccessibilityScore(createTree({ status: 'Dead' }), model)).toBe(0)
+    })
+  })
+
+  it('scores a component without input as 0', () => {
+    const model = getScoringModel('original')
+    const affordability = model.components.find((component) => component.id === 'affordability')!
+    expect(scoreComponent(createTree({ expectedRent: null }), affordability)).toBe(0)
+    expect(calculateAccessibilityScore(createTree({ expectedRent: null }), model)).toBeCloseTo(
+      ACCESSIBILITY_SCORE_MAX - affordability.weight,
+      9,
+    )
+  })
+
+  it('stays inside 0 to the maximum for isolated trees in expensive areas', () => {
+    const tree = createTree({ averageNeighborDistance: 500, expectedRent: 15_000, sidewalk: 'Damage' })
+    SCORING_MODELS.forEach((model) => {
+      const score = calculateAccessibilityScore(tree, model)
+      expect(score).toBeGreaterThanOrEqual(0)
+      expect(score).toBeLessThanOrEqual(ACCESSIBILITY_SCORE_MAX)
+    })
+  })
+})
+
+// The accessibility score as it was computed before scoring models existed, formulas and operation order unchanged.
+function calculateBaselineAccessibilityScore(tree: TreeRecord): number {
+  const distance = tree.averageNeighborDistance
+  const treeFriends = !Number.isFinite(distance) || distance < 2 ? 10 : clamp(10 - 0.12 * (distance - 2), 0, 10)
+  const rent = tree.expectedRent
+  const affordability = rent == null || !Number.isFinite(rent) || rent === 0 ? 0 : clamp(36370 / rent - 2.737, 0, 10)
+  const total =
+    (clamp(treeFriends, 0, 10) / 10) * 4 + (clamp(affordability, 0, 10) / 10) * 4 + calculateHealthScore(tree)
+  return tree.status.trim().toLowerCase() === 'dead' ? 0 : total
+}
+
+describe('the original model', () => {
+  it('reproduces the scores from before scoring models exactly', () => {
+    const statuses = ['Alive', 'Alive', 'Stump', 'Dead']
+    const sidewalks = ['NoDamage', 'Damage']
+    const problems = ['None', 'None', 'Stones', 'RootStone,WiresRope']
+    const pick = (values: string[], index: number, draw: number) =>
+      values[Math.floor(getSeededRandom(3, index, draw) * values.length)]
+
+    for (let index = 0; index < 500; index += 1) {
+      const tree = createTestTree({
+        status: pick(statuses, index, 0),
+        sidewalk: pick(sidewalks, index, 1),
+        problems: pick(problems, index, 2),
+        averageNeighborDistance: index % 50 === 0 ? Infinity : getSeededRandom(3, index, 3) * 100,
+        expectedRent: index % 20 === 0 ? null : 1500 + getSeededRandom(3, index, 4) * 15_000,
+      })
+      expect(calculateAccessibilityScore(tree, getScoringModel('original'))).toBe(
+        calculateBaselineAccessibilityScore(tree),
+      )
+    }
+  })
+
+  it('scores health on its own 0-3 scale', () => {
+    const health = getScoringModel('original').components.find((component) => component.id === 'health')!
+    const trees = [
+      createTestTree({ status: 'Stump' }),
+      createTestTree({ sidewalk: 'Damage', problems: 'Stones' }),
+      createTestTree({ sidewalk: 'Damage' }),
+      createTestTree(),
+    ]
+    expect(trees.map(calculateHealthScore)).toEqual([0, 1, 2, 3])
+    expect(trees.map((tree) => scoreComponent(tree, health))).toEqual([0, 1, 2, 3])
+  })
+})
@@ -0,0 +1,74 @@
+import { AFFORDABILITY_CURVE, evaluateCurve, TREE_FRIENDS_CURVE } from './curves.ts'
+import { buildKdTree, findKNearestNeighborDistances, type IndexedTreePoint } from './kdTree.ts'
+import { clamp } from './math.ts'
+import type { TreeRecord } from './trees.ts'
+
+export const TREE_FRIENDS_NEIGHBOR_COUNT = 5
+// Tree friends and affordability are computed on 0-10 but shown on 0-4.
+export const NORMALIZED_COMPONENT_SCORE_MAX = 4
+
+export function calculateAffordabilityScore(expectedRent: number): number {
+  return evaluateCurve(AFFORDABILITY_CURVE, expectedRent)
+}
+
+export type HealthDeduction = 'status' | 'sidewalk' | 'problems'
+
+export function calculateHealthScore(tree: TreeRecord): number {
+  const status = tree.status.toLowerCase()
+  if (status === 'stump' || status === 'dead') {
+    return 0
+  }
+
+  const differences = getHealthDeductions(tree).length
+  if (differences === 0) return 3
+  if (differences === 1) return 2
+  return 1
+}
+
+// The fields that cost a standing tree a health point. Dead trees and stumps score 0 regardless.
+export function getHealthDeductions(tree: TreeRecord): HealthDeduction[] {
+  const deductions: HealthDeduction[] = []
+  if (tree.status.toLowerCase() !== 'alive') deductions.push('status')
+  if (tree.sidewalk.toLowerCase() !== 'nodamage') deductions.push('sidewalk')
+  if (tree.problems && tree.problems.trim().toLowerCase() !== 'none') deductions.push('problems')
+  return deductions
+}
+
+export function normalizeTreeFriendsScore(score: number): number {
+  if (!Number.isFinite(score)) return 0
+  return (clamp(score, 0, 10) / 10) * NORMALIZED_COMPONENT_SCORE_MAX
+}
+
+export function normalizeAffordabilityScore(value: number | null): number {
+  if (value == null || !Number.isFinite(value)) return 0
+  return (clamp(value, 0, 10) / 10) * NORMALIZED_COMPONENT_SCORE_MAX
+}
+
+export function assignTreeFriendsScores(trees: TreeRecord[], neighborCount = TREE_FRIENDS_NEIGHBOR_COUNT): void {
+  if (trees.length === 0) return
+
+  const points: IndexedTreePoint[] = trees.map((tree, index) => ({
+    tree,
+    latitude: tree.latitude,
+    longitude: tree.longitude,
+    index,
+  }))
+
+  const kdTreeRoot = buildKdTree(points)
+  if (!kdTreeRoot) return
+
+  points.forEach((point) => {
+    const neighborDistances = findKNearestNeighborDistances(kdTreeRoot, point, neighborCount)
+    const averageDistance =
+      neighborDistances.length > 0
+        ? neighborDistances.reduce((sum, distance) => sum + distance, 0) / neighborDistances.length
+        : Number.POSITIVE_INFINITY
+
+    point.tree.averageNeighborDistance = averageDistance
+    point.tree.treeFriendsScore = getTreeFriendsScore(averageDistance)
+  })
+}
+
+export function getTreeFriendsScore(averageDistance: number): number {
+  return evaluateCurve(TREE_FRIENDS_CURVE, averageDistance)
+}
@@ -0,0 +1,112 @@
+import {
+  AFFORDABILITY_CURVE,
+  COMPONENT_SCORE_MAX,
+  evaluateCurve,
+  HEALTH_CURVE,
+  TREE_FRIENDS_CURVE,
+  type NormalizationCurve,
+} from './curves.ts'
+import { clamp } from './math.ts'
+import { calculateHealthScore } from './scoring.ts'
+import type { TreeRecord } from './trees.ts'
+
+export type ScoringComponentId = 'treeFriends' | 'affordability' | 'health'
+
+export type ScoringComponent = {
+  id: ScoringComponentId
+  label: string
+  weight: number
+  curve: NormalizationCurve
+}
+
+export type ScoringModel = {
+  id: string
+  label: string
+  description: string
+  components: ScoringComponent[]
+  zeroDeadTrees: boolean
+}
+
+export const ACCESSIBILITY_SCORE_MAX = 11
+
+// Weights in every preset add up to ACCESSIBILITY_SCORE_MAX so the SCORE_BANDS thresholds in colors.ts keep their
+// meaning.
+export const SCORING_MODELS: ScoringModel[] = [
+  {
+    id: 'original',
+    label: 'Original',
+    description: 'Tree Friends (0-4) + Affordability (0-4) + Health (0-3)',
+    components: [
+      { id: 'treeFriends', label: 'Tree Friends', weight: 4, curve: TREE_FRIENDS_CURVE },
+      { id: 'affordability', label: 'Affordability', weight: 4, curve: AFFORDABILITY_CURVE },
+      { id: 'health', label: 'Health', weight: 3, curve: HEALTH_CURVE },
+    ],
+    zeroDeadTrees: true,
+  },
+  {
+    id: 'health-only',
+    label: 'Health only',
+    description: 'Health (0-11)',
+    components: [{ id: 'health', label: 'Health', weight: 11, curve: HEALTH_CURVE }],
+    zeroDeadTrees: true,
+  },
+  {
+    id: 'density-weighted',
+    label: 'Density weighted',
+    description: 'Tree Friends (0-7) + Affordability (0-2) + Health (0-2)',
+    components: [
+      { id: 'treeFriends', label: 'Tree Friends', weight: 7, curve: TREE_FRIENDS_CURVE },
+      { id: 'affordability', label: 'Affordability', weight: 2, curve: AFFORDABILITY_CURVE },
+      { id: 'health', label: 'Health', weight: 2, curve: HEALTH_CURVE },
+    ],
+    zeroDeadTrees: true,
+  },
+]
+
+export const DEFAULT_SCORING_MODEL = SCORING_MODELS[0]
+
+export function getScoringModel(id: string): ScoringModel {
+  return SCORING_MODELS.find((model) => model.id === id) ?? DEFAULT_SCORING_MODEL
+}
+
+export function getComponentInput(tree: TreeRecord, componentId: ScoringComponentId): number | null {
+  switch (componentId) {
+    case 'treeFriends':
+      return tree.averageNeighborDistance
+    case 'affordability':
+      return tree.expectedRent
+    case 'health':
+      return calculateHealthScore(tree)
+  }
+}
+
+export function scoreComponent(tree: TreeRecord, component: ScoringComponent): number {
+  const input = getComponentInput(tree, component.id)
+  if (input == null) return 0
+  const { curve, weight } = component
+  // A linear curve's range is the input's own scale (0-3 for health), so it maps onto the weight directly instead of
+  // detouring through the 0-10 curve scale.
+  if (curve.type === 'linear') {
+    if (!Number.isFinite(input) || curve.max === curve.min) return 0
+    return clamp(input - curve.min, 0, curve.max - curve.min) * (weight / (curve.max - curve.min))
+  }
+  const score = evaluateCurve(curve, input)
+  if (!Number.isFinite(score)) return 0
+  return (clamp(score, 0, COMPONENT_SCORE_MAX) / COMPONENT_SCORE_MAX) * weight
+}
+
+export function calculateAccessibilityScore(tree: TreeRecord, model: ScoringModel = DEFAULT_SCORING_MODEL): number {
+  const isDead = tree.status.trim().toLowerCase() === 'dead'
+  if (model.zeroDeadTrees && isDead) return 0
+  return model.components.reduce((total, component) => total + scoreComponent(tree, component), 0)
+}
+
+export function assignAccessibilityScores(trees: TreeRecord[], model: ScoringModel = DEFAULT_SCORING_MODEL): void {
+  trees.forEach((tree) => {
+    tree.accessibilityScore = calculateAccessibilityScore(tree, model)
+  })
+}
+
+export function applyScoringModel(trees: TreeRecord[], model: ScoringModel): TreeRecord[] {
+  return trees.map((tree) => ({ ...tree, accessibilityScore: calculateAccessibilityScore(tree, model) }))
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import neighborhoodsCsv from '../../Data/NeighborhoodCoordinates.csv?raw'
+import rentCsv from '../../Data/StreetEasyRentDataCL.csv?raw'
+import { getSeededRandom } from '../session/random.ts'
+import { formatCsvRecord } from './csv.ts'
+import { decodeTreeDataset, encodeTreeDataset, findTreeRecordMismatch } from './precomputed.ts'
+import { RENT_INTERPOLATION_STRATEGIES } from './rentInterpolation.ts'
+import {
+  loadTreeDataset,
+  scoreTreeCsvData,
+  type RawTreeDatasetSource,
+  type ReferenceDataSource,
+} from './treeDataset.ts'
+
+const STATUSES = ['Alive', 'Alive', 'Alive', 'Dead', 'Stump']
+const SIDEWALKS = ['NoDamage', 'NoDamage', 'Damage']
+const PROBLEMS = ['None', 'None', 'BranchLights', 'RootStone,TrunkOther']
+const SPECIES = ['honeylocust', 'London planetree', 'pin oak', '']
+
+// Trees scattered over Manhattan and a little beyond, plus one row without coordinates that both paths skip.
+const TREE_CSV = [
+  formatCsvRecord(['tree_id', 'status', 'sidewalk', 'problems', 'latitude', 'longitude', 'spc_common']),
+  ...Array.from({ length: 300 }, (_, index) => {
+    const pick = (values: string[], stream: number) =>
+      values[Math.floor(getSeededRandom(7, index, stream) * values.length)]
+    return formatCsvRecord([
+      String(200_000 + index),
+      pick(STATUSES, 0),
+      pick(SIDEWALKS, 1),
+      pick(PROBLEMS, 2),
+      (40.69 + getSeededRandom(7, index, 3) * 0.19).toFixed(8),
+      (-74.03 + getSeededRandom(7, index, 4) * 0.11).toFixed(8),
+      pick(SPECIES, 5),
+    ])
+  }),
+  formatCsvRecord(['299999', 'Alive', 'NoDamage', 'None', 'n/a', '-73.99', 'pin oak']),
+].join('\n')
+
+// Chelsea as a rough box, so some trees are assigned by polygon and the rest by centroid.
+const BOUNDARIES_GEOJSON = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { name: 'Chelsea', boroname: 'Manhattan' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-74.01, 40.74],
+            [-73.99, 40.74],
+            [-73.99, 40.755],
+            [-74.01, 40.755],
+            [-74.01, 40.74],
+          ],
+        ],
+      },
+    },
+  ],
+})
+
+function createSources(neighborhoodBoundariesGeoJson: string | null): [RawTreeDatasetSource, ReferenceDataSource] {
+  const reference: ReferenceDataSource = { neighborhoodsCsv, rentCsv, neighborhoodBoundariesGeoJson }
+  return [{ kind: 'raw', treeCsv: TREE_CSV, ...reference }, reference]
+}
+
+// The build scores the CSV once with the default rent strategy and ships the encoded result; the app either decodes
+// that or, in development, scores the raw CSV itself. Both have to give the same trees for every strategy.
+describe('precomputed and runtime scoring', () => {
+  it.each([
+    ['without boundaries', null],
+    ['with boundaries', BOUNDARIES_GEOJSON],
+  ])('match for every rent strategy %s', (_, boundaries) => {
+    const [rawSource, reference] = createSources(boundaries)
+    const dataset = encodeTreeDataset(scoreTreeCsvData(rawSource))
+    const methods = new Set(decodeTreeDataset(dataset).map((tree) => tree.neighborhoodMethod))
+    expect(methods.has('polygon')).toBe(boundaries != null)
+    expect(methods.has('centroid')).toBe(true)
+
+    RENT_INTERPOLATION_STRATEGIES.forEach(({ id: strategy }) => {
+      const interpolation = { strategy, power: 1.5, neighborCount: 4 }
+      const runtime = loadTreeDataset(rawSource, { interpolation }).trees
+      const precomputed = loadTreeDataset({ kind: 'precomputed', dataset, ...reference }, { interpolation }).trees
+
+      expect(runtime).toHaveLength(300)
+      expect(findTreeRecordMismatch(runtime, precomputed), strategy).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import { getNeighborhoodKey } from './boroughs.ts'
+import type { DatasetColumnMappings } from './columnMapping.ts'
+import {
+  createNeighborhoodBoundaryIndex,
+  parseNeighborhoodBoundaries,
+  type NeighborhoodBoundaryIndex,
+} from './neighborhoodBoundaries.ts'
+import { parseNeighborhoodData, type NeighborhoodRecord } from './neighborhoods.ts'
+import { decodeTreeDataset, type PrecomputedTreeDataset } from './precomputed.ts'
+import {
+  findUnmatchedRentNeighborhoods,
+  getNeighborhoodRent,
+  parseRentData,
+  type UnmatchedRentNeighborhood,
+} from './rent.ts'
+import {
+  DEFAULT_RENT_INTERPOLATION,
+  estimateExpectedRent,
+  isSameRentInterpolation,
+  type RentInterpolationOptions,
+} from './rentInterpolation.ts'
+import { calculateAffordabilityScore } from './scoring.ts'
+import { assignAccessibilityScores } from './scoringModels.ts'
+import { parseTreeData, type TreeDataProgressHandler, type TreeRecord } from './trees.ts'
+
+export type ReferenceDataSource = {
+  neighborhoodsCsv: string
+  rentCsv: string
+  neighborhoodBoundariesGeoJson: string | null
+  columnMappings?: DatasetColumnMappings
+}
+
+export type RawTreeDatasetSource = ReferenceDataSource & {
+  kind: 'raw'
+  treeCsv: string
+}
+
+export type PrecomputedTreeDatasetSource = ReferenceDataSource & {
+  kind: 'precomputed'
+  dataset: PrecomputedTreeDataset
+}
+
+export type TreeDatasetSource = RawTreeDatasetSource | PrecomputedTreeDatasetSource
+
+export type ReferenceData = {
+  neighborhoods: NeighborhoodRecord[]
+  rentLookup: Map<string, number>
+  boundaryIndex: NeighborhoodBoundaryIndex | null
+}
+
+// The part of the reference data needed to explain a tree's expected rent.
+export type RentReferenceData = Pick<ReferenceData, 'neighborhoods' | 'rentLookup'>
+
+export type LoadedTreeDataset = {
+  trees: TreeRecord[]
+  reference: ReferenceData
+}
+
+export type LoadTreeDatasetOptions = {
+  interpolation?: RentInterpolationOptions
+  onProgress?: TreeDataProgressHandler
+}
+
+export function parseReferenceData({
+  neighborhoodsCsv,
+  rentCsv,
+  neighborhoodBoundariesGeoJson,
+  columnMappings = {},
+}: ReferenceDataSource): ReferenceData {
+  return {
+    neighborhoods: parseNeighborhoodData(neighborhoodsCsv, columnMappings.neighborhoods),
+    rentLookup: parseRentData(rentCsv, columnMappings.rent),
+    boundaryIndex: neighborhoodBoundariesGeoJson
+      ? createNeighborhoodBoundaryIndex(parseNeighborhoodBoundaries(neighborhoodBoundariesGeoJson))
+      : null,
+  }
+}
+
+export function loadTreeDataset(
+  source: TreeDatasetSource,
+  { interpolation = DEFAULT_RENT_INTERPOLATION, onProgress }: LoadTreeDatasetOptions = {},
+): LoadedTreeDataset {
+  const reference = parseReferenceData(source)
+
+  if (source.kind === 'raw') {
+    return { trees: scoreTrees(source, reference, { interpolation, onProgress }), reference }
+  }
+
+  onProgress?.({ stage: 'decoding', completed: 0, total: source.dataset.count })
+  const trees = decodeTreeDataset(source.dataset)
+  if (isSameRentInterpolation(interpolation, DEFAULT_RENT_INTERPOLATION)) {
+    return { trees, reference }
+  }
+  return { trees: applyRentInterpolation(trees, reference, interpolation), reference }
+}
+
+export function scoreTreeCsvData(source: RawTreeDatasetSource, options: LoadTreeDatasetOptions = {}): TreeRecord[] {
+  return scoreTrees(source, parseReferenceData(source), options)
+}
+
+export function applyRentInterpolation(
+  trees: TreeRecord[],
+  { neighborhoods, rentLookup }: ReferenceData,
+  interpolation: RentInterpolationOptions,
+): TreeRecord[] {
+  const updatedTrees = trees.map((tree) => {
+    const expectedRent = estimateExpectedRent(tree, neighborhoods, rentLookup, interpolation)
+    return {
+      ...tree,
+      expectedRent,
+      affordabilityScore: expectedRent != null ? calculateAffordabilityScore(expectedRent) : null,
+    }
+  })
+  assignAccessibilityScores(updatedTrees)
+  return updatedTrees
+}
+
+export function getUnmatchedRentNeighborhoods({
+  neighborhoods,
+  rentLookup,
+  boundaryIndex,
+}: ReferenceData): UnmatchedRentNeighborhood[] {
+  return findUnmatchedRentNeighborhoods(
+    [
+      ...neighborhoods.map(({ name, borough }) => ({ name, borough, source: 'centroid' as const })),
+      ...(boundaryIndex?.boundaries ?? []).map(({ name, borough }) => ({ name, borough, source: 'boundary' as const })),
+    ],
+    rentLookup,
+  )
+}
+
+// StreetEasy median rent for every neighborhood the trees were assigned to, before any interpolation. Keyed by
+// getNeighborhoodKey.
+export function getNeighborhoodRents(trees: TreeRecord[], { rentLookup }: ReferenceData): Record<string, number> {
+  const rents: Record<string, number> = {}
+  trees.forEach(({ borough, neighborhood }) => {
+    const key = getNeighborhoodKey(borough, neighborhood)
+    if (key in rents) return
+    const rent = getNeighborhoodRent(neighborhood, borough, rentLookup)
+    if (rent != null) rents[key] = rent
+  })
+  return rents
+}
+
+function scoreTrees(
+  { treeCsv, columnMappings = {} }: RawTreeDatasetSource,
+  { neighborhoods, rentLookup, boundaryIndex }: ReferenceData,
+  { interpolation, onProgress }: LoadTreeDatasetOptions,
+): TreeRecord[] {
+  return parseTreeData(treeCsv, neighborhoods, rentLookup, {
+    boundaryIndex,
+    interpolation,
+    headerAliases: columnMappings.trees,
+    onProgress,
+  })
+}
@@ -0,0 +1,77 @@
+import { getDistanceInMeters } from './geo.ts'
+import {
+  getRentEstimateSources,
+  type RentEstimateSource,
+  type RentInterpolationOptions,
+} from './rentInterpolation.ts'
+import { getHealthDeductions, TREE_FRIENDS_NEIGHBOR_COUNT, type HealthDeduction } from './scoring.ts'
+import {
+  calculateAccessibilityScore,
+  getComponentInput,
+  scoreComponent,
+  type ScoringComponent,
+  type ScoringModel,
+} from './scoringModels.ts'
+import type { RentReferenceData } from './treeDataset.ts'
+import type { TreeRecord } from './trees.ts'
+
+export type TreeNeighbor = {
+  tree: TreeRecord
+  distance: number
+}
+
+export type ComponentBreakdown = {
+  component: ScoringComponent
+  input: number | null
+  points: number
+}
+
+export type TreeScoreBreakdown = {
+  accessibilityScore: number
+  isZeroedAsDead: boolean
+  components: ComponentBreakdown[]
+  rentSources: RentEstimateSource[]
+  neighbors: TreeNeighbor[]
+  healthDeductions: HealthDeduction[]
+}
+
+export function getTreeScoreBreakdown(
+  tree: TreeRecord,
+  trees: TreeRecord[],
+  { neighborhoods, rentLookup }: RentReferenceData,
+  interpolation: RentInterpolationOptions,
+  model: ScoringModel,
+): TreeScoreBreakdown {
+  return {
+    accessibilityScore: calculateAccessibilityScore(tree, model),
+    isZeroedAsDead: model.zeroDeadTrees && tree.status.trim().toLowerCase() === 'dead',
+    components: model.components.map((component) => ({
+      component,
+      input: getComponentInput(tree, component.id),
+      points: scoreComponent(tree, component),
+    })),
+    rentSources: getRentEstimateSources(tree, neighborhoods, rentLookup, interpolation),
+    neighbors: findNearestTrees(trees, tree, TREE_FRIENDS_NEIGHBOR_COUNT),
+    healthDeductions: getHealthDeductions(tree),
+  }
+}
+
+// A linear scan is quicker than building a k-d tree for the single tree a detail view asks about. Like the k-d tree
+// search, it skips only the target itself, so other trees at the same coordinates count as neighbors at 0 m.
+export function findNearestTrees(trees: TreeRecord[], target: TreeRecord, count: number): TreeNeighbor[] {
+  const nearest: TreeNeighbor[] = []
+  if (count <= 0) return nearest
+
+  trees.forEach((tree) => {
+    if (tree === target) return
+    const distance = getDistanceInMeters(target.latitude, target.longitude, tree.latitude, tree.longitude)
+    if (!Number.isFinite(distance)) return
+    if (nearest.length === count && distance >= nearest[count - 1].distance) return
+
+    if (nearest.length === count) nearest.pop()
+    const index = nearest.findIndex((neighbor) => neighbor.distance > distance)
+    nearest.splice(index === -1 ? nearest.length : index, 0, { tree, distance })
+  })
+
+  return nearest
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { createTree } from '../test/treeFixtures.ts'
+import { DEFAULT_RENT_INTERPOLATION } from './rentInterpolation.ts'
+import { DEFAULT_SCORING_MODEL, scoreComponent } from './scoringModels.ts'
+import { createTreeCsv, createTreeGeoJson, type TreeExportMetadata } from './treeExport.ts'
+import { EMPTY_TREE_FILTERS } from './treeFilters.ts'
+
+const COLUMNS = [
+  'treeId',
+  'species',
+  'status',
+  'sidewalk',
+  'problems',
+  'latitude',
+  'longitude',
+  'borough',
+  'neighborhood',
+  'neighborhoodMethod',
+  'averageNeighborDistance',
+  'expectedRent',
+  'healthScore',
+  'treeFriendsScore',
+  'affordabilityScore',
+  'accessibilityScore',
+  'treeFriendsPoints',
+  'affordabilityPoints',
+  'healthPoints',
+]
+
+const metadata: TreeExportMetadata = {
+  exportedAt: '2026-05-01T12:00:00.000Z',
+  source: 'Data/CleanedTreeData.csv',
+  treeCount: 2,
+  totalTreeCount: 10,
+  filters: { ...EMPTY_TREE_FILTERS, species: 'red maple' },
+  scoringModel: DEFAULT_SCORING_MODEL,
+  rentInterpolation: DEFAULT_RENT_INTERPOLATION,
+}
+
+const scored = createTree({ treeFriendsScore: 10, affordabilityScore: 5 })
+const unscored = createTree({
+  treeId: '2',
+  treeFriendsScore: 5,
+  neighborhood: 'Hell\'s Kitchen, "Clinton"',
+  neighborhoodMethod: 'none',
+  averageNeighborDistance: Infinity,
+  expectedRent: null,
+  affordabilityScore: null,
+  accessibilityScore: null,
+})
+
+function getComponentPoints(tree = scored): number[] {
+  return DEFAULT_SCORING_MODEL.components.map((component) => scoreComponent(tree, component))
+}
+
+describe('createTreeCsv', () => {
+  const lines = createTreeCsv([scored, unscored], metadata).split('\n')
+
+  it('starts with one # line per metadata key, then the columns', () => {
+    expect(lines.slice(0, 7)).toEqual([
+      '# exportedAt: 2026-05-01T12:00:00.000Z',
+      '# source: Data/CleanedTreeData.csv',
+      '# treeCount: 2',
+      '# totalTreeCount: 10',
+      `# filters: ${JSON.stringify(metadata.filters)}`,
+      `# scoringModel: ${JSON.stringify(DEFAULT_SCORING_MODEL)}`,
+      `# rentInterpolation: ${JSON.stringify(DEFAULT_RENT_INTERPOLATION)}`,
+    ])
+    expect(lines[7]).toBe(COLUMNS.join(','))
+  })
+
+  it('writes tree friends and affordability on the 0-4 scale shown in the app', () => {
+    expect(lines[8]).toBe(
+      [
+        '180683,red maple,Alive,NoDamage,None,40.72309177,-73.98421522,Manhattan,Lower East Side,polygon',
+        '6.4,3650,3,4,2,9.81',
+        ...getComponentPoints(),
+      ].join(','),
+    )
+  })
+
+  it('leaves missing and infinite values empty and quotes text that needs it', () => {
+    expect(lines[9]).toBe(
+      [
+        '2,red maple,Alive,NoDamage,None,40.72309177,-73.98421522,Manhattan,"Hell\'s Kitchen, ""Clinton""",none',
+        ',,3,2,,',
+        ...getComponentPoints(unscored),
+      ].join(','),
+    )
+    expect(lines[10]).toBe('')
+  })
+})
+
+describe('createTreeGeoJson', () => {
+  const collection = createTreeGeoJson([scored, unscored], metadata)
+
+  it('carries the metadata and one point feature per tree in longitude, latitude order', () => {
+    expect(collection.type).toBe('FeatureCollection')
+    expect(collection.metadata).toBe(metadata)
+    expect(collection.features).toHaveLength(2)
+    expect(collection.features[0].type).toBe('Feature')
+    expect(collection.features[0].geometry).toEqual({ type: 'Point', coordinates: [-73.98421522, 40.72309177] })
+  })
+
+  it('gives every feature the CSV columns as properties, with null for missing values', () => {
+    const [first, second] = collection.features.map((feature) => feature.properties)
+
+    expect(Object.keys(first)).toEqual(COLUMNS)
+    expect(first).toMatchObject({ treeFriendsScore: 4, affordabilityScore: 2, healthScore: 3 })
+    expect(second).toMatchObject({
+      averageNeighborDistance: null,
+      expectedRent: null,
+      affordabilityScore: null,
+      accessibilityScore: null,
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { formatCsvRecord } from './csv.ts'
+import type { GeoJsonFeatureCollection, GeoJsonPoint } from './geojson.ts'
+import type { RentInterpolationOptions } from './rentInterpolation.ts'
+import { calculateHealthScore } from './scoring.ts'
+import { scoreComponent, type ScoringModel } from './scoringModels.ts'
+import { getFilterableScore, type TreeFilters } from './treeFilters.ts'
+import type { TreeRecord } from './trees.ts'
+
+export type TreeExportFormat = 'csv' | 'geojson'
+
+export type TreeExportMetadata = {
+  exportedAt: string
+  source: string
+  treeCount: number
+  totalTreeCount: number
+  filters: TreeFilters | null
+  scoringModel: ScoringModel
+  rentInterpolation: RentInterpolationOptions
+}
+
+export type TreeExportProperties = Record<string, string | number | null>
+
+export type TreeExportFeatureCollection = GeoJsonFeatureCollection<TreeExportProperties, GeoJsonPoint> & {
+  metadata: TreeExportMetadata
+}
+
+type TreeExportField = {
+  name: string
+  getValue: (tree: TreeRecord) => string | number | null
+}
+
+export const TREE_EXPORT_FORMATS: { id: TreeExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+]
+
+// Tree friends and affordability go out on the 0-4 scale the tooltip, drawer and filters show.
+const BASE_FIELDS: TreeExportField[] = [
+  { name: 'treeId', getValue: (tree) => tree.treeId },
+  { name: 'species', getValue: (tree) => tree.species },
+  { name: 'status', getValue: (tree) => tree.status },
+  { name: 'sidewalk', getValue: (tree) => tree.sidewalk },
+  { name: 'problems', getValue: (tree) => tree.problems },
+  { name: 'latitude', getValue: (tree) => tree.latitude },
+  { name: 'longitude', getValue: (tree) => tree.longitude },
+  { name: 'borough', getValue: (tree) => tree.borough },
+  { name: 'neighborhood', getValue: (tree) => tree.neighborhood },
+  { name: 'neighborhoodMethod', getValue: (tree) => tree.neighborhoodMethod },
+  { name: 'averageNeighborDistance', getValue: (tree) => tree.averageNeighborDistance },
+  { name: 'expectedRent', getValue: (tree) => tree.expectedRent },
+  { name: 'healthScore', getValue: calculateHealthScore },
+  { name: 'treeFriendsScore', getValue: (tree) => getFilterableScore(tree, 'treeFriendsScore') },
+  { name: 'affordabilityScore', getValue: (tree) => getFilterableScore(tree, 'affordabilityScore') },
+  { name: 'accessibilityScore', getValue: (tree) => tree.accessibilityScore },
+]
+
+export function createTreeCsv(trees: TreeRecord[], metadata: TreeExportMetadata): string {
+  const fields = getExportFields(metadata.scoringModel)
+  const lines = [
+    ...formatMetadataLines(metadata),
+    formatCsvRecord(fields.map((field) => field.name)),
+    ...trees.map((tree) => formatCsvRecord(fields.map((field) => toExportValue(field.getValue(tree))))),
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+export function createTreeGeoJson(trees: TreeRecord[], metadata: TreeExportMetadata): TreeExportFeatureCollection {
+  const fields = getExportFields(metadata.scoringModel)
+  return {
+    type: 'FeatureCollection',
+    metadata,
+    features: trees.map((tree) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [tree.longitude, tree.latitude] },
+      properties: Object.fromEntries(fields.map((field) => [field.name, toExportValue(field.getValue(tree))])),
+    })),
+  }
+}
+
+// Each component's contribution to accessibilityScore under the active model. They add up to the total except for
+// dead trees, which score 0 when the model sets zeroDeadTrees.
+function getExportFields(model: ScoringModel): TreeExportField[] {
+  return [
+    ...BASE_FIELDS,
+    ...model.components.map((component) => ({
+      name: `${component.id}Points`,
+      getValue: (tree: TreeRecord) => scoreComponent(tree, component),
+    })),
+  ]
+}
+
+// The header block goes ahead of the column names as `#` lines; GeoJSON carries the same values under `metadata`.
+function formatMetadataLines(metadata: TreeExportMetadata): string[] {
+  return Object.entries(metadata).map(
+    ([key, value]) => `# ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`,
+  )
+}
+
+function toExportValue(value: string | number | null): string | number | null {
+  if (typeof value !== 'number') return value
+  return Number.isFinite(value) ? value : null
+}
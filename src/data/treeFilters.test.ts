@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { createTree } from '../test/treeFixtures.ts'
+import {
+  EMPTY_TREE_FILTERS,
+  filterTrees,
+  getTreeFilterOptions,
+  isTreeFilterActive,
+  type TreeFilters,
+} from './treeFilters.ts'
+
+const trees = [
+  createTree({ treeId: 'maple', treeFriendsScore: 10, affordabilityScore: 5, accessibilityScore: 8.2 }),
+  createTree({
+    treeId: 'plane',
+    species: 'london planetree',
+    neighborhood: 'Central Harlem',
+    treeFriendsScore: 2.5,
+    affordabilityScore: null,
+    accessibilityScore: 4.1,
+  }),
+  createTree({ treeId: 'stump', status: 'Stump', sidewalk: 'Damage', accessibilityScore: 0 }),
+  createTree({ treeId: 'bronx', borough: 'Bronx', neighborhood: 'Mott Haven', accessibilityScore: null }),
+]
+
+function filterIds(filters: Partial<TreeFilters>): string[] {
+  return filterTrees(trees, { ...EMPTY_TREE_FILTERS, ...filters }).map((tree) => tree.treeId)
+}
+
+function withRange(id: keyof TreeFilters['scoreRanges'], min: number | null, max: number | null): Partial<TreeFilters> {
+  return { scoreRanges: { ...EMPTY_TREE_FILTERS.scoreRanges, [id]: { min, max } } }
+}
+
+describe('filterTrees', () => {
+  it('returns the same array without any filter', () => {
+    expect(isTreeFilterActive(EMPTY_TREE_FILTERS)).toBe(false)
+    expect(filterTrees(trees, EMPTY_TREE_FILTERS)).toBe(trees)
+  })
+
+  it('matches species, status, borough and neighborhood exactly', () => {
+    expect(filterIds({ species: 'london planetree' })).toEqual(['plane'])
+    expect(filterIds({ status: 'Stump' })).toEqual(['stump'])
+    expect(filterIds({ borough: 'Bronx' })).toEqual(['bronx'])
+    expect(filterIds({ neighborhood: 'Central Harlem' })).toEqual(['plane'])
+    expect(filterIds({ species: 'red maple', neighborhood: 'Central Harlem' })).toEqual([])
+  })
+
+  it('matches the health score', () => {
+    expect(filterIds({ healthScore: 0 })).toEqual(['stump'])
+    expect(filterIds({ healthScore: 3 })).toEqual(['maple', 'plane', 'bronx'])
+  })
+
+  it('keeps inclusive accessibility ranges and leaves out unscored trees', () => {
+    expect(filterIds(withRange('accessibilityScore', null, 4.5))).toEqual(['plane', 'stump'])
+    expect(filterIds(withRange('accessibilityScore', 4.1, 8.2))).toEqual(['maple', 'plane'])
+  })
+
+  it('filters tree friends and affordability on the 0-4 scale the tooltip shows', () => {
+    // Raw 10, 9.47 and 2.5 show as 4.0, 3.8 and 1.0.
+    expect(filterIds(withRange('treeFriendsScore', 3.9, null))).toEqual(['maple'])
+    expect(filterIds(withRange('treeFriendsScore', null, 1))).toEqual(['plane'])
+    // Raw 5 shows as 2.0, raw 7.23 as 2.9; the tree without a rent has no affordability at all.
+    expect(filterIds(withRange('affordabilityScore', 2, 2))).toEqual(['maple'])
+    expect(filterIds(withRange('affordabilityScore', 0, 4))).toEqual(['maple', 'stump', 'bronx'])
+  })
+})
+
+describe('getTreeFilterOptions', () => {
+  it('counts every borough but only the chosen borough for the other options', () => {
+    const options = getTreeFilterOptions(trees, 'Manhattan')
+    expect(options.boroughs).toEqual([
+      { value: 'Manhattan', count: 3 },
+      { value: 'Bronx', count: 1 },
+    ])
+    expect(options.neighborhoods).toEqual([
+      { value: 'Lower East Side', count: 2 },
+      { value: 'Central Harlem', count: 1 },
+    ])
+  })
+})
@@ -0,0 +1,129 @@
+import type { Borough } from './boroughs.ts'
+import {
+  calculateHealthScore,
+  NORMALIZED_COMPONENT_SCORE_MAX,
+  normalizeAffordabilityScore,
+  normalizeTreeFriendsScore,
+} from './scoring.ts'
+import { ACCESSIBILITY_SCORE_MAX } from './scoringModels.ts'
+import type { TreeRecord } from './trees.ts'
+
+export type FilterableScore = 'accessibilityScore' | 'treeFriendsScore' | 'affordabilityScore'
+
+export type ScoreRange = {
+  min: number | null
+  max: number | null
+}
+
+export type TreeFilters = {
+  species: string | null
+  status: string | null
+  healthScore: number | null
+  borough: Borough | null
+  neighborhood: string | null
+  scoreRanges: Record<FilterableScore, ScoreRange>
+}
+
+export type TreeFilterOption = {
+  value: string
+  count: number
+}
+
+export type TreeFilterOptions = {
+  boroughs: TreeFilterOption[]
+  species: TreeFilterOption[]
+  statuses: TreeFilterOption[]
+  neighborhoods: TreeFilterOption[]
+}
+
+export const UNBOUNDED_SCORE_RANGE: ScoreRange = { min: null, max: null }
+
+export const EMPTY_TREE_FILTERS: TreeFilters = {
+  species: null,
+  status: null,
+  healthScore: null,
+  borough: null,
+  neighborhood: null,
+  scoreRanges: {
+    accessibilityScore: UNBOUNDED_SCORE_RANGE,
+    treeFriendsScore: UNBOUNDED_SCORE_RANGE,
+    affordabilityScore: UNBOUNDED_SCORE_RANGE,
+  },
+}
+
+export const FILTERABLE_SCORES: { id: FilterableScore; label: string; max: number }[] = [
+  { id: 'accessibilityScore', label: 'Accessibility', max: ACCESSIBILITY_SCORE_MAX },
+  { id: 'treeFriendsScore', label: 'Tree friends', max: NORMALIZED_COMPONENT_SCORE_MAX },
+  { id: 'affordabilityScore', label: 'Affordability', max: NORMALIZED_COMPONENT_SCORE_MAX },
+]
+
+export const HEALTH_SCORE_OPTIONS = [3, 2, 1, 0]
+
+export function isTreeFilterActive(filters: TreeFilters): boolean {
+  return (
+    filters.species != null ||
+    filters.status != null ||
+    filters.healthScore != null ||
+    filters.borough != null ||
+    filters.neighborhood != null ||
+    FILTERABLE_SCORES.some(({ id }) => !isUnboundedRange(filters.scoreRanges[id]))
+  )
+}
+
+export function matchesTreeFilters(tree: TreeRecord, filters: TreeFilters): boolean {
+  if (filters.species != null && tree.species !== filters.species) return false
+  if (filters.status != null && tree.status !== filters.status) return false
+  if (filters.borough != null && tree.borough !== filters.borough) return false
+  if (filters.neighborhood != null && tree.neighborhood !== filters.neighborhood) return false
+  if (filters.healthScore != null && calculateHealthScore(tree) !== filters.healthScore) return false
+  return FILTERABLE_SCORES.every(({ id }) => isInRange(getFilterableScore(tree, id), filters.scoreRanges[id]))
+}
+
+// Scores on the scale the tooltip and detail drawer show them, so a range typed from those numbers matches them.
+export function getFilterableScore(tree: TreeRecord, id: FilterableScore): number | null {
+  if (id === 'treeFriendsScore') return normalizeTreeFriendsScore(tree.treeFriendsScore)
+  if (id === 'affordabilityScore') {
+    return tree.affordabilityScore != null ? normalizeAffordabilityScore(tree.affordabilityScore) : null
+  }
+  return tree.accessibilityScore
+}
+
+export function filterTrees(trees: TreeRecord[], filters: TreeFilters): TreeRecord[] {
+  if (!isTreeFilterActive(filters)) return trees
+  return trees.filter((tree) => matchesTreeFilters(tree, filters))
+}
+
+// Borough options always cover every tree; the others only count trees in the chosen borough.
+export function getTreeFilterOptions(trees: TreeRecord[], borough: Borough | null = null): TreeFilterOptions {
+  const boroughTrees = borough != null ? trees.filter((tree) => tree.borough === borough) : trees
+  return {
+    boroughs: countValues(trees, (tree) => tree.borough),
+    species: countValues(boroughTrees, (tree) => tree.species),
+    statuses: countValues(boroughTrees, (tree) => tree.status),
+    neighborhoods: countValues(boroughTrees, (tree) => tree.neighborhood),
+  }
+}
+
+function isUnboundedRange(range: ScoreRange): boolean {
+  return range.min == null && range.max == null
+}
+
+function isInRange(value: number | null, range: ScoreRange): boolean {
+  if (isUnboundedRange(range)) return true
+  if (value == null || !Number.isFinite(value)) return false
+  if (range.min != null && value < range.min) return false
+  if (range.max != null && value > range.max) return false
+  return true
+}
+
+function countValues(trees: TreeRecord[], getValue: (tree: TreeRecord) => string): TreeFilterOption[] {
+  const counts = new Map<string, number>()
+  trees.forEach((tree) => {
+    const value = getValue(tree)
+    if (!value) return
+    counts.set(value, (counts.get(value) ?? 0) + 1)
+  })
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
@@ -0,0 +1,146 @@
+import { DEFAULT_BOROUGH, parseBorough, type Borough } from './boroughs.ts'
+import { createCsvRowMapper, parseCsvRecords, type CsvColumns, type CsvHeaderAliases, type CsvInput } from './csv.ts'
+import { findContainingNeighborhood, type NeighborhoodBoundaryIndex } from './neighborhoodBoundaries.ts'
+import { getClosestNeighborhoodMatches, type NeighborhoodRecord } from './neighborhoods.ts'
+import { DEFAULT_RENT_INTERPOLATION, estimateExpectedRent, type RentInterpolationOptions } from './rentInterpolation.ts'
+import { assignTreeFriendsScores, calculateAffordabilityScore } from './scoring.ts'
+import { assignAccessibilityScores } from './scoringModels.ts'
+
+const PROGRESS_REPORT_INTERVAL = 1000
+
+export type NeighborhoodAssignmentMethod = 'polygon' | 'centroid' | 'none'
+
+export type TreeRecord = {
+  treeId: string
+  status: string
+  sidewalk: string
+  problems: string
+  latitude: number
+  longitude: number
+  borough: Borough
+  neighborhood: string
+  neighborhoodMethod: NeighborhoodAssignmentMethod
+  species: string
+  averageNeighborDistance: number
+  expectedRent: number | null
+  treeFriendsScore: number
+  affordabilityScore: number | null
+  accessibilityScore: number | null
+}
+
+export type TreeLocation = Pick<TreeRecord, 'treeId' | 'latitude' | 'longitude'>
+
+export type TreeDataStage = 'decoding' | 'parsing' | 'tree-friends' | 'accessibility'
+
+export type TreeDataProgress = {
+  stage: TreeDataStage
+  completed: number
+  total: number
+}
+
+export type TreeDataProgressHandler = (progress: TreeDataProgress) => void
+
+type TreeCsvField = 'treeId' | 'status' | 'sidewalk' | 'problems' | 'latitude' | 'longitude' | 'species'
+type TreeCsvRow = Pick<TreeRecord, TreeCsvField> & { borough: Borough | null }
+
+const trimField = (value: string | undefined) => value?.trim() ?? ''
+
+const TREE_COLUMNS: CsvColumns<TreeCsvRow> = {
+  treeId: { header: 'tree_id', parse: (value) => (value ?? '').trim() || 'unknown' },
+  status: { header: 'status', parse: trimField },
+  sidewalk: { header: 'sidewalk', parse: trimField },
+  problems: { header: 'problems', parse: trimField },
+  latitude: { header: 'latitude', parse: Number },
+  longitude: { header: 'longitude', parse: Number },
+  species: { header: 'spc_common', parse: (value) => (value ?? '').trim().toLowerCase() || 'unknown' },
+  borough: { header: 'borough', parse: parseBorough },
+}
+
+export type ParseTreeDataOptions = {
+  boundaryIndex?: NeighborhoodBoundaryIndex | null
+  interpolation?: RentInterpolationOptions
+  headerAliases?: CsvHeaderAliases
+  onProgress?: TreeDataProgressHandler
+}
+
+// Tree ids repeat in some uploads, and every row without one reads as 'unknown', so a tree stored in the visit history
+// or a collection is found again by its id together with its position.
+export function getTreeKey({ treeId, latitude, longitude }: TreeLocation): string {
+  return `${treeId}@${latitude},${longitude}`
+}
+
+export function parseTreeData(
+  csvData: CsvInput,
+  neighborhoods: NeighborhoodRecord[],
+  rentLookup: Map<string, number>,
+  {
+    boundaryIndex = null,
+    interpolation = DEFAULT_RENT_INTERPOLATION,
+    headerAliases,
+    onProgress,
+  }: ParseTreeDataOptions = {},
+): TreeRecord[] {
+  const [headers, ...records] = parseCsvRecords(csvData)
+  if (!headers || records.length === 0) return []
+
+  const rowMapper = createCsvRowMapper(headers, TREE_COLUMNS, { headerAliases })
+  const rowCount = records.length
+
+  const parsedTrees = records.map((record, rowIndex) => {
+    if (rowIndex % PROGRESS_REPORT_INTERVAL === 0) {
+      onProgress?.({ stage: 'parsing', completed: rowIndex, total: rowCount })
+    }
+
+    const row = rowMapper.map(record)
+    const { latitude, longitude } = row
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined
+
+    // Without a borough column, the containing boundary or else the closest centroid decides the borough.
+    const containingBoundary = boundaryIndex
+      ? findContainingNeighborhood(boundaryIndex, latitude, longitude, row.borough)
+      : null
+    const [closestMatch] = getClosestNeighborhoodMatches(
+      latitude,
+      longitude,
+      row.borough ?? containingBoundary?.borough ?? null,
+      neighborhoods,
+      rentLookup,
+      1,
+    )
+    const borough = row.borough ?? containingBoundary?.borough ?? closestMatch?.borough ?? DEFAULT_BOROUGH
+    const closestNeighborhood = closestMatch?.name
+    const containingNeighborhood = containingBoundary?.name
+    const neighborhood = containingNeighborhood ?? closestNeighborhood ?? 'Unknown'
+    const neighborhoodMethod: NeighborhoodAssignmentMethod = containingNeighborhood
+      ? 'polygon'
+      : closestNeighborhood
+        ? 'centroid'
+        : 'none'
+    const expectedRent = estimateExpectedRent(
+      { latitude, longitude, borough, neighborhood, neighborhoodMethod },
+      neighborhoods,
+      rentLookup,
+      interpolation,
+    )
+    const affordabilityScore = expectedRent != null ? calculateAffordabilityScore(expectedRent) : null
+
+    const treeRecord: TreeRecord = {
+      ...row,
+      borough,
+      neighborhood,
+      neighborhoodMethod,
+      averageNeighborDistance: Number.POSITIVE_INFINITY,
+      expectedRent,
+      treeFriendsScore: 0,
+      affordabilityScore,
+      accessibilityScore: null,
+    }
+    return treeRecord
+  }).filter((tree): tree is TreeRecord => Boolean(tree))
+
+  onProgress?.({ stage: 'tree-friends', completed: 0, total: parsedTrees.length })
+  assignTreeFriendsScores(parsedTrees)
+  onProgress?.({ stage: 'accessibility', completed: 0, total: parsedTrees.length })
+  assignAccessibilityScores(parsedTrees)
+  return parsedTrees
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import neighborhoodsCsv from '../../Data/NeighborhoodCoordinates.csv?raw'
+import rentCsv from '../../Data/StreetEasyRentDataCL.csv?raw'
+import { validateDatasets, type ValidationIssue } from './validation.ts'
+
+const TREE_CSV = [
+  'tree_id,status,sidewalk,problems,latitude,longitude,spc_common',
+  '1,Alive,NoDamage,None,40.72,-73.98,pin oak',
+].join('\n')
+
+function createBoundaries(features: unknown[]): string {
+  return JSON.stringify({ type: 'FeatureCollection', features })
+}
+
+function createSquare(name: string | null) {
+  return {
+    type: 'Feature',
+    properties: name != null ? { name } : {},
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [-74, 40.7],
+          [-73.99, 40.7],
+          [-73.99, 40.71],
+          [-74, 40.71],
+          [-74, 40.7],
+        ],
+      ],
+    },
+  }
+}
+
+function getBoundaryIssues(neighborhoodBoundariesGeoJson: string | null): Omit<ValidationIssue, 'dataset'>[] {
+  return validateDatasets({ treeCsv: TREE_CSV, neighborhoodsCsv, rentCsv, neighborhoodBoundariesGeoJson })
+    .issues.filter((issue) => issue.dataset === 'boundaries')
+    .map(({ row, column, reason, severity }) => ({ row, column, reason, severity }))
+}
+
+describe('validateDatasets with neighborhood boundaries', () => {
+  it('skips the boundaries when there is no file', () => {
+    const report = validateDatasets({ treeCsv: TREE_CSV, neighborhoodsCsv, rentCsv })
+    expect(report.summaries.map((summary) => summary.dataset)).toEqual(['trees', 'neighborhoods', 'rent'])
+    expect(getBoundaryIssues(null)).toEqual([])
+  })
+
+  it('counts named polygons as kept and warns about skipped features and names without rent', () => {
+    const report = validateDatasets({
+      treeCsv: TREE_CSV,
+      neighborhoodsCsv,
+      rentCsv,
+      neighborhoodBoundariesGeoJson: createBoundaries([
+        createSquare('Chelsea'),
+        createSquare('Hudson Yards'),
+        createSquare(null),
+        { type: 'Feature', properties: { name: 'Pier' }, geometry: { type: 'Point', coordinates: [-74, 40.7] } },
+      ]),
+    })
+
+    expect(report.hasErrors).toBe(false)
+    expect(report.summaries[3]).toEqual({ dataset: 'boundaries', totalRows: 4, keptRows: 2, droppedRows: 2 })
+    expect(report.unmatchedNeighborhoods.filter((neighborhood) => neighborhood.source === 'boundary')).toEqual([
+      { name: 'Hudson Yards', borough: 'Manhattan', rentKey: 'manhattan/hudson yards', source: 'boundary' },
+    ])
+    expect(getBoundaryIssues(createBoundaries([createSquare('Chelsea'), createSquare(null)]))).toEqual([
+      {
+        row: null,
+        column: null,
+        reason: '1 of 2 features skipped: not a named Polygon or MultiPolygon',
+        severity: 'warning',
+      },
+    ])
+  })
+
+  it('reports a file that is not JSON or has no usable polygon as an error', () => {
+    const error = (reason: string) => [{ row: null, column: null, reason, severity: 'error' }]
+    expect(getBoundaryIssues('{"type":')).toEqual(error('file is not valid JSON'))
+    expect(getBoundaryIssues('{"type":"Feature"}')).toEqual(
+      error('file is not a GeoJSON FeatureCollection with features'),
+    )
+    expect(getBoundaryIssues(createBoundaries([createSquare(null)]))).toEqual(
+      error('no feature is a named Polygon or MultiPolygon'),
+    )
+  })
+})
@@ -0,0 +1,294 @@
+import { parseCsvRecords } from './csv.ts'
+import { parseNeighborhoodBoundaries, type NeighborhoodBoundary } from './neighborhoodBoundaries.ts'
+import { parseNeighborhoodData } from './neighborhoods.ts'
+import { findUnmatchedRentNeighborhoods, parseRentData, type UnmatchedRentNeighborhood } from './rent.ts'
+
+export type DatasetName = 'trees' | 'neighborhoods' | 'rent'
+
+// The boundaries file is optional and cannot be uploaded, so it is validated but is not a DatasetName.
+export type ValidatedDatasetName = DatasetName | 'boundaries'
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationIssue = {
+  dataset: ValidatedDatasetName
+  row: number | null
+  column: string | null
+  reason: string
+  severity: ValidationSeverity
+}
+
+export type DatasetValidationSummary = {
+  dataset: ValidatedDatasetName
+  totalRows: number
+  keptRows: number
+  droppedRows: number
+}
+
+export type ValidationReport = {
+  issues: ValidationIssue[]
+  summaries: DatasetValidationSummary[]
+  unmatchedNeighborhoods: UnmatchedRentNeighborhood[]
+  hasErrors: boolean
+}
+
+export type ValidationSources = {
+  treeCsv: string
+  neighborhoodsCsv: string
+  rentCsv: string
+  neighborhoodBoundariesGeoJson?: string | null
+}
+
+type ColumnSchema = {
+  name: string
+  type: 'string' | 'number'
+  required: boolean
+  dropsRowWhenUnusable?: boolean
+  allowedValues?: string[]
+  min?: number
+  max?: number
+}
+
+type DatasetSchema = {
+  dataset: DatasetName
+  headerMatch: 'exact' | 'case-insensitive'
+  maxDroppedRowRatio: number
+  columns: ColumnSchema[]
+}
+
+const NYC_LATITUDE_RANGE = { min: 40.4, max: 41 }
+const NYC_LONGITUDE_RANGE = { min: -74.3, max: -73.6 }
+
+export const DATASET_SCHEMAS: Record<DatasetName, DatasetSchema> = {
+  trees: {
+    dataset: 'trees',
+    headerMatch: 'exact',
+    maxDroppedRowRatio: 0.01,
+    columns: [
+      { name: 'tree_id', type: 'string', required: true },
+      { name: 'status', type: 'string', required: true, allowedValues: ['Alive', 'Dead', 'Stump'] },
+      { name: 'sidewalk', type: 'string', required: false },
+      { name: 'problems', type: 'string', required: false },
+      { name: 'latitude', type: 'number', required: true, dropsRowWhenUnusable: true, ...NYC_LATITUDE_RANGE },
+      { name: 'longitude', type: 'number', required: true, dropsRowWhenUnusable: true, ...NYC_LONGITUDE_RANGE },
+      { name: 'spc_common', type: 'string', required: false },
+    ],
+  },
+  neighborhoods: {
+    dataset: 'neighborhoods',
+    headerMatch: 'exact',
+    maxDroppedRowRatio: 0,
+    columns: [
+      { name: 'name', type: 'string', required: true },
+      { name: 'latitude', type: 'number', required: true, dropsRowWhenUnusable: true, ...NYC_LATITUDE_RANGE },
+      { name: 'longitude', type: 'number', required: true, dropsRowWhenUnusable: true, ...NYC_LONGITUDE_RANGE },
+    ],
+  },
+  rent: {
+    dataset: 'rent',
+    headerMatch: 'case-insensitive',
+    maxDroppedRowRatio: 0,
+    columns: [
+      { name: 'areaName', type: 'string', required: true, dropsRowWhenUnusable: true },
+      { name: 'Rent', type: 'number', required: true, dropsRowWhenUnusable: true, min: 1 },
+    ],
+  },
+}
+
+export function validateDatasets({
+  treeCsv,
+  neighborhoodsCsv,
+  rentCsv,
+  neighborhoodBoundariesGeoJson,
+}: ValidationSources): ValidationReport {
+  const boundaries = neighborhoodBoundariesGeoJson ? validateBoundaries(neighborhoodBoundariesGeoJson) : null
+  const results = [
+    validateCsv(treeCsv, DATASET_SCHEMAS.trees),
+    validateCsv(neighborhoodsCsv, DATASET_SCHEMAS.neighborhoods),
+    validateCsv(rentCsv, DATASET_SCHEMAS.rent),
+    ...(boundaries ? [boundaries] : []),
+  ]
+  const unmatchedNeighborhoods = findUnmatchedRentNeighborhoods(
+    [
+      ...parseNeighborhoodData(neighborhoodsCsv).map(({ name, borough }) => ({
+        name,
+        borough,
+        source: 'centroid' as const,
+      })),
+      ...(boundaries?.names ?? []).map(({ name, borough }) => ({ name, borough, source: 'boundary' as const })),
+    ],
+    parseRentData(rentCsv),
+  )
+  const issues = [
+    ...results.flatMap((result) => result.issues),
+    ...unmatchedNeighborhoods.map<ValidationIssue>((neighborhood) => ({
+      dataset: neighborhood.source === 'boundary' ? 'boundaries' : 'neighborhoods',
+      row: null,
+      column: 'name',
+      reason: `"${neighborhood.name}" has no rent match (looked up as "${neighborhood.rentKey}")`,
+      severity: 'warning',
+    })),
+  ]
+
+  return {
+    issues,
+    summaries: results.map((result) => result.summary),
+    unmatchedNeighborhoods,
+    hasErrors: issues.some((issue) => issue.severity === 'error'),
+  }
+}
+
+export function formatValidationIssue(issue: ValidationIssue): string {
+  const location = [issue.row != null ? `row ${issue.row}` : null, issue.column ? `column "${issue.column}"` : null]
+    .filter(Boolean)
+    .join(', ')
+  return `[${issue.severity}] ${issue.dataset}${location ? ` (${location})` : ''}: ${issue.reason}`
+}
+
+function validateCsv(
+  csvData: string,
+  schema: DatasetSchema,
+): { issues: ValidationIssue[]; summary: DatasetValidationSummary } {
+  const issues: ValidationIssue[] = []
+  const addIssue = (
+    severity: ValidationSeverity,
+    reason: string,
+    row: number | null = null,
+    column: string | null = null,
+  ) => issues.push({ dataset: schema.dataset, row, column, reason, severity })
+
+  const [headerRecord, ...records] = parseCsvRecords(csvData)
+  const summary: DatasetValidationSummary = { dataset: schema.dataset, totalRows: 0, keptRows: 0, droppedRows: 0 }
+  if (!headerRecord || records.length === 0) {
+    addIssue('error', 'file has no data rows')
+    return { issues, summary }
+  }
+
+  const headers = headerRecord.map((header) => header.trim())
+  const columnIndices = new Map<ColumnSchema, number>()
+  schema.columns.forEach((column) => {
+    const index = headers.findIndex((header) =>
+      schema.headerMatch === 'exact' ? header === column.name : header.toLowerCase() === column.name.toLowerCase(),
+    )
+    if (index === -1) {
+      addIssue(column.required ? 'error' : 'warning', 'header is missing', 1, column.name)
+      return
+    }
+    columnIndices.set(column, index)
+  })
+
+  const missingRequiredColumn = schema.columns.some((column) => column.required && !columnIndices.has(column))
+  summary.totalRows = records.length
+
+  records.forEach((values, recordIndex) => {
+    const row = recordIndex + 2
+    let dropped = missingRequiredColumn
+
+    if (values.length !== headers.length) {
+      addIssue('warning', `expected ${headers.length} fields, found ${values.length}`, row)
+    }
+
+    columnIndices.forEach((index, column) => {
+      const value = (values[index] ?? '').trim()
+      const problem = getValueProblem(value, column)
+      if (!problem) return
+      if (problem.unusable && column.dropsRowWhenUnusable) {
+        dropped = true
+        addIssue('warning', `${problem.reason}; row dropped`, row, column.name)
+      } else {
+        addIssue('warning', problem.reason, row, column.name)
+      }
+    })
+
+    if (dropped) {
+      summary.droppedRows += 1
+    } else {
+      summary.keptRows += 1
+    }
+  })
+
+  if (summary.keptRows === 0) {
+    addIssue('error', 'no usable rows remain after validation')
+  } else if (summary.droppedRows / summary.totalRows > schema.maxDroppedRowRatio) {
+    addIssue(
+      'error',
+      `${summary.droppedRows} of ${summary.totalRows} rows were dropped ` +
+        `(more than the ${formatPercent(schema.maxDroppedRowRatio)} allowed)`,
+    )
+  }
+
+  return { issues, summary }
+}
+
+// Each feature counts as a row: named polygons are kept, anything else is skipped the way the loader skips it.
+function validateBoundaries(geoJsonData: string): {
+  issues: ValidationIssue[]
+  summary: DatasetValidationSummary
+  names: Pick<NeighborhoodBoundary, 'name' | 'borough'>[]
+} {
+  const summary: DatasetValidationSummary = { dataset: 'boundaries', totalRows: 0, keptRows: 0, droppedRows: 0 }
+  const fail = (reason: string) => ({
+    issues: [{ dataset: 'boundaries' as const, row: null, column: null, reason, severity: 'error' as const }],
+    summary,
+    names: [],
+  })
+
+  let boundaries: NeighborhoodBoundary[]
+  let featureCount: number
+  try {
+    boundaries = parseNeighborhoodBoundaries(geoJsonData)
+    const { features } = JSON.parse(geoJsonData) as { features?: unknown }
+    featureCount = Array.isArray(features) ? features.length : 0
+  } catch {
+    return fail('file is not valid JSON')
+  }
+  if (featureCount === 0) return fail('file is not a GeoJSON FeatureCollection with features')
+
+  summary.totalRows = featureCount
+  summary.keptRows = boundaries.length
+  summary.droppedRows = featureCount - boundaries.length
+  if (boundaries.length === 0) return fail('no feature is a named Polygon or MultiPolygon')
+
+  const issues: ValidationIssue[] =
+    summary.droppedRows > 0
+      ? [
+          {
+            dataset: 'boundaries',
+            row: null,
+            column: null,
+            reason: `${summary.droppedRows} of ${featureCount} features skipped: not a named Polygon or MultiPolygon`,
+            severity: 'warning',
+          },
+        ]
+      : []
+  return { issues, summary, names: boundaries.map(({ name, borough }) => ({ name, borough })) }
+}
+
+function getValueProblem(value: string, column: ColumnSchema): { reason: string; unusable: boolean } | null {
+  if (column.type === 'number') {
+    if (!value) {
+      return column.required ? { reason: 'value is empty and reads as 0', unusable: false } : null
+    }
+    const numericValue = Number(value)
+    if (!Number.isFinite(numericValue)) return { reason: `"${value}" is not a number`, unusable: true }
+    if (column.min != null && numericValue < column.min) {
+      return { reason: `${numericValue} is below ${column.min}`, unusable: false }
+    }
+    if (column.max != null && numericValue > column.max) {
+      return { reason: `${numericValue} is above ${column.max}`, unusable: false }
+    }
+    return null
+  }
+
+  if (!value) {
+    return column.required ? { reason: 'value is empty', unusable: true } : null
+  }
+  if (column.allowedValues && !column.allowedValues.includes(value)) {
+    return { reason: `"${value}" is not one of ${column.allowedValues.join(', ')}`, unusable: false }
+  }
+  return null
+}
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(ratio < 0.01 ? 1 : 0)}%`
+}
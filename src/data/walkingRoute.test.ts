@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { getSeededRandom } from '../session/random.ts'
+import { createTree } from '../test/treeFixtures.ts'
+import { getDistanceInMeters } from './geo.ts'
+import {
+  createRouteGpx,
+  createRouteLinkList,
+  formatRouteDistance,
+  formatWalkingTime,
+  planWalkingRoute,
+  WALKING_SPEED_METERS_PER_SECOND,
+  type RoutePoint,
+} from './walkingRoute.ts'
+
+function createRandomPoints(seed: number, count: number): RoutePoint[] {
+  return Array.from({ length: count }, (_, index) => ({
+    latitude: 40.7 + getSeededRandom(seed, index, 0) * 0.02,
+    longitude: -74 + getSeededRandom(seed, index, 1) * 0.02,
+  }))
+}
+
+// Planar orientation test; a couple of kilometers of Manhattan is flat enough for it.
+function segmentsCross(a: RoutePoint, b: RoutePoint, c: RoutePoint, d: RoutePoint): boolean {
+  const orientation = (p: RoutePoint, q: RoutePoint, r: RoutePoint) =>
+    Math.sign(
+      (q.longitude - p.longitude) * (r.latitude - p.latitude) - (q.latitude - p.latitude) * (r.longitude - p.longitude),
+    )
+  return orientation(a, b, c) * orientation(a, b, d) < 0 && orientation(c, d, a) * orientation(c, d, b) < 0
+}
+
+describe('planWalkingRoute', () => {
+  it('handles no trees and a single tree', () => {
+    expect(planWalkingRoute([])).toEqual({ stops: [], legDistances: [], totalDistance: 0, walkingSeconds: 0 })
+    const point = { latitude: 40.7, longitude: -74 }
+    expect(planWalkingRoute([point])).toEqual({
+      stops: [point],
+      legDistances: [0],
+      totalDistance: 0,
+      walkingSeconds: 0,
+    })
+  })
+
+  it('leaves out points without finite coordinates', () => {
+    const point = { latitude: 40.7, longitude: -74 }
+    const route = planWalkingRoute([
+      { latitude: Number.NaN, longitude: -74 },
+      point,
+      { latitude: 40.7, longitude: Number.POSITIVE_INFINITY },
+    ])
+    expect(route.stops).toEqual([point])
+    expect(route.totalDistance).toBe(0)
+  })
+
+  it('visits every tree exactly once and adds up its legs', () => {
+    const points = createRandomPoints(42, 80)
+    const route = planWalkingRoute(points)
+
+    expect(new Set(route.stops)).toEqual(new Set(points))
+    expect(route.stops).toHaveLength(points.length)
+    route.stops.forEach((stop, index) => {
+      if (index === 0) return
+      const previous = route.stops[index - 1]
+      expect(route.legDistances[index]).toBeCloseTo(
+        getDistanceInMeters(previous.latitude, previous.longitude, stop.latitude, stop.longitude),
+        9,
+      )
+    })
+    const legTotal = route.legDistances.reduce((total, distance) => total + distance, 0)
+    expect(route.totalDistance).toBeCloseTo(legTotal, 9)
+    expect(route.walkingSeconds).toBeCloseTo(route.totalDistance / WALKING_SPEED_METERS_PER_SECOND, 9)
+  })
+
+  it('walks trees along one street from end to end', () => {
+    const street = Array.from({ length: 8 }, (_, index) => ({ latitude: 40.7 + index * 0.001, longitude: -74 }))
+    const shuffled = [street[3], street[6], street[0], street[5], street[1], street[7], street[2], street[4]]
+    const route = planWalkingRoute(shuffled)
+
+    const latitudes = route.stops.map((stop) => stop.latitude)
+    const ascending = [...latitudes].sort((a, b) => a - b)
+    expect([ascending, [...ascending].reverse()]).toContainEqual(latitudes)
+    expect(route.totalDistance).toBeCloseTo(getDistanceInMeters(40.7, -74, 40.707, -74), 6)
+  })
+
+  it('leaves no crossing legs', () => {
+    const route = planWalkingRoute(createRandomPoints(7, 60))
+    const { stops } = route
+    for (let i = 0; i < stops.length - 1; i += 1) {
+      for (let k = i + 2; k < stops.length - 1; k += 1) {
+        expect(segmentsCross(stops[i], stops[i + 1], stops[k], stops[k + 1])).toBe(false)
+      }
+    }
+  })
+})
+
+describe('route exports', () => {
+  const route = planWalkingRoute([
+    createTree({ treeId: '1', latitude: 40.699, longitude: -74 }),
+    createTree({ treeId: '2', latitude: 40.702, longitude: -74, species: 'honeylocust', neighborhood: 'A & B <C>' }),
+    createTree({ treeId: '3', latitude: 40.701, longitude: -74 }),
+  ])
+
+  it('writes one waypoint and one route point per stop, in route order', () => {
+    const gpx = createRouteGpx(route, 'Saturday "care" walk', new Date('2026-05-02T09:00:00Z'))
+
+    expect(gpx.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1"')).toBe(true)
+    expect(gpx).toContain('<metadata><name>Saturday "care" walk</name><time>2026-05-02T09:00:00.000Z</time>')
+    expect(gpx.match(/<wpt /g)).toHaveLength(3)
+    expect([...gpx.matchAll(/<rtept lat="([\d.]+)"/g)].map((match) => Number(match[1]))).toEqual(
+      route.stops.map((stop) => stop.latitude),
+    )
+    expect(gpx).toContain('<desc>honeylocust, A &#38; B &#60;C&#62;</desc>')
+  })
+
+  it('lists each stop with its map link and the distance walked to it', () => {
+    const lines = createRouteLinkList(route, 'Saturday walk').trimEnd().split('\n')
+
+    expect(lines.slice(0, 3)).toEqual([
+      'Saturday walk',
+      `3 trees, ${formatRouteDistance(route.totalDistance)}, about ${formatWalkingTime(route.walkingSeconds)} on foot`,
+      '',
+    ])
+    expect(lines[3]).toBe(`1. tree-#${route.stops[0].treeId} red maple, Lower East Side`)
+    expect(lines[4]).toBe(
+      `   https://www.google.com/maps/search/?api=1&query=${route.stops[0].latitude},${route.stops[0].longitude}`,
+    )
+    expect(lines[5]).toMatch(/^2\. tree-#3 red maple, Lower East Side \(\+222 m\)$/)
+  })
+
+  it('formats distances and walking times', () => {
+    expect(formatRouteDistance(999.4)).toBe('999 m')
+    expect(formatRouteDistance(2345)).toBe('2.35 km')
+    expect(formatWalkingTime(10)).toBe('1 min')
+    expect(formatWalkingTime(25 * 60)).toBe('25 min')
+    expect(formatWalkingTime(65 * 60)).toBe('1 h 05 min')
+  })
+})
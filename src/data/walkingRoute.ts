@@ -0,0 +1,173 @@
+import { getDistanceInMeters, getGoogleMapsUrl } from './geo.ts'
+import type { TreeRecord } from './trees.ts'
+import { escapeXmlText } from './xml.ts'
+
+// A typical unhurried walking pace, about 4.8 km/h.
+export const WALKING_SPEED_METERS_PER_SECOND = 1.34
+// The distance matrix and each 2-opt pass grow with the square of the stop count.
+export const MAX_ROUTE_STOPS = 300
+
+const MAX_TWO_OPT_PASSES = 50
+const MIN_TWO_OPT_GAIN_METERS = 1e-7
+
+export type RoutePoint = {
+  latitude: number
+  longitude: number
+}
+
+export type WalkingRoute<T extends RoutePoint> = {
+  stops: T[]
+  // Distance from the previous stop, 0 for the first one.
+  legDistances: number[]
+  totalDistance: number
+  walkingSeconds: number
+}
+
+// An open path rather than a loop: nearest neighbor from the stop farthest from the group's center, then 2-opt until
+// no reversal shortens it. Distances are straight lines, so the walk along streets runs somewhat longer. Points without
+// finite coordinates, which an imported collection can hold, are left off the route.
+export function planWalkingRoute<T extends RoutePoint>(candidates: T[]): WalkingRoute<T> {
+  const points = candidates.filter((point) => Number.isFinite(point.latitude) && Number.isFinite(point.longitude))
+  const count = points.length
+  const distances = new Float64Array(count * count)
+  points.forEach((origin, i) => {
+    for (let j = i + 1; j < count; j += 1) {
+      const distance = getDistanceInMeters(origin.latitude, origin.longitude, points[j].latitude, points[j].longitude)
+      distances[i * count + j] = distance
+      distances[j * count + i] = distance
+    }
+  })
+  const getDistance = (a: number, b: number) => distances[a * count + b]
+
+  const order = findNearestNeighborOrder(count, getStartIndex(points), getDistance)
+  improveWithTwoOpt(order, getDistance)
+
+  const legDistances = order.map((index, position) => (position === 0 ? 0 : getDistance(order[position - 1], index)))
+  const totalDistance = legDistances.reduce((total, distance) => total + distance, 0)
+  return {
+    stops: order.map((index) => points[index]),
+    legDistances,
+    totalDistance,
+    walkingSeconds: totalDistance / WALKING_SPEED_METERS_PER_SECOND,
+  }
+}
+
+export function formatRouteDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(2)} km`
+}
+
+export function formatWalkingTime(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60))
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`
+}
+
+export function createRouteGpx(route: WalkingRoute<TreeRecord>, name: string, createdAt = new Date()): string {
+  const points = route.stops.map((tree, index) => ({
+    attributes: `lat="${tree.latitude}" lon="${tree.longitude}"`,
+    name: escapeXmlText(`${index + 1}. tree-#${tree.treeId}`),
+    description: escapeXmlText(`${tree.species}, ${tree.neighborhood}`),
+  }))
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Random Roots" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXmlText(name)}</name><time>${createdAt.toISOString()}</time></metadata>`,
+    ...points.map(
+      (point) => `  <wpt ${point.attributes}><name>${point.name}</name><desc>${point.description}</desc></wpt>`,
+    ),
+    `  <rte>`,
+    `    <name>${escapeXmlText(name)}</name>`,
+    ...points.map((point) => `    <rtept ${point.attributes}><name>${point.name}</name></rtept>`),
+    `  </rte>`,
+    '</gpx>',
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+export function createRouteLinkList(route: WalkingRoute<TreeRecord>, name: string): string {
+  const lines = [
+    name,
+    `${route.stops.length} trees, ${formatRouteDistance(route.totalDistance)}, ` +
+      `about ${formatWalkingTime(route.walkingSeconds)} on foot`,
+    '',
+    ...route.stops.map(
+      (tree, index) =>
+        `${index + 1}. tree-#${tree.treeId} ${tree.species}, ${tree.neighborhood}` +
+        `${index > 0 ? ` (+${formatRouteDistance(route.legDistances[index])})` : ''}\n` +
+        `   ${getGoogleMapsUrl(tree.latitude, tree.longitude)}`,
+    ),
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+// Starting from an outlying stop keeps nearest neighbor from stranding the far end of the group until last.
+function getStartIndex(points: RoutePoint[]): number {
+  if (points.length === 0) return -1
+  const centerLatitude = points.reduce((total, point) => total + point.latitude, 0) / points.length
+  const centerLongitude = points.reduce((total, point) => total + point.longitude, 0) / points.length
+  let startIndex = 0
+  let startDistance = -1
+  points.forEach((point, index) => {
+    const distance = getDistanceInMeters(centerLatitude, centerLongitude, point.latitude, point.longitude)
+    if (distance > startDistance) {
+      startIndex = index
+      startDistance = distance
+    }
+  })
+  return startIndex
+}
+
+function findNearestNeighborOrder(
+  count: number,
+  startIndex: number,
+  getDistance: (a: number, b: number) => number,
+): number[] {
+  if (count === 0) return []
+  const visited = new Uint8Array(count)
+  const order = [startIndex]
+  visited[startIndex] = 1
+
+  while (order.length < count) {
+    const current = order[order.length - 1]
+    let nextIndex = -1
+    for (let index = 0; index < count; index += 1) {
+      if (visited[index]) continue
+      if (nextIndex === -1 || getDistance(current, index) < getDistance(current, nextIndex)) nextIndex = index
+    }
+    order.push(nextIndex)
+    visited[nextIndex] = 1
+  }
+
+  return order
+}
+
+// Reversing order[i..k] swaps the edges on either side of the segment. On an open path a segment touching either end
+// has only one neighboring edge, which lets 2-opt move the endpoints too.
+function improveWithTwoOpt(order: number[], getDistance: (a: number, b: number) => number): void {
+  const count = order.length
+  let improved = true
+
+  for (let pass = 0; improved && pass < MAX_TWO_OPT_PASSES; pass += 1) {
+    improved = false
+    for (let i = 0; i < count - 1; i += 1) {
+      for (let k = i + 1; k < count; k += 1) {
+        const hasBefore = i > 0
+        const hasAfter = k < count - 1
+        const currentLength =
+          (hasBefore ? getDistance(order[i - 1], order[i]) : 0) + (hasAfter ? getDistance(order[k], order[k + 1]) : 0)
+        const reversedLength =
+          (hasBefore ? getDistance(order[i - 1], order[k]) : 0) + (hasAfter ? getDistance(order[i], order[k + 1]) : 0)
+        if (reversedLength < currentLength - MIN_TWO_OPT_GAIN_METERS) {
+          reverseSegment(order, i, k)
+          improved = true
+        }
+      }
+    }
+  }
+}
+
+function reverseSegment(order: number[], start: number, end: number): void {
+  for (let left = start, right = end; left < right; left += 1, right -= 1) {
+    ;[order[left], order[right]] = [order[right], order[left]]
+  }
+}
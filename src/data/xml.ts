@@ -0,0 +1,8 @@
+// Numeric character references work in every XML dialect the app writes (SVG, GPX) without relying on named entities.
+export function escapeXmlText(value: string): string {
+  return value.replace(/[<>&]/g, (character) => `&#${character.charCodeAt(0)};`)
+}
+
+export function escapeXmlAttribute(value: string): string {
+  return escapeXmlText(value).replace(/"/g, '&#34;')
+}
@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useRef, type KeyboardEvent } from 'react'
+import { getAccessibilityColor, type ColorScale } from '../colors.ts'
+import { getDistanceInMeters } from '../data/geo.ts'
+import { getGeoBounds } from '../data/geojson.ts'
+import { RENT_INTERPOLATION_STRATEGIES, type RentInterpolationOptions } from '../data/rentInterpolation.ts'
+import { calculateHealthScore, type HealthDeduction } from '../data/scoring.ts'
+import { ACCESSIBILITY_SCORE_MAX, type ScoringModel } from '../data/scoringModels.ts'
+import type { RentReferenceData } from '../data/treeDataset.ts'
+import { findNearestTrees, getTreeScoreBreakdown, type ComponentBreakdown } from '../data/treeDetail.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import { createProjection } from '../map/projection.ts'
+import {
+  formatAffordabilityScore,
+  formatCoordinate,
+  formatDistance,
+  formatNeighborhoodMethod,
+  formatRent,
+  formatTreeFriendsScore,
+} from '../tooltip.ts'
+
+const MINI_MAP_SIZE = 240
+const MINI_MAP_PADDING = 16
+const MINI_MAP_TREE_COUNT = 60
+const MINI_MAP_POINT_RADIUS = 3
+const SCALE_BAR_LENGTHS = [5, 10, 20, 25, 50, 100, 200, 250, 500, 1000]
+
+type TreeDetailDrawerProps = {
+  tree: TreeRecord
+  trees: TreeRecord[]
+  rentReference: RentReferenceData
+  interpolation: RentInterpolationOptions
+  scoringModel: ScoringModel
+  colorScale: ColorScale
+  isPinned: boolean
+  onOpenInMaps: (tree: TreeRecord) => void
+  onShowOnMap: (tree: TreeRecord) => void
+  onPin: (tree: TreeRecord) => void
+  onClose: () => void
+}
+
+export function TreeDetailDrawer({
+  tree,
+  trees,
+  rentReference,
+  interpolation,
+  scoringModel,
+  colorScale,
+  isPinned,
+  onOpenInMaps,
+  onShowOnMap,
+  onPin,
+  onClose,
+}: TreeDetailDrawerProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null)
+  const breakdown = useMemo(
+    () => getTreeScoreBreakdown(tree, trees, rentReference, interpolation, scoringModel),
+    [tree, trees, rentReference, interpolation, scoringModel],
+  )
+  const nearbyTrees = useMemo(() => findNearestTrees(trees, tree, MINI_MAP_TREE_COUNT), [trees, tree])
+  const strategy = RENT_INTERPOLATION_STRATEGIES.find((info) => info.id === interpolation.strategy)
+  const healthScore = calculateHealthScore(tree)
+  const titleId = 'tree-detail-title'
+
+  useEffect(() => {
+    closeButtonRef.current?.focus()
+  }, [tree])
+
+  // Escape only counts while focus is inside the drawer, so closing the onboarding dialog over it leaves it open.
+  const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key !== 'Escape') return
+    event.stopPropagation()
+    onClose()
+  }
+
+  // Not a dialog: the mosaic stays usable while the drawer is open, so it is a labelled landmark rather than modal.
+  return (
+    <aside className="app__detail" aria-labelledby={titleId} onKeyDown={handleKeyDown}>
+      <div className="app__detail-header">
+        <h2 id={titleId} className="app__detail-title">
+          tree-#{tree.treeId || 'unknown'}
+        </h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          className="app__text-button"
+          aria-label="Close tree details"
+          onClick={onClose}
+        >
+          close
+        </button>
+      </div>
+      <div className="app__panel-row">
+        <button type="button" className="app__text-button" onClick={() => onOpenInMaps(tree)}>
+          open in Google Maps
+        </button>
+        <button type="button" className="app__text-button" onClick={() => onShowOnMap(tree)}>
+          show in map view
+        </button>
+        <button type="button" className="app__text-button" disabled={isPinned} onClick={() => onPin(tree)}>
+          {isPinned ? 'pinned' : 'pin'}
+        </button>
+      </div>
+
+      <dl className="app__detail-fields">
+        <dt>Species</dt>
+        <dd>{tree.species || 'unknown'}</dd>
+        <dt>Status</dt>
+        <dd>{tree.status || 'unknown'}</dd>
+        <dt>Sidewalk</dt>
+        <dd>{tree.sidewalk || 'unknown'}</dd>
+        <dt>Problems</dt>
+        <dd>{tree.problems || 'None'}</dd>
+        <dt>Borough</dt>
+        <dd>{tree.borough}</dd>
+        <dt>Neighborhood</dt>
+        <dd>
+          {tree.neighborhood}
+          {formatNeighborhoodMethod(tree)}
+        </dd>
+        <dt>Coordinates</dt>
+        <dd>
+          {formatCoordinate(tree.latitude)}, {formatCoordinate(tree.longitude)}
+        </dd>
+        <dt>Expected rent</dt>
+        <dd>{formatRent(tree.expectedRent)}</dd>
+        <dt>Neighbor distance</dt>
+        <dd>{formatDistance(tree.averageNeighborDistance)} average</dd>
+        <dt>Tree Friends</dt>
+        <dd>{formatTreeFriendsScore(tree.treeFriendsScore)} / 4</dd>
+        <dt>Affordability</dt>
+        <dd>{formatAffordabilityScore(tree.affordabilityScore)} / 4</dd>
+        <dt>Health</dt>
+        <dd>{healthScore} / 3</dd>
+      </dl>
+
+      <section className="app__detail-section" aria-labelledby="tree-detail-accessibility">
+        <h3 id="tree-detail-accessibility" className="app__panel-heading">
+          Accessibility {breakdown.accessibilityScore.toFixed(1)} / {ACCESSIBILITY_SCORE_MAX}
+        </h3>
+        <p className="app__panel-note">{scoringModel.label} scoring model.</p>
+        <table className="app__detail-table">
+          <thead>
+            <tr>
+              <th scope="col">Component</th>
+              <th scope="col">Input</th>
+              <th scope="col">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.components.map((entry) => (
+              <tr key={entry.component.id}>
+                <th scope="row">{entry.component.label}</th>
+                <td>{formatComponentInput(entry)}</td>
+                <td>
+                  {entry.points.toFixed(2)} / {entry.component.weight}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {breakdown.isZeroedAsDead && (
+          <p className="app__panel-note">This model scores dead trees 0, whatever their components add up to.</p>
+        )}
+      </section>
+
+      <section className="app__detail-section" aria-labelledby="tree-detail-rent">
+        <h3 id="tree-detail-rent" className="app__panel-heading">
+          Affordability · {formatRent(tree.expectedRent)}
+        </h3>
+        {strategy && <p className="app__panel-note">{strategy.description}</p>}
+        {breakdown.rentSources.length > 0 ? (
+          <table className="app__detail-table">
+            <thead>
+              <tr>
+                <th scope="col">Neighborhood</th>
+                <th scope="col">Distance</th>
+                <th scope="col">Rent</th>
+                <th scope="col">Weight</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.rentSources.map((source) => (
+                <tr key={source.name}>
+                  <th scope="row">{source.name}</th>
+                  <td>{source.distance != null ? formatDistance(source.distance) : 'inside'}</td>
+                  <td>{formatRent(source.rent)}</td>
+                  <td>{source.weight != null ? `${(source.weight * 100).toFixed(1)}%` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="app__panel-note">No neighborhood with a StreetEasy rent was found.</p>
+        )}
+      </section>
+
+      <section className="app__detail-section" aria-labelledby="tree-detail-friends">
+        <h3 id="tree-detail-friends" className="app__panel-heading">
+          Tree Friends · {formatDistance(tree.averageNeighborDistance)} average
+        </h3>
+        <ol className="app__panel-list">
+          {breakdown.neighbors.map((neighbor, index) => (
+            <li key={index}>
+              {formatDistance(neighbor.distance)} · {neighbor.tree.species || 'unknown'}{' '}
+              <span className="app__panel-muted">tree-#{neighbor.tree.treeId || 'unknown'}</span>
+            </li>
+          ))}
+        </ol>
+        <MiniMap
+          tree={tree}
+          nearbyTrees={nearbyTrees.map((neighbor) => neighbor.tree)}
+          neighborCount={breakdown.neighbors.length}
+          colorScale={colorScale}
+        />
+      </section>
+
+      <section className="app__detail-section" aria-labelledby="tree-detail-health">
+        <h3 id="tree-detail-health" className="app__panel-heading">
+          Health · {healthScore} / 3
+        </h3>
+        {healthScore === 0 ? (
+          <p className="app__panel-note">Dead trees and stumps score 0.</p>
+        ) : breakdown.healthDeductions.length === 0 ? (
+          <p className="app__panel-note">Alive with no sidewalk damage or recorded problems, so nothing is deducted.</p>
+        ) : (
+          <>
+            <p className="app__panel-note">
+              Starts at 3 and loses a point for each of the following, down to 1.
+            </p>
+            <ul className="app__panel-list">
+              {breakdown.healthDeductions.map((deduction) => (
+                <li key={deduction}>- {describeHealthDeduction(tree, deduction)}</li>
+              ))}
+            </ul>
+          </>
+        )}
+      </section>
+    </aside>
+  )
+}
+
+type MiniMapProps = {
+  tree: TreeRecord
+  nearbyTrees: TreeRecord[]
+  neighborCount: number
+  colorScale: ColorScale
+}
+
+function MiniMap({ tree, nearbyTrees, neighborCount, colorScale }: MiniMapProps) {
+  const positions = [tree, ...nearbyTrees].map((point): [number, number] => [point.longitude, point.latitude])
+  const projection = createProjection(getGeoBounds(positions), MINI_MAP_SIZE, MINI_MAP_SIZE, MINI_MAP_PADDING)
+  const [x, y] = projection.project(tree.longitude, tree.latitude)
+  const [originLongitude, originLatitude] = projection.unproject(0, MINI_MAP_SIZE / 2)
+  const [edgeLongitude, edgeLatitude] = projection.unproject(MINI_MAP_SIZE, MINI_MAP_SIZE / 2)
+  const metersPerPixel =
+    getDistanceInMeters(originLatitude, originLongitude, edgeLatitude, edgeLongitude) / MINI_MAP_SIZE
+  const scaleBarMeters =
+    [...SCALE_BAR_LENGTHS].reverse().find((length) => length / metersPerPixel <= MINI_MAP_SIZE / 3) ??
+    SCALE_BAR_LENGTHS[0]
+  const scaleBarWidth = scaleBarMeters / metersPerPixel
+
+  return (
+    <svg
+      className="app__detail-map"
+      viewBox={`0 0 ${MINI_MAP_SIZE} ${MINI_MAP_SIZE}`}
+      role="img"
+      aria-label={
+        `Map of the ${nearbyTrees.length} trees closest to this one, with lines to the ${neighborCount} ` +
+        'behind its Tree Friends score'
+      }
+    >
+      {nearbyTrees.slice(0, neighborCount).map((neighbor, index) => {
+        const [neighborX, neighborY] = projection.project(neighbor.longitude, neighbor.latitude)
+        return <line key={index} x1={x} y1={y} x2={neighborX} y2={neighborY} stroke="#8B7D73" strokeWidth={0.75} />
+      })}
+      {nearbyTrees.map((neighbor, index) => {
+        const [neighborX, neighborY] = projection.project(neighbor.longitude, neighbor.latitude)
+        return (
+          <circle
+            key={index}
+            cx={neighborX}
+            cy={neighborY}
+            r={MINI_MAP_POINT_RADIUS}
+            fill={getAccessibilityColor(neighbor.accessibilityScore, colorScale)}
+          />
+        )
+      })}
+      <circle
+        cx={x}
+        cy={y}
+        r={MINI_MAP_POINT_RADIUS * 1.75}
+        fill={getAccessibilityColor(tree.accessibilityScore, colorScale)}
+        stroke="#FFFFFF"
+        strokeWidth={1.5}
+      />
+      <line
+        x1={MINI_MAP_PADDING}
+        x2={MINI_MAP_PADDING + scaleBarWidth}
+        y1={MINI_MAP_SIZE - 8}
+        y2={MINI_MAP_SIZE - 8}
+        stroke="#FFFFFF"
+      />
+      <text x={MINI_MAP_PADDING + scaleBarWidth + 4} y={MINI_MAP_SIZE - 5} fill="#8B7D73" fontSize={9}>
+        {scaleBarMeters} m
+      </text>
+    </svg>
+  )
+}
+
+function formatComponentInput({ component, input }: ComponentBreakdown): string {
+  if (input == null || !Number.isFinite(input)) return 'missing'
+  switch (component.id) {
+    case 'treeFriends':
+      return `${formatDistance(input)} average`
+    case 'affordability':
+      return `${formatRent(input)} rent`
+    case 'health':
+      return `health ${input} / 3`
+  }
+}
+
+function describeHealthDeduction(tree: TreeRecord, deduction: HealthDeduction): string {
+  switch (deduction) {
+    case 'status':
+      return `Status is ${tree.status || 'missing'} rather than Alive`
+    case 'sidewalk':
+      return `Sidewalk is ${tree.sidewalk || 'missing'} rather than NoDamage`
+    case 'problems':
+      return `Problems recorded: ${tree.problems.split(',').join(', ')}`
+  }
+}
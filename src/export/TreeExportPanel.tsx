@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import type { RentInterpolationOptions } from '../data/rentInterpolation.ts'
+import type { ScoringModel } from '../data/scoringModels.ts'
+import {
+  createTreeCsv,
+  createTreeGeoJson,
+  TREE_EXPORT_FORMATS,
+  type TreeExportFormat,
+  type TreeExportMetadata,
+} from '../data/treeExport.ts'
+import { isTreeFilterActive, type TreeFilters } from '../data/treeFilters.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import { downloadBlob } from '../download.ts'
+
+type TreeExportPanelProps = {
+  trees: TreeRecord[]
+  filteredTrees: TreeRecord[]
+  filters: TreeFilters
+  scoringModel: ScoringModel
+  rentInterpolation: RentInterpolationOptions
+  fileBaseName: string
+}
+
+export function TreeExportPanel({
+  trees,
+  filteredTrees,
+  filters,
+  scoringModel,
+  rentInterpolation,
+  fileBaseName,
+}: TreeExportPanelProps) {
+  const [format, setFormat] = useState<TreeExportFormat>('csv')
+  const [onlyMatching, setOnlyMatching] = useState(true)
+  const isFiltered = isTreeFilterActive(filters) && onlyMatching
+  const exportTrees = isFiltered ? filteredTrees : trees
+
+  const downloadTrees = () => {
+    const exportedAt = new Date()
+    const metadata: TreeExportMetadata = {
+      exportedAt: exportedAt.toISOString(),
+      source: window.location.href,
+      treeCount: exportTrees.length,
+      totalTreeCount: trees.length,
+      filters: isFiltered ? filters : null,
+      scoringModel,
+      rentInterpolation,
+    }
+    const formatInfo = TREE_EXPORT_FORMATS.find((info) => info.id === format)!
+    const content =
+      format === 'csv'
+        ? createTreeCsv(exportTrees, metadata)
+        : JSON.stringify(createTreeGeoJson(exportTrees, metadata))
+    const timestamp = exportedAt.toISOString().replace(/[:.]/g, '-')
+    downloadBlob(
+      new Blob([content], { type: formatInfo.mimeType }),
+      `${fileBaseName}-trees-${timestamp}.${formatInfo.extension}`,
+    )
+  }
+
+  return (
+    <details className="app__panel">
+      <summary className="app__panel-summary">Download data</summary>
+      <div className="app__panel-body">
+        <div className="app__panel-row">
+          <label className="app__control">
+            <span className="app__control-label">Format</span>
+            <select
+              className="app__select"
+              value={format}
+              onChange={(event) => setFormat(event.target.value as TreeExportFormat)}
+            >
+              {TREE_EXPORT_FORMATS.map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="app__control">
+            <input
+              type="checkbox"
+              checked={onlyMatching}
+              disabled={!isTreeFilterActive(filters)}
+              onChange={(event) => setOnlyMatching(event.target.checked)}
+            />
+            <span className="app__control-label">Only trees matching filters</span>
+          </label>
+        </div>
+        <div className="app__panel-row app__panel-row--spread">
+          <p className="app__panel-note">
+            {exportTrees.length.toLocaleString()} trees with every computed score, plus a header recording the{' '}
+            {scoringModel.label.toLowerCase()} scoring model and {rentInterpolation.strategy} rent interpolation.
+          </p>
+          <button
+            type="button"
+            className="app__text-button"
+            disabled={exportTrees.length === 0}
+            onClick={downloadTrees}
+          >
+            download
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,153 @@
+import {
+  EMPTY_TREE_FILTERS,
+  FILTERABLE_SCORES,
+  HEALTH_SCORE_OPTIONS,
+  isTreeFilterActive,
+  type FilterableScore,
+  type ScoreRange,
+  type TreeFilterOption,
+  type TreeFilterOptions,
+  type TreeFilters,
+} from '../data/treeFilters.ts'
+
+type FilterPanelProps = {
+  filters: TreeFilters
+  options: TreeFilterOptions
+  matchingCount: number
+  totalCount: number
+  onFiltersChange: (filters: TreeFilters) => void
+}
+
+export function FilterPanel({ filters, options, matchingCount, totalCount, onFiltersChange }: FilterPanelProps) {
+  const isActive = isTreeFilterActive(filters)
+
+  const updateRange = (id: FilterableScore, bound: keyof ScoreRange, value: string) => {
+    const parsed = value.trim() === '' ? null : Number(value)
+    if (parsed != null && !Number.isFinite(parsed)) return
+    onFiltersChange({
+      ...filters,
+      scoreRanges: { ...filters.scoreRanges, [id]: { ...filters.scoreRanges[id], [bound]: parsed } },
+    })
+  }
+
+  return (
+    <details className="app__panel">
+      <summary className="app__panel-summary">
+        Filters{isActive ? ` · ${matchingCount.toLocaleString()} of ${totalCount.toLocaleString()} trees` : ''}
+      </summary>
+      <div className="app__panel-body">
+        <div className="app__panel-row">
+          <FilterSelect
+            label="Species"
+            value={filters.species}
+            options={options.species}
+            onChange={(species) => onFiltersChange({ ...filters, species })}
+          />
+          <FilterSelect
+            label="Status"
+            value={filters.status}
+            options={options.statuses}
+            onChange={(status) => onFiltersChange({ ...filters, status })}
+          />
+          <label className="app__control">
+            <span className="app__control-label">Health</span>
+            <select
+              className="app__select"
+              value={filters.healthScore ?? ''}
+              onChange={(event) =>
+                onFiltersChange({
+                  ...filters,
+                  healthScore: event.target.value === '' ? null : Number(event.target.value),
+                })
+              }
+            >
+              <option value="">Any</option>
+              {HEALTH_SCORE_OPTIONS.map((score) => (
+                <option key={score} value={score}>
+                  {score}/3
+                </option>
+              ))}
+            </select>
+          </label>
+          <FilterSelect
+            label="Neighborhood"
+            value={filters.neighborhood}
+            options={options.neighborhoods}
+            onChange={(neighborhood) => onFiltersChange({ ...filters, neighborhood })}
+          />
+        </div>
+        <div className="app__panel-row">
+          {FILTERABLE_SCORES.map((score) => (
+            <fieldset key={score.id} className="app__fieldset">
+              <legend className="app__control-label">
+                {score.label} (0-{score.max})
+              </legend>
+              <input
+                className="app__input"
+                type="number"
+                min={0}
+                max={score.max}
+                step={0.5}
+                placeholder="min"
+                aria-label={`Minimum ${score.label.toLowerCase()} score`}
+                value={filters.scoreRanges[score.id].min ?? ''}
+                onChange={(event) => updateRange(score.id, 'min', event.target.value)}
+              />
+              <input
+                className="app__input"
+                type="number"
+                min={0}
+                max={score.max}
+                step={0.5}
+                placeholder="max"
+                aria-label={`Maximum ${score.label.toLowerCase()} score`}
+                value={filters.scoreRanges[score.id].max ?? ''}
+                onChange={(event) => updateRange(score.id, 'max', event.target.value)}
+              />
+            </fieldset>
+          ))}
+        </div>
+        <div className="app__panel-row app__panel-row--spread">
+          <p className="app__panel-note" aria-live="polite">
+            {matchingCount.toLocaleString()} of {totalCount.toLocaleString()} trees match.
+          </p>
+          <button
+            type="button"
+            className="app__text-button"
+            disabled={!isActive}
+            onClick={() => onFiltersChange(EMPTY_TREE_FILTERS)}
+          >
+            Clear filters
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+type FilterSelectProps = {
+  label: string
+  value: string | null
+  options: TreeFilterOption[]
+  onChange: (value: string | null) => void
+}
+
+function FilterSelect({ label, value, options, onChange }: FilterSelectProps) {
+  return (
+    <label className="app__control">
+      <span className="app__control-label">{label}</span>
+      <select
+        className="app__select"
+        value={value ?? ''}
+        onChange={(event) => onChange(event.target.value === '' ? null : event.target.value)}
+      >
+        <option value="">Any</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.value} ({option.count})
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
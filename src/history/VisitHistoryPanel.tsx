@@ -0,0 +1,226 @@
+import { useMemo, useState } from 'react'
+import { getAccessibilityColor, SCORE_BANDS, UNKNOWN_SCORE_COLOR, type ColorScale } from '../colors.ts'
+import { downloadBlob } from '../download.ts'
+import {
+  createVisitHistoryCsv,
+  MAX_VISIT_RECORDS,
+  searchVisitHistory,
+  summarizeVisitSessions,
+  type VisitRecord,
+  type VisitSessionSummary,
+} from './visitHistory.ts'
+
+const DISPLAYED_VISIT_LIMIT = 200
+const DISPLAYED_SESSION_LIMIT = 5
+
+type VisitHistoryPanelProps = {
+  records: VisitRecord[]
+  sessionId: string
+  isEnabled: boolean
+  saveFailed: boolean
+  colorScale: ColorScale
+  canRevisit: (record: VisitRecord) => boolean
+  onEnabledChange: (isEnabled: boolean) => void
+  onRevisit: (record: VisitRecord) => void
+  onOpenInMaps: (record: VisitRecord) => void
+  onClear: () => void
+  onClose: () => void
+}
+
+export function VisitHistoryPanel({
+  records,
+  sessionId,
+  isEnabled,
+  saveFailed,
+  colorScale,
+  canRevisit,
+  onEnabledChange,
+  onRevisit,
+  onOpenInMaps,
+  onClear,
+  onClose,
+}: VisitHistoryPanelProps) {
+  const [query, setQuery] = useState('')
+  const matchingRecords = useMemo(() => searchVisitHistory(records, query), [records, query])
+  const sessions = useMemo(() => summarizeVisitSessions(records), [records])
+  const displayedRecords = matchingRecords.slice(-DISPLAYED_VISIT_LIMIT).reverse()
+  const titleId = 'visit-history-title'
+
+  const downloadRecords = (format: 'csv' | 'json') => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const blob =
+      format === 'csv'
+        ? new Blob([createVisitHistoryCsv(matchingRecords)], { type: 'text/csv' })
+        : new Blob([JSON.stringify(matchingRecords, null, 2)], { type: 'application/json' })
+    downloadBlob(blob, `random-roots-visits-${timestamp}.${format}`)
+  }
+
+  return (
+    <aside className="app__detail app__detail--left" aria-labelledby={titleId}>
+      <div className="app__detail-header">
+        <h2 id={titleId} className="app__detail-title">
+          visit history
+        </h2>
+        <button type="button" className="app__text-button" aria-label="Close visit history" onClick={onClose}>
+          close
+        </button>
+      </div>
+      <label className="app__control">
+        <input type="checkbox" checked={isEnabled} onChange={(event) => onEnabledChange(event.target.checked)} />
+        <span>Record each tree as it vanishes from the mosaic</span>
+      </label>
+      <p className="app__panel-note">
+        {records.length.toLocaleString()} trees recorded. The log stays in this browser and keeps the newest{' '}
+        {MAX_VISIT_RECORDS.toLocaleString()}.
+        {saveFailed && ' It could not be saved, so it will be lost when the page closes.'}
+      </p>
+
+      <section className="app__detail-section">
+        <h3 className="app__control-label">Sessions</h3>
+        {sessions.length === 0 ? (
+          <p className="app__panel-note">No trees recorded yet.</p>
+        ) : (
+          sessions
+            .slice(0, DISPLAYED_SESSION_LIMIT)
+            .map((session) => (
+              <SessionSummary
+                key={session.sessionId}
+                session={session}
+                isCurrent={session.sessionId === sessionId}
+                colorScale={colorScale}
+              />
+            ))
+        )}
+      </section>
+
+      <section className="app__detail-section">
+        <h3 className="app__control-label">Trees</h3>
+        <input
+          className="app__input app__history-search"
+          type="search"
+          placeholder="species, neighborhood or id"
+          aria-label="Search visit history"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+        />
+        <div className="app__panel-row">
+          <button
+            type="button"
+            className="app__text-button"
+            disabled={matchingRecords.length === 0}
+            onClick={() => downloadRecords('csv')}
+          >
+            download CSV
+          </button>
+          <button
+            type="button"
+            className="app__text-button"
+            disabled={matchingRecords.length === 0}
+            onClick={() => downloadRecords('json')}
+          >
+            download JSON
+          </button>
+          <button type="button" className="app__text-button" disabled={records.length === 0} onClick={onClear}>
+            clear history
+          </button>
+        </div>
+        {matchingRecords.length > displayedRecords.length && (
+          <p className="app__panel-note">
+            Showing the newest {displayedRecords.length} of {matchingRecords.length.toLocaleString()} matches.
+          </p>
+        )}
+        {displayedRecords.length > 0 && (
+          <table className="app__detail-table">
+            <thead>
+              <tr>
+                <th scope="col">Seen</th>
+                <th scope="col">Tree</th>
+                <th scope="col">Score</th>
+                <th scope="col">
+                  <span className="app__sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {displayedRecords.map((record, index) => (
+                <tr key={`${record.seenAt}-${index}`}>
+                  <td title={`row ${record.row + 1}, column ${record.column + 1}`}>
+                    {new Date(record.seenAt).toLocaleTimeString()}
+                  </td>
+                  <td>
+                    tree-#{record.treeId} {record.species}
+                    <br />
+                    {record.neighborhood}, {record.borough}
+                  </td>
+                  <td>
+                    <span
+                      className="app__history-swatch"
+                      style={{ backgroundColor: getAccessibilityColor(record.accessibilityScore, colorScale) }}
+                    />
+                    {record.accessibilityScore != null ? record.accessibilityScore.toFixed(2) : 'n/a'}
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="app__text-button"
+                      disabled={!canRevisit(record)}
+                      title={canRevisit(record) ? undefined : 'This tree is not in the loaded dataset.'}
+                      onClick={() => onRevisit(record)}
+                    >
+                      details
+                    </button>
+                    <br />
+                    <button type="button" className="app__text-button" onClick={() => onOpenInMaps(record)}>
+                      maps
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </aside>
+  )
+}
+
+type SessionSummaryProps = {
+  session: VisitSessionSummary
+  isCurrent: boolean
+  colorScale: ColorScale
+}
+
+// Band counts use the palette's band colors even in gradient mode, since the bands are what get counted.
+function SessionSummary({ session, isCurrent, colorScale }: SessionSummaryProps) {
+  const segments = [
+    ...SCORE_BANDS.map((band) => ({
+      label: band.label,
+      count: session.bandCounts[band.id],
+      color: colorScale.palette.bands[band.id],
+    })),
+    { label: 'Unscored', count: session.unscoredCount, color: UNKNOWN_SCORE_COLOR },
+  ].filter((segment) => segment.count > 0)
+
+  return (
+    <div className="app__history-session">
+      <p className="app__panel-note">
+        {isCurrent ? 'This session' : new Date(session.startedAt).toLocaleString()} ·{' '}
+        {session.visitCount.toLocaleString()} trees ({session.uniqueTreeCount.toLocaleString()} different) · mean{' '}
+        {session.meanAccessibility != null ? session.meanAccessibility.toFixed(2) : 'n/a'}
+      </p>
+      <div
+        className="app__history-bands"
+        role="img"
+        aria-label={segments.map((segment) => `${segment.label}: ${segment.count}`).join(', ')}
+      >
+        {segments.map((segment) => (
+          <span
+            key={segment.label}
+            title={`${segment.label}: ${segment.count}`}
+            style={{ flexGrow: segment.count, backgroundColor: segment.color }}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
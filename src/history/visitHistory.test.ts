@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTree } from '../test/treeFixtures.ts'
+import {
+  createVisitHistoryCsv,
+  createVisitRecord,
+  MAX_VISIT_RECORDS,
+  readVisitHistory,
+  searchVisitHistory,
+  summarizeVisitSessions,
+  writeVisitHistory,
+  type VisitRecord,
+} from './visitHistory.ts'
+
+const HISTORY_STORAGE_KEY = 'random-roots:visit-history'
+
+function createVisit(
+  sessionId: string,
+  seenAt: string,
+  overrides: Parameters<typeof createTree>[0] = {},
+  cellIndex = 7,
+): VisitRecord {
+  return createVisitRecord(createTree(overrides), cellIndex, 5, sessionId, 'original', new Date(seenAt))
+}
+
+const visits = [
+  createVisit('morning', '2026-05-01T09:00:00.000Z', { treeId: '1', accessibilityScore: 9 }),
+  createVisit('morning', '2026-05-01T09:01:00.000Z', { treeId: '2', accessibilityScore: 5, species: 'pin oak' }),
+  createVisit('morning', '2026-05-01T09:02:00.000Z', { treeId: '1', accessibilityScore: 9 }),
+  createVisit('evening', '2026-05-01T18:00:00.000Z', {
+    treeId: '3',
+    accessibilityScore: null,
+    borough: 'Bronx',
+    neighborhood: 'Mott Haven',
+  }),
+]
+
+describe('createVisitRecord', () => {
+  it('places the cell in its row and column', () => {
+    expect(visits[0]).toMatchObject({ cellIndex: 7, row: 1, column: 2, seenAt: '2026-05-01T09:00:00.000Z' })
+  })
+})
+
+describe('searchVisitHistory', () => {
+  it('needs every term somewhere in the id, species, status, neighborhood or borough', () => {
+    expect(searchVisitHistory(visits, '  ')).toBe(visits)
+    expect(searchVisitHistory(visits, 'OAK').map((visit) => visit.treeId)).toEqual(['2'])
+    expect(searchVisitHistory(visits, 'bronx mott').map((visit) => visit.treeId)).toEqual(['3'])
+    expect(searchVisitHistory(visits, 'alive manhattan 1').map((visit) => visit.treeId)).toEqual(['1', '1'])
+    expect(searchVisitHistory(visits, 'oak bronx')).toEqual([])
+  })
+})
+
+describe('summarizeVisitSessions', () => {
+  it('counts visits, unique trees and bands per session, newest session first', () => {
+    const [evening, morning] = summarizeVisitSessions(visits)
+
+    expect(morning).toEqual({
+      sessionId: 'morning',
+      startedAt: '2026-05-01T09:00:00.000Z',
+      endedAt: '2026-05-01T09:02:00.000Z',
+      visitCount: 3,
+      uniqueTreeCount: 2,
+      meanAccessibility: 23 / 3,
+      bandCounts: { excellent: 2, great: 0, fair: 1, poor: 0 },
+      unscoredCount: 0,
+    })
+    expect(evening.meanAccessibility).toBeNull()
+    expect(evening.unscoredCount).toBe(1)
+    expect(evening.bandCounts).toEqual({ excellent: 0, great: 0, fair: 0, poor: 0 })
+  })
+})
+
+describe('createVisitHistoryCsv', () => {
+  it('writes a header, one line per visit and quotes text that needs it', () => {
+    const visit = createVisit('morning', '2026-05-01T09:00:00.000Z', {
+      neighborhood: "Hell's Kitchen, \"Clinton\"",
+      affordabilityScore: null,
+    })
+    const lines = createVisitHistoryCsv([visit]).split('\n')
+
+    expect(lines).toHaveLength(3)
+    expect(lines[0]).toBe(
+      'sessionId,seenAt,cellIndex,row,column,treeId,species,status,borough,neighborhood,latitude,longitude,' +
+        'scoringModelId,accessibilityScore,treeFriendsScore,affordabilityScore',
+    )
+    expect(lines[1]).toBe(
+      'morning,2026-05-01T09:00:00.000Z,7,1,2,180683,red maple,Alive,Manhattan,"Hell\'s Kitchen, ""Clinton""",' +
+        '40.72309177,-73.98421522,original,9.81,9.47,',
+    )
+    expect(lines[2]).toBe('')
+  })
+})
+
+describe('stored visit history', () => {
+  const storage = new Map<string, string>()
+
+  beforeEach(() => {
+    storage.clear()
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('round-trips records and removes the key for an empty log', () => {
+    expect(writeVisitHistory(visits)).toBe(true)
+    expect(readVisitHistory()).toEqual(visits)
+
+    expect(writeVisitHistory([])).toBe(true)
+    expect(storage.has(HISTORY_STORAGE_KEY)).toBe(false)
+    expect(readVisitHistory()).toEqual([])
+  })
+
+  it(`keeps only the newest ${MAX_VISIT_RECORDS} records`, () => {
+    const records = Array.from({ length: MAX_VISIT_RECORDS + 3 }, (_, index) => ({
+      ...visits[0],
+      treeId: String(index),
+    }))
+    writeVisitHistory(records)
+
+    const stored = readVisitHistory()
+    expect(stored).toHaveLength(MAX_VISIT_RECORDS)
+    expect(stored[0].treeId).toBe('3')
+    expect(stored[stored.length - 1].treeId).toBe(String(MAX_VISIT_RECORDS + 2))
+  })
+
+  it('drops stored entries that are missing a field or have the wrong type', () => {
+    const withoutSpecies: Partial<VisitRecord> = { ...visits[0] }
+    delete withoutSpecies.species
+    storage.set(
+      HISTORY_STORAGE_KEY,
+      JSON.stringify([
+        visits[0],
+        withoutSpecies,
+        { ...visits[0], row: 'first' },
+        { ...visits[0], column: -1 },
+        { ...visits[0], accessibilityScore: '9.81' },
+        { ...visits[0], borough: 'Atlantis' },
+        { ...visits[0], latitude: null },
+        null,
+        'visit',
+        visits[3],
+      ]),
+    )
+
+    expect(readVisitHistory()).toEqual([visits[0], visits[3]])
+  })
+
+  it('reads an unreadable log as empty', () => {
+    storage.set(HISTORY_STORAGE_KEY, '{not json')
+    expect(readVisitHistory()).toEqual([])
+    storage.set(HISTORY_STORAGE_KEY, '{"records":[]}')
+    expect(readVisitHistory()).toEqual([])
+  })
+})
@@ -0,0 +1,219 @@
+import { getScoreBand, SCORE_BANDS, type ScoreBand } from '../colors.ts'
+import { isBorough, type Borough } from '../data/boroughs.ts'
+import { formatCsvRecord } from '../data/csv.ts'
+import type { TreeRecord } from '../data/trees.ts'
+
+const HISTORY_STORAGE_KEY = 'random-roots:visit-history'
+const HISTORY_ENABLED_STORAGE_KEY = 'random-roots:visit-history-enabled'
+
+// A record is about 400 characters of JSON, so a full log is about two million characters. That fits the usual 5 MB
+// localStorage quota next to the collections, and a write that still fails is reported rather than lost silently.
+export const MAX_VISIT_RECORDS = 5000
+
+export type VisitRecord = {
+  sessionId: string
+  seenAt: string
+  cellIndex: number
+  row: number
+  column: number
+  treeId: string
+  species: string
+  status: string
+  borough: Borough
+  neighborhood: string
+  latitude: number
+  longitude: number
+  scoringModelId: string
+  accessibilityScore: number | null
+  treeFriendsScore: number
+  affordabilityScore: number | null
+}
+
+export type VisitSessionSummary = {
+  sessionId: string
+  startedAt: string
+  endedAt: string
+  visitCount: number
+  uniqueTreeCount: number
+  meanAccessibility: number | null
+  bandCounts: Record<ScoreBand, number>
+  unscoredCount: number
+}
+
+const VISIT_RECORD_FIELDS: (keyof VisitRecord)[] = [
+  'sessionId',
+  'seenAt',
+  'cellIndex',
+  'row',
+  'column',
+  'treeId',
+  'species',
+  'status',
+  'borough',
+  'neighborhood',
+  'latitude',
+  'longitude',
+  'scoringModelId',
+  'accessibilityScore',
+  'treeFriendsScore',
+  'affordabilityScore',
+]
+
+export function createVisitSessionId(startedAt = new Date()): string {
+  return `${startedAt.getTime().toString(36)}-${Math.floor(Math.random() * 36 ** 4).toString(36)}`
+}
+
+export function createVisitRecord(
+  tree: TreeRecord,
+  cellIndex: number,
+  columns: number,
+  sessionId: string,
+  scoringModelId: string,
+  seenAt = new Date(),
+): VisitRecord {
+  return {
+    sessionId,
+    seenAt: seenAt.toISOString(),
+    cellIndex,
+    row: Math.floor(cellIndex / columns),
+    column: cellIndex % columns,
+    treeId: tree.treeId,
+    species: tree.species,
+    status: tree.status,
+    borough: tree.borough,
+    neighborhood: tree.neighborhood,
+    latitude: tree.latitude,
+    longitude: tree.longitude,
+    scoringModelId,
+    accessibilityScore: tree.accessibilityScore,
+    treeFriendsScore: tree.treeFriendsScore,
+    affordabilityScore: tree.affordabilityScore,
+  }
+}
+
+// Storage can be unavailable (private browsing, blocked cookies) or hold a log from an older build, so anything
+// unreadable counts as an empty history.
+export function readVisitHistory(): VisitRecord[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]') as unknown
+    return Array.isArray(stored) ? stored.filter(isVisitRecord) : []
+  } catch {
+    return []
+  }
+}
+
+export function writeVisitHistory(records: VisitRecord[]): boolean {
+  try {
+    if (records.length === 0) {
+      window.localStorage.removeItem(HISTORY_STORAGE_KEY)
+    } else {
+      window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(records.slice(-MAX_VISIT_RECORDS)))
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function readVisitHistoryEnabled(): boolean {
+  try {
+    return window.localStorage.getItem(HISTORY_ENABLED_STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export function writeVisitHistoryEnabled(isEnabled: boolean): void {
+  try {
+    window.localStorage.setItem(HISTORY_ENABLED_STORAGE_KEY, String(isEnabled))
+  } catch {
+    // The preference then lasts until the page closes.
+  }
+}
+
+// Every whitespace-separated term has to appear in the tree id, species, status, neighborhood or borough.
+export function searchVisitHistory(records: VisitRecord[], query: string): VisitRecord[] {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) return records
+  return records.filter((record) => {
+    const text = [record.treeId, record.species, record.status, record.neighborhood, record.borough]
+      .join(' ')
+      .toLowerCase()
+    return terms.every((term) => text.includes(term))
+  })
+}
+
+// Sessions come back newest first, in the order of their first visit.
+export function summarizeVisitSessions(records: VisitRecord[]): VisitSessionSummary[] {
+  const sessions = new Map<string, VisitRecord[]>()
+  records.forEach((record) => {
+    const session = sessions.get(record.sessionId)
+    if (session) {
+      session.push(record)
+    } else {
+      sessions.set(record.sessionId, [record])
+    }
+  })
+
+  return [...sessions]
+    .map(([sessionId, visits]) => {
+      const bandCounts = Object.fromEntries(SCORE_BANDS.map((band) => [band.id, 0])) as Record<ScoreBand, number>
+      const scores = visits
+        .map((visit) => visit.accessibilityScore)
+        .filter((score): score is number => score != null && Number.isFinite(score))
+      scores.forEach((score) => {
+        bandCounts[getScoreBand(score).id] += 1
+      })
+      const seenTimes = visits.map((visit) => visit.seenAt).sort()
+
+      return {
+        sessionId,
+        startedAt: seenTimes[0],
+        endedAt: seenTimes[seenTimes.length - 1],
+        visitCount: visits.length,
+        uniqueTreeCount: new Set(visits.map((visit) => visit.treeId)).size,
+        meanAccessibility: scores.length > 0 ? scores.reduce((total, score) => total + score, 0) / scores.length : null,
+        bandCounts,
+        unscoredCount: visits.length - scores.length,
+      }
+    })
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
+
+export function createVisitHistoryCsv(records: VisitRecord[]): string {
+  const lines = [
+    formatCsvRecord(VISIT_RECORD_FIELDS),
+    ...records.map((record) => formatCsvRecord(VISIT_RECORD_FIELDS.map((field) => record[field]))),
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+// Anything the panel renders or the CSV writes has to be there with the right type; a record missing one is dropped.
+function isVisitRecord(value: unknown): value is VisitRecord {
+  if (typeof value !== 'object' || value == null) return false
+  const record = value as Record<keyof VisitRecord, unknown>
+  const textFields = [
+    record.sessionId,
+    record.seenAt,
+    record.treeId,
+    record.species,
+    record.status,
+    record.neighborhood,
+    record.scoringModelId,
+  ]
+  const integerFields = [record.cellIndex, record.row, record.column]
+  const numberFields = [record.latitude, record.longitude, record.treeFriendsScore]
+  const optionalNumberFields = [record.accessibilityScore, record.affordabilityScore]
+  return (
+    textFields.every((field) => typeof field === 'string') &&
+    integerFields.every((field) => Number.isInteger(field) && (field as number) >= 0) &&
+    numberFields.every(isFiniteNumber) &&
+    optionalNumberFields.every((field) => field === null || isFiniteNumber(field)) &&
+    typeof record.borough === 'string' &&
+    isBorough(record.borough)
+  )
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
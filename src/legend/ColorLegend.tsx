@@ -0,0 +1,81 @@
+import {
+  COLOR_MODES,
+  COLOR_PALETTES,
+  getGradientStops,
+  SCORE_BANDS,
+  UNKNOWN_SCORE_COLOR,
+  type ColorMode,
+  type ColorPaletteId,
+  type ColorScale,
+} from '../colors.ts'
+import { ACCESSIBILITY_SCORE_MAX } from '../data/scoringModels.ts'
+
+type ColorLegendProps = {
+  colorScale: ColorScale
+  onPaletteChange: (paletteId: ColorPaletteId) => void
+  onModeChange: (mode: ColorMode) => void
+}
+
+export function ColorLegend({ colorScale, onPaletteChange, onModeChange }: ColorLegendProps) {
+  const { palette, mode } = colorScale
+  const lowestBand = SCORE_BANDS[SCORE_BANDS.length - 1].label.toLowerCase()
+  const highestBand = SCORE_BANDS[0].label.toLowerCase()
+
+  return (
+    <section className="app__legend" aria-label="Accessibility score legend">
+      <div className="app__panel-row app__panel-row--spread">
+        <span className="app__control-label">Accessibility (0-{ACCESSIBILITY_SCORE_MAX})</span>
+        <div className="app__panel-row">
+          <label className="app__control">
+            <span className="app__control-label">Palette</span>
+            <select
+              className="app__select"
+              value={palette.id}
+              onChange={(event) => onPaletteChange(event.target.value as ColorPaletteId)}
+            >
+              {COLOR_PALETTES.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label} ({option.kind}{option.colorblindSafe ? ', colorblind-safe' : ''})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="app__control">
+            <span className="app__control-label">Scale</span>
+            <select
+              className="app__select"
+              value={mode}
+              onChange={(event) => onModeChange(event.target.value as ColorMode)}
+            >
+              {COLOR_MODES.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+      {mode === 'gradient' && (
+        <div
+          className="app__legend-gradient"
+          role="img"
+          aria-label={`${palette.label} gradient from ${lowestBand} to ${highestBand}`}
+          style={{ background: `linear-gradient(to right, ${getGradientStops(palette).join(', ')})` }}
+        />
+      )}
+      <ul className="app__legend-list">
+        {SCORE_BANDS.map((band, index) => (
+          <li key={band.id} className="app__legend-item">
+            <span className="app__legend-swatch" style={{ backgroundColor: palette.bands[band.id] }} />
+            {band.label} {band.min}-{index === 0 ? ACCESSIBILITY_SCORE_MAX : SCORE_BANDS[index - 1].min}
+          </li>
+        ))}
+        <li className="app__legend-item">
+          <span className="app__legend-swatch" style={{ backgroundColor: UNKNOWN_SCORE_COLOR }} />
+          No score
+        </li>
+      </ul>
+    </section>
+  )
+}
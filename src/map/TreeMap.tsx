@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from 'react'
+import { getAccessibilityColor, type ColorScale } from '../colors.ts'
+import { getGeoBounds, type GeoBounds } from '../data/geojson.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import type { TooltipAnchor } from '../tooltip.ts'
+import { MANHATTAN_OUTLINE_RINGS } from './manhattanOutline.ts'
+import { createPointIndex, findNearestPoint } from './pointIndex.ts'
+import { createProjection, INITIAL_MAP_VIEW, zoomMapView, type MapView } from './projection.ts'
+
+const MAP_PADDING = 16
+const MAP_BACKGROUND_COLOR = '#1E110B'
+const LAND_COLOR = '#160B06'
+const SHORELINE_COLOR = '#312013'
+const HOVER_COLOR = '#FFFFFF'
+const HIGHLIGHT_COLOR = '#FFD166'
+const POINT_SIZE_PX = 2
+const HOVER_RADIUS_PX = 6
+const POINT_INDEX_CELL_SIZE = 8
+const MIN_SCALE = 1
+const MAX_SCALE = 64
+const HIGHLIGHT_SCALE = 8
+const WHEEL_ZOOM_FACTOR = 1.2
+const BUTTON_ZOOM_FACTOR = 1.5
+const DRAG_THRESHOLD_PX = 3
+
+const OUTLINE_BOUNDS = getGeoBounds(MANHATTAN_OUTLINE_RINGS.flat())
+
+type DragState = {
+  pointerId: number
+  startX: number
+  startY: number
+  startView: MapView
+  moved: boolean
+}
+
+type TreeMapProps = {
+  trees: TreeRecord[]
+  highlightedTree: TreeRecord | null
+  colorScale: ColorScale
+  onTooltipUpdate: (anchor: TooltipAnchor, tree: TreeRecord) => void
+  onTooltipClear: () => void
+  onTreeSelect: (tree: TreeRecord) => void
+}
+
+export function TreeMap({
+  trees,
+  highlightedTree,
+  colorScale,
+  onTooltipUpdate,
+  onTooltipClear,
+  onTreeSelect,
+}: TreeMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const centeredTreeRef = useRef<TreeRecord | null>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [view, setView] = useState<MapView>(INITIAL_MAP_VIEW)
+  const [hoveredIndex, setHoveredIndex] = useState(-1)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const mapBounds = useMemo(() => getMapBounds(trees), [trees])
+  const projection = useMemo(
+    () => createProjection(mapBounds, size.width, size.height, MAP_PADDING),
+    [mapBounds, size.width, size.height],
+  )
+
+  const pointIndex = useMemo(() => {
+    const xs = new Float64Array(trees.length)
+    const ys = new Float64Array(trees.length)
+    trees.forEach((tree, index) => {
+      const [x, y] = projection.project(tree.longitude, tree.latitude)
+      xs[index] = x
+      ys[index] = y
+    })
+    return createPointIndex(xs, ys, POINT_INDEX_CELL_SIZE)
+  }, [trees, projection])
+
+  const colorGroups = useMemo(() => {
+    const groups = new Map<string, number[]>()
+    trees.forEach((tree, index) => {
+      const color = getAccessibilityColor(tree.accessibilityScore, colorScale)
+      const group = groups.get(color)
+      if (group) {
+        group.push(index)
+      } else {
+        groups.set(color, [index])
+      }
+    })
+    return groups
+  }, [trees, colorScale])
+
+  const highlightedIndex = highlightedTree ? trees.findIndex((tree) => tree.treeId === highlightedTree.treeId) : -1
+
+  useEffect(() => {
+    if (!highlightedTree || highlightedIndex === -1 || size.width === 0) return
+    if (centeredTreeRef.current === highlightedTree) return
+    centeredTreeRef.current = highlightedTree
+    const scale = HIGHLIGHT_SCALE
+    setView({
+      scale,
+      x: size.width / 2 - pointIndex.xs[highlightedIndex] * scale,
+      y: size.height / 2 - pointIndex.ys[highlightedIndex] * scale,
+    })
+  }, [highlightedTree, highlightedIndex, pointIndex, size.width, size.height])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || size.width === 0 || size.height === 0) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * pixelRatio)
+    canvas.height = Math.round(size.height * pixelRatio)
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    context.fillStyle = MAP_BACKGROUND_COLOR
+    context.fillRect(0, 0, size.width, size.height)
+
+    context.beginPath()
+    MANHATTAN_OUTLINE_RINGS.forEach((ring) => {
+      ring.forEach(([longitude, latitude], index) => {
+        const [x, y] = projection.project(longitude, latitude)
+        const screenX = x * view.scale + view.x
+        const screenY = y * view.scale + view.y
+        if (index === 0) {
+          context.moveTo(screenX, screenY)
+        } else {
+          context.lineTo(screenX, screenY)
+        }
+      })
+      context.closePath()
+    })
+    context.fillStyle = LAND_COLOR
+    context.fill('evenodd')
+    context.strokeStyle = SHORELINE_COLOR
+    context.lineWidth = 1
+    context.stroke()
+
+    const pointSize = POINT_SIZE_PX * Math.max(1, Math.sqrt(view.scale) / 2)
+    const halfPoint = pointSize / 2
+    colorGroups.forEach((indices, color) => {
+      context.fillStyle = color
+      indices.forEach((index) => {
+        const screenX = pointIndex.xs[index] * view.scale + view.x
+        const screenY = pointIndex.ys[index] * view.scale + view.y
+        if (screenX < -pointSize || screenY < -pointSize || screenX > size.width || screenY > size.height) return
+        context.fillRect(screenX - halfPoint, screenY - halfPoint, pointSize, pointSize)
+      })
+    })
+
+    const drawRing = (index: number, radius: number, color: string, lineWidth: number) => {
+      if (index === -1) return
+      context.beginPath()
+      context.arc(
+        pointIndex.xs[index] * view.scale + view.x,
+        pointIndex.ys[index] * view.scale + view.y,
+        pointSize + radius,
+        0,
+        Math.PI * 2,
+      )
+      context.strokeStyle = color
+      context.lineWidth = lineWidth
+      context.stroke()
+    }
+    drawRing(hoveredIndex, 3, HOVER_COLOR, 1)
+    drawRing(highlightedIndex, 6, HIGHLIGHT_COLOR, 2)
+  }, [colorGroups, highlightedIndex, hoveredIndex, pointIndex, projection, size.width, size.height, view])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      const factor = event.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR
+      setView((current) =>
+        zoomMapView(current, factor, event.clientX - rect.left, event.clientY - rect.top, MIN_SCALE, MAX_SCALE),
+      )
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const findTreeAt = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = (event.clientX - rect.left - view.x) / view.scale
+    const y = (event.clientY - rect.top - view.y) / view.scale
+    return findNearestPoint(pointIndex, x, y, HOVER_RADIUS_PX / view.scale)
+  }
+
+  const clearHover = () => {
+    setHoveredIndex(-1)
+    onTooltipClear()
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startView: view,
+      moved: false,
+    }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (drag && drag.pointerId === event.pointerId) {
+      const deltaX = event.clientX - drag.startX
+      const deltaY = event.clientY - drag.startY
+      if (!drag.moved && Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD_PX) return
+      drag.moved = true
+      clearHover()
+      setView({ ...drag.startView, x: drag.startView.x + deltaX, y: drag.startView.y + deltaY })
+      return
+    }
+
+    const index = findTreeAt(event)
+    setHoveredIndex(index)
+    if (index === -1) {
+      onTooltipClear()
+    } else {
+      onTooltipUpdate(event, trees[index])
+    }
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || drag.moved) return
+    const index = findTreeAt(event)
+    if (index !== -1) {
+      onTreeSelect(trees[index])
+    }
+  }
+
+  const zoomFromCenter = (factor: number) => {
+    setView((current) => zoomMapView(current, factor, size.width / 2, size.height / 2, MIN_SCALE, MAX_SCALE))
+  }
+
+  return (
+    <div className="app__map" ref={containerRef}>
+      <canvas
+        ref={canvasRef}
+        className="app__map-canvas"
+        role="img"
+        aria-label={`Map of ${trees.length} trees colored by accessibility`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          dragRef.current = null
+        }}
+        onPointerLeave={clearHover}
+      />
+      <div className="app__map-controls">
+        <button
+          type="button"
+          className="app__map-button"
+          aria-label="Zoom in"
+          onClick={() => zoomFromCenter(BUTTON_ZOOM_FACTOR)}
+        >
+          +
+        </button>
+        <button
+          type="button"
+          className="app__map-button"
+          aria-label="Zoom out"
+          onClick={() => zoomFromCenter(1 / BUTTON_ZOOM_FACTOR)}
+        >
+          −
+        </button>
+        <button
+          type="button"
+          className="app__map-button"
+          aria-label="Reset map view"
+          onClick={() => setView(INITIAL_MAP_VIEW)}
+        >
+          ⌂
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Only Manhattan has an outline to draw. Trees from other boroughs widen the view so they stay on screen.
+function getMapBounds(trees: TreeRecord[]): GeoBounds {
+  const treeBounds = getGeoBounds(
+    trees
+      .filter((tree) => Number.isFinite(tree.latitude) && Number.isFinite(tree.longitude))
+      .map((tree) => [tree.longitude, tree.latitude]),
+  )
+  return {
+    minLongitude: Math.min(OUTLINE_BOUNDS.minLongitude, treeBounds.minLongitude),
+    maxLongitude: Math.max(OUTLINE_BOUNDS.maxLongitude, treeBounds.maxLongitude),
+    minLatitude: Math.min(OUTLINE_BOUNDS.minLatitude, treeBounds.minLatitude),
+    maxLatitude: Math.max(OUTLINE_BOUNDS.maxLatitude, treeBounds.maxLatitude),
+  }
+}
@@ -0,0 +1,8 @@
+import outlineGeoJson from '../../Data/ManhattanOutline.geojson?raw'
+import { getPolygonRings, type GeoJsonFeatureCollection, type GeoJsonPosition } from '../data/geojson.ts'
+
+const outline = JSON.parse(outlineGeoJson) as GeoJsonFeatureCollection
+
+export const MANHATTAN_OUTLINE_RINGS: GeoJsonPosition[][] = outline.features.flatMap((feature) =>
+  getPolygonRings(feature.geometry).flat(),
+)
@@ -0,0 +1,47 @@
+export type PointIndex = {
+  cellSize: number
+  xs: Float64Array
+  ys: Float64Array
+  cells: Map<string, number[]>
+}
+
+export function createPointIndex(xs: Float64Array, ys: Float64Array, cellSize: number): PointIndex {
+  const cells = new Map<string, number[]>()
+  for (let index = 0; index < xs.length; index += 1) {
+    const key = getCellKey(Math.floor(xs[index] / cellSize), Math.floor(ys[index] / cellSize))
+    const bucket = cells.get(key)
+    if (bucket) {
+      bucket.push(index)
+    } else {
+      cells.set(key, [index])
+    }
+  }
+  return { cellSize, xs, ys, cells }
+}
+
+export function findNearestPoint(pointIndex: PointIndex, x: number, y: number, radius: number): number {
+  const { cellSize, xs, ys, cells } = pointIndex
+  const reach = Math.ceil(radius / cellSize)
+  const centerColumn = Math.floor(x / cellSize)
+  const centerRow = Math.floor(y / cellSize)
+  let nearestIndex = -1
+  let nearestDistance = radius * radius
+
+  for (let column = centerColumn - reach; column <= centerColumn + reach; column += 1) {
+    for (let row = centerRow - reach; row <= centerRow + reach; row += 1) {
+      cells.get(getCellKey(column, row))?.forEach((index) => {
+        const distance = (xs[index] - x) ** 2 + (ys[index] - y) ** 2
+        if (distance <= nearestDistance) {
+          nearestDistance = distance
+          nearestIndex = index
+        }
+      })
+    }
+  }
+
+  return nearestIndex
+}
+
+function getCellKey(column: number, row: number): string {
+  return `${column}:${row}`
+}
@@ -0,0 +1,54 @@
+import { toRadians } from '../data/geo.ts'
+import type { GeoBounds, GeoJsonPosition } from '../data/geojson.ts'
+
+export type MapProjection = {
+  project: (longitude: number, latitude: number) => [x: number, y: number]
+  unproject: (x: number, y: number) => GeoJsonPosition
+}
+
+export type MapView = {
+  scale: number
+  x: number
+  y: number
+}
+
+export const INITIAL_MAP_VIEW: MapView = { scale: 1, x: 0, y: 0 }
+
+export function createProjection(bounds: GeoBounds, width: number, height: number, padding: number): MapProjection {
+  const longitudeScale = Math.cos(toRadians((bounds.minLatitude + bounds.maxLatitude) / 2))
+  const spanX = Math.max((bounds.maxLongitude - bounds.minLongitude) * longitudeScale, Number.EPSILON)
+  const spanY = Math.max(bounds.maxLatitude - bounds.minLatitude, Number.EPSILON)
+  const availableWidth = Math.max(width - padding * 2, 1)
+  const availableHeight = Math.max(height - padding * 2, 1)
+  const pixelsPerDegree = Math.min(availableWidth / spanX, availableHeight / spanY)
+  const offsetX = (width - spanX * pixelsPerDegree) / 2
+  const offsetY = (height - spanY * pixelsPerDegree) / 2
+
+  return {
+    project: (longitude, latitude) => [
+      offsetX + (longitude - bounds.minLongitude) * longitudeScale * pixelsPerDegree,
+      offsetY + (bounds.maxLatitude - latitude) * pixelsPerDegree,
+    ],
+    unproject: (x, y) => [
+      bounds.minLongitude + (x - offsetX) / (longitudeScale * pixelsPerDegree),
+      bounds.maxLatitude - (y - offsetY) / pixelsPerDegree,
+    ],
+  }
+}
+
+export function zoomMapView(
+  view: MapView,
+  factor: number,
+  anchorX: number,
+  anchorY: number,
+  minScale: number,
+  maxScale: number,
+): MapView {
+  const scale = Math.min(Math.max(view.scale * factor, minScale), maxScale)
+  const ratio = scale / view.scale
+  return {
+    scale,
+    x: anchorX - (anchorX - view.x) * ratio,
+    y: anchorY - (anchorY - view.y) * ratio,
+  }
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { downloadBlob } from '../download.ts'
+import {
+  createMosaicMetadata,
+  createMosaicSvg,
+  embedPngMetadata,
+  renderSvgToPng,
+  type MosaicExportOptions,
+  type MosaicSnapshot,
+} from './mosaicExport.ts'
+
+const PNG_SCALES = [1, 2, 4, 8]
+
+type ExportStatus = { kind: 'idle' } | { kind: 'working' } | { kind: 'error'; message: string }
+
+type ExportPanelProps = {
+  fileBaseName: string
+  onFreeze: () => MosaicSnapshot | null
+}
+
+export function ExportPanel({ fileBaseName, onFreeze }: ExportPanelProps) {
+  const [snapshot, setSnapshot] = useState<MosaicSnapshot | null>(null)
+  const [options, setOptions] = useState<MosaicExportOptions>({ includeLegend: true, caption: '' })
+  const [pngScale, setPngScale] = useState(2)
+  const [status, setStatus] = useState<ExportStatus>({ kind: 'idle' })
+
+  const buildExport = (frozen: MosaicSnapshot) => {
+    const metadata = createMosaicMetadata(frozen, options)
+    const filename = `${fileBaseName}-${frozen.capturedAt.toISOString().replace(/[:.]/g, '-')}`
+    return { metadata, svg: createMosaicSvg(metadata, frozen.colorScale, options), filename }
+  }
+
+  const downloadSvg = (frozen: MosaicSnapshot) => {
+    const { svg, filename } = buildExport(frozen)
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`)
+  }
+
+  const downloadPng = async (frozen: MosaicSnapshot) => {
+    const { metadata, svg, filename } = buildExport(frozen)
+    setStatus({ kind: 'working' })
+    try {
+      const png = new Uint8Array(await (await renderSvgToPng(svg, pngScale)).arrayBuffer())
+      downloadBlob(new Blob([embedPngMetadata(png, metadata)], { type: 'image/png' }), `${filename}.png`)
+      setStatus({ kind: 'idle' })
+    } catch (error) {
+      setStatus({ kind: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return (
+    <details className="app__panel">
+      <summary className="app__panel-summary">
+        Export{snapshot ? ` · frozen at ${snapshot.capturedAt.toLocaleTimeString()}` : ''}
+      </summary>
+      <div className="app__panel-body">
+        <div className="app__panel-row app__panel-row--spread">
+          <p className="app__panel-note">
+            {snapshot
+              ? `${snapshot.rows}×${snapshot.columns} mosaic frozen with every cell revealed.`
+              : 'Freeze the mosaic to keep the trees it shows right now.'}
+          </p>
+          <button type="button" className="app__text-button" onClick={() => setSnapshot(onFreeze())}>
+            {snapshot ? 'freeze again' : 'freeze mosaic'}
+          </button>
+        </div>
+        <div className="app__panel-row">
+          <label className="app__control">
+            <span className="app__control-label">Caption</span>
+            <input
+              className="app__input app__input--wide"
+              type="text"
+              value={options.caption}
+              placeholder="optional"
+              onChange={(event) => setOptions({ ...options, caption: event.target.value })}
+            />
+          </label>
+          <label className="app__control">
+            <input
+              type="checkbox"
+              checked={options.includeLegend}
+              onChange={(event) => setOptions({ ...options, includeLegend: event.target.checked })}
+            />
+            <span className="app__control-label">Legend</span>
+          </label>
+          <label className="app__control">
+            <span className="app__control-label">PNG scale</span>
+            <select
+              className="app__select"
+              value={pngScale}
+              onChange={(event) => setPngScale(Number(event.target.value))}
+            >
+              {PNG_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}×
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="app__panel-row app__panel-row--spread">
+          <p className="app__panel-note" aria-live="polite">
+            {status.kind === 'working'
+              ? 'Rendering PNG…'
+              : status.kind === 'error'
+                ? `Export failed: ${status.message}`
+                : 'Tree IDs and scores for every cell are embedded in both the SVG and the PNG.'}
+          </p>
+          <div className="app__panel-row">
+            <button
+              type="button"
+              className="app__text-button"
+              disabled={!snapshot}
+              onClick={() => snapshot && downloadSvg(snapshot)}
+            >
+              download svg
+            </button>
+            <button
+              type="button"
+              className="app__text-button"
+              disabled={!snapshot || status.kind === 'working'}
+              onClick={() => snapshot && downloadPng(snapshot)}
+            >
+              download png
+            </button>
+          </div>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState, type FocusEvent, type KeyboardEvent, type MouseEvent, type PointerEvent } from 'react'
+import { DEFAULT_CELL_COLOR, getAccessibilityColor, type ColorScale } from '../colors.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import type { TooltipAnchor } from '../tooltip.ts'
+import { getCellAnchor, getNextGridIndex } from './gridNavigation.ts'
+
+const CELL_FILL_RATIO = 0.85
+const FOCUS_RING_COLOR = '#FFFFFF'
+
+type MosaicCanvasProps = {
+  describedBy: string
+  rows: number
+  columns: number
+  cellTrees: (TreeRecord | undefined)[]
+  colorScale: ColorScale
+  isMobile: boolean
+  mobileActiveCell: number | null
+  onCellLeave: (cellIndex: number) => void
+  onHover: (anchor: TooltipAnchor, tree: TreeRecord) => void
+  onHoverEnd: () => void
+  onOpen: (tree: TreeRecord) => void
+  onMobileTooltipRequest: (cellIndex: number, anchor: TooltipAnchor, tree: TreeRecord) => void
+}
+
+export function MosaicCanvas({
+  describedBy,
+  rows,
+  columns,
+  cellTrees,
+  colorScale,
+  isMobile,
+  mobileActiveCell,
+  onCellLeave,
+  onHover,
+  onHoverEnd,
+  onOpen,
+  onMobileTooltipRequest,
+}: MosaicCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [hoveredCell, setHoveredCell] = useState<number | null>(null)
+  const [keyboardCell, setKeyboardCell] = useState<number | null>(null)
+  const lastKeyboardCellRef = useRef(0)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const cellWidth = size.width / columns
+  const cellHeight = size.height / rows
+  const squareSize = Math.min(cellWidth, cellHeight) * CELL_FILL_RATIO
+  const revealedCell = isMobile ? mobileActiveCell : (hoveredCell ?? keyboardCell)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || size.width === 0 || size.height === 0) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * pixelRatio)
+    canvas.height = Math.round(size.height * pixelRatio)
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    context.clearRect(0, 0, size.width, size.height)
+
+    context.fillStyle = DEFAULT_CELL_COLOR
+    for (let cellIndex = 0; cellIndex < rows * columns; cellIndex += 1) {
+      if (cellIndex === revealedCell) continue
+      const x = (cellIndex % columns) * cellWidth + (cellWidth - squareSize) / 2
+      const y = Math.floor(cellIndex / columns) * cellHeight + (cellHeight - squareSize) / 2
+      context.fillRect(x, y, squareSize, squareSize)
+    }
+
+    if (revealedCell != null) {
+      const tree = cellTrees[revealedCell]
+      context.fillStyle = tree ? getAccessibilityColor(tree.accessibilityScore, colorScale) : DEFAULT_CELL_COLOR
+      context.fillRect(
+        (revealedCell % columns) * cellWidth + (cellWidth - squareSize) / 2,
+        Math.floor(revealedCell / columns) * cellHeight + (cellHeight - squareSize) / 2,
+        squareSize,
+        squareSize,
+      )
+    }
+
+    if (keyboardCell != null) {
+      context.strokeStyle = FOCUS_RING_COLOR
+      context.lineWidth = 1
+      context.strokeRect(
+        (keyboardCell % columns) * cellWidth + (cellWidth - squareSize) / 2 - 1.5,
+        Math.floor(keyboardCell / columns) * cellHeight + (cellHeight - squareSize) / 2 - 1.5,
+        squareSize + 3,
+        squareSize + 3,
+      )
+    }
+  }, [
+    cellTrees,
+    cellHeight,
+    cellWidth,
+    colorScale,
+    columns,
+    keyboardCell,
+    revealedCell,
+    rows,
+    size.height,
+    size.width,
+    squareSize,
+  ])
+
+  const getCellAt = (event: MouseEvent<HTMLCanvasElement>): number | null => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = event.clientX - rect.left
+    const y = event.clientY - rect.top
+    const column = Math.floor(x / cellWidth)
+    const row = Math.floor(y / cellHeight)
+    if (column < 0 || row < 0 || column >= columns || row >= rows) return null
+    const insetX = Math.abs(x - (column + 0.5) * cellWidth)
+    const insetY = Math.abs(y - (row + 0.5) * cellHeight)
+    if (insetX > squareSize / 2 || insetY > squareSize / 2) return null
+    return row * columns + column
+  }
+
+  const getKeyboardCellAnchor = (canvas: HTMLCanvasElement, cellIndex: number): TooltipAnchor => {
+    const rect = canvas.getBoundingClientRect()
+    return getCellAnchor({
+      left: rect.left + (cellIndex % columns) * cellWidth,
+      top: rect.top + Math.floor(cellIndex / columns) * cellHeight,
+      width: cellWidth,
+      height: cellHeight,
+    })
+  }
+
+  const revealKeyboardCell = (canvas: HTMLCanvasElement, cellIndex: number) => {
+    lastKeyboardCellRef.current = cellIndex
+    setKeyboardCell(cellIndex)
+    const tree = cellTrees[cellIndex]
+    if (tree) {
+      onHover(getKeyboardCellAnchor(canvas, cellIndex), tree)
+    }
+  }
+
+  const leaveKeyboardCell = () => {
+    if (keyboardCell == null) return
+    onHoverEnd()
+    onCellLeave(keyboardCell)
+    setKeyboardCell(null)
+  }
+
+  const handleFocus = (event: FocusEvent<HTMLCanvasElement>) => {
+    if (isMobile || !event.currentTarget.matches(':focus-visible')) return
+    revealKeyboardCell(event.currentTarget, Math.min(lastKeyboardCellRef.current, rows * columns - 1))
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLCanvasElement>) => {
+    if (isMobile) return
+    const current = keyboardCell ?? lastKeyboardCellRef.current
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      const tree = cellTrees[current]
+      if (tree) onOpen(tree)
+      return
+    }
+    const next = getNextGridIndex(current, event.key, rows, columns, event.ctrlKey || event.metaKey)
+    if (next == null) return
+    event.preventDefault()
+    if (next === keyboardCell) return
+    leaveKeyboardCell()
+    revealKeyboardCell(event.currentTarget, next)
+  }
+
+  const leaveHoveredCell = () => {
+    if (hoveredCell == null) return
+    onHoverEnd()
+    onCellLeave(hoveredCell)
+    setHoveredCell(null)
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (isMobile || event.pointerType === 'touch') return
+    const cellIndex = getCellAt(event)
+    if (cellIndex !== hoveredCell) {
+      leaveHoveredCell()
+      setHoveredCell(cellIndex)
+    }
+    const tree = cellIndex != null ? cellTrees[cellIndex] : undefined
+    if (tree) {
+      onHover(event, tree)
+    }
+  }
+
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    const cellIndex = getCellAt(event)
+    const tree = cellIndex != null ? cellTrees[cellIndex] : undefined
+    if (cellIndex == null || !tree) return
+    if (isMobile) {
+      if (mobileActiveCell === cellIndex) {
+        onHoverEnd()
+        onCellLeave(cellIndex)
+        onOpen(tree)
+        return
+      }
+      onMobileTooltipRequest(cellIndex, event, tree)
+      return
+    }
+
+    onOpen(tree)
+  }
+
+  return (
+    <div className="app__mosaic-raster" ref={containerRef}>
+      <canvas
+        ref={canvasRef}
+        className="app__mosaic-canvas"
+        role="application"
+        tabIndex={0}
+        aria-label={`Mosaic of ${rows} by ${columns} hidden trees`}
+        aria-describedby={describedBy}
+        style={{ cursor: hoveredCell != null ? 'pointer' : 'default' }}
+        onFocus={handleFocus}
+        onBlur={leaveKeyboardCell}
+        onKeyDown={handleKeyDown}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={leaveHoveredCell}
+        onClick={handleClick}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import type { TooltipAnchor } from '../tooltip.ts'
+
+export function getNextGridIndex(
+  index: number,
+  key: string,
+  rows: number,
+  columns: number,
+  withModifier = false,
+): number | null {
+  const row = Math.floor(index / columns)
+  const column = index % columns
+
+  switch (key) {
+    case 'ArrowLeft':
+      return column > 0 ? index - 1 : index
+    case 'ArrowRight':
+      return column < columns - 1 ? index + 1 : index
+    case 'ArrowUp':
+      return row > 0 ? index - columns : index
+    case 'ArrowDown':
+      return row < rows - 1 ? index + columns : index
+    case 'Home':
+      return withModifier ? 0 : row * columns
+    case 'End':
+      return withModifier ? rows * columns - 1 : row * columns + columns - 1
+    case 'PageUp':
+      return column
+    case 'PageDown':
+      return (rows - 1) * columns + column
+    default:
+      return null
+  }
+}
+
+export function getCellAnchor(rect: Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>): TooltipAnchor {
+  return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 }
+}
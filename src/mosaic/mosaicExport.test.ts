@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { COLOR_PALETTES } from '../colors.ts'
+import { createTree } from '../test/treeFixtures.ts'
+import { createMosaicMetadata, embedPngMetadata } from './mosaicExport.ts'
+
+// Signature, a 1×1 IHDR and IEND, with their published CRCs.
+const MINIMAL_PNG = Uint8Array.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01, 0x08, 0x06, 0x00,
+  0x00, 0x00, 0x1f, 0x15, 0xc4, 0x89,
+  0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+])
+
+type PngChunk = { type: string; data: Uint8Array; crc: number }
+
+function readChunks(png: Uint8Array): PngChunk[] {
+  const view = new DataView(png.buffer, png.byteOffset)
+  const chunks: PngChunk[] = []
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset)
+    chunks.push({
+      type: new TextDecoder().decode(png.subarray(offset + 4, offset + 8)),
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crc: view.getUint32(offset + 8 + length),
+    })
+    offset += length + 12
+  }
+  return chunks
+}
+
+const metadata = createMosaicMetadata(
+  {
+    capturedAt: new Date('2026-05-02T09:00:00Z'),
+    sessionUrl: 'https://example.org/?seed=1',
+    rows: 1,
+    columns: 2,
+    cellTrees: [createTree(), undefined],
+    colorScale: { palette: COLOR_PALETTES[0], mode: 'bands' },
+    scoringModel: 'original',
+  },
+  { includeLegend: true, caption: 'Straße café' },
+)
+
+describe('createMosaicMetadata', () => {
+  it('describes the palette, model and session captured in the snapshot', () => {
+    expect(metadata).toMatchObject({
+      sessionUrl: 'https://example.org/?seed=1',
+      scoringModel: 'original',
+      palette: COLOR_PALETTES[0].id,
+      colorMode: 'bands',
+    })
+    expect(metadata.cells[0]).toMatchObject({
+      treeId: '180683',
+      band: 'excellent',
+      color: COLOR_PALETTES[0].bands.excellent,
+    })
+  })
+})
+
+describe('embedPngMetadata', () => {
+  const png = embedPngMetadata(MINIMAL_PNG, metadata)
+
+  it('adds one iTXt chunk right after the header and keeps the rest of the file', () => {
+    expect(readChunks(png).map((chunk) => chunk.type)).toEqual(['IHDR', 'iTXt', 'IEND'])
+    expect(png.subarray(0, 33)).toEqual(MINIMAL_PNG.subarray(0, 33))
+    expect(png.subarray(-12)).toEqual(MINIMAL_PNG.subarray(-12))
+  })
+
+  it('stores the metadata as uncompressed UTF-8 JSON under its keyword', () => {
+    const { data } = readChunks(png)[1]
+    const keyword = 'random-roots-mosaic'
+    expect(new TextDecoder().decode(data.subarray(0, keyword.length))).toBe(keyword)
+    expect([...data.subarray(keyword.length, keyword.length + 5)]).toEqual([0, 0, 0, 0, 0])
+    expect(JSON.parse(new TextDecoder().decode(data.subarray(keyword.length + 5)))).toEqual(metadata)
+  })
+
+  // Computed with Node's zlib.crc32 over the chunk type and data.
+  it('checksums the chunk the way PNG readers verify it', () => {
+    expect(readChunks(png)[1].crc).toBe(0xd69f3546)
+  })
+})
@@ -0,0 +1,228 @@
+import {
+  getAccessibilityColor,
+  getScoreBand,
+  SCORE_BANDS,
+  UNKNOWN_SCORE_COLOR,
+  type ColorScale,
+} from '../colors.ts'
+import { ACCESSIBILITY_SCORE_MAX } from '../data/scoringModels.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import { escapeXmlAttribute, escapeXmlText } from '../data/xml.ts'
+
+export type MosaicExportOptions = {
+  includeLegend: boolean
+  caption: string
+}
+
+export type MosaicExportCell = {
+  row: number
+  column: number
+  treeId: string | null
+  species: string | null
+  neighborhood: string | null
+  accessibilityScore: number | null
+  band: string | null
+  color: string
+}
+
+export type MosaicExportMetadata = {
+  capturedAt: string
+  sessionUrl: string
+  caption: string
+  rows: number
+  columns: number
+  scoringModel: string
+  palette: string
+  colorMode: string
+  cells: MosaicExportCell[]
+}
+
+// Everything the export describes is captured at freeze time, so changing the palette, scoring model or session before
+// downloading cannot mix two states in one file.
+export type MosaicSnapshot = {
+  capturedAt: Date
+  sessionUrl: string
+  rows: number
+  columns: number
+  cellTrees: (TreeRecord | undefined)[]
+  colorScale: ColorScale
+  scoringModel: string
+}
+
+const CELL_SIZE = 24
+const CELL_FILL_RATIO = 0.85
+const MARGIN = 24
+const FONT_SIZE = 12
+const LINE_HEIGHT = 18
+const SWATCH_SIZE = 10
+const LEGEND_ITEM_WIDTH = 150
+const BACKGROUND_COLOR = '#1E110B'
+const EMPTY_CELL_COLOR = '#160B06'
+const TEXT_COLOR = '#8B7D73'
+const FONT_FAMILY = "Menlo, 'Courier New', monospace"
+const PNG_SIGNATURE_LENGTH = 8
+const PNG_METADATA_KEYWORD = 'random-roots-mosaic'
+
+let crcTable: Uint32Array | null = null
+
+export function createMosaicMetadata(snapshot: MosaicSnapshot, options: MosaicExportOptions): MosaicExportMetadata {
+  const { colorScale } = snapshot
+  return {
+    capturedAt: snapshot.capturedAt.toISOString(),
+    sessionUrl: snapshot.sessionUrl,
+    caption: options.caption,
+    rows: snapshot.rows,
+    columns: snapshot.columns,
+    scoringModel: snapshot.scoringModel,
+    palette: colorScale.palette.id,
+    colorMode: colorScale.mode,
+    cells: snapshot.cellTrees.map((tree, index): MosaicExportCell => {
+      const score = tree?.accessibilityScore ?? null
+      return {
+        row: Math.floor(index / snapshot.columns),
+        column: index % snapshot.columns,
+        treeId: tree?.treeId ?? null,
+        species: tree?.species || null,
+        neighborhood: tree?.neighborhood || null,
+        accessibilityScore: score,
+        band: score != null && Number.isFinite(score) ? getScoreBand(score).id : null,
+        color: tree ? getAccessibilityColor(score, colorScale) : EMPTY_CELL_COLOR,
+      }
+    }),
+  }
+}
+
+// Every cell is drawn with its revealed color; the full metadata is embedded in <desc> so the file stands on its own.
+export function createMosaicSvg(
+  metadata: MosaicExportMetadata,
+  colorScale: ColorScale,
+  options: MosaicExportOptions,
+): string {
+  const gridWidth = metadata.columns * CELL_SIZE
+  const gridHeight = metadata.rows * CELL_SIZE
+  const width = Math.max(gridWidth, options.includeLegend ? LEGEND_ITEM_WIDTH * 2 : 0) + MARGIN * 2
+  const squareSize = CELL_SIZE * CELL_FILL_RATIO
+  const inset = (CELL_SIZE - squareSize) / 2
+  const gridLeft = (width - gridWidth) / 2
+  let y = MARGIN + gridHeight
+
+  const cells = metadata.cells.map(
+    (cell) =>
+      `<rect x="${formatNumber(gridLeft + cell.column * CELL_SIZE + inset)}" ` +
+      `y="${formatNumber(MARGIN + cell.row * CELL_SIZE + inset)}" width="${formatNumber(squareSize)}" ` +
+      `height="${formatNumber(squareSize)}" fill="${cell.color}"` +
+      (cell.treeId != null ? ` data-tree-id="${escapeXmlAttribute(cell.treeId)}"` : '') +
+      '/>',
+  )
+
+  const footer: string[] = []
+  if (options.caption.trim()) {
+    y += LINE_HEIGHT * 1.5
+    footer.push(`<text x="${MARGIN}" y="${y}" fill="${TEXT_COLOR}">${escapeXmlText(options.caption.trim())}</text>`)
+  }
+  if (options.includeLegend) {
+    const items = [
+      ...SCORE_BANDS.map((band, index) => ({
+        label: `${band.label} ${band.min}-${index === 0 ? ACCESSIBILITY_SCORE_MAX : SCORE_BANDS[index - 1].min}`,
+        color: colorScale.palette.bands[band.id],
+      })),
+      { label: 'No score', color: UNKNOWN_SCORE_COLOR },
+    ]
+    const perRow = Math.max(1, Math.floor((width - MARGIN * 2) / LEGEND_ITEM_WIDTH))
+    y += LINE_HEIGHT * 0.5
+    items.forEach((item, index) => {
+      const x = MARGIN + (index % perRow) * LEGEND_ITEM_WIDTH
+      const itemY = y + (Math.floor(index / perRow) + 1) * LINE_HEIGHT
+      footer.push(
+        `<rect x="${x}" y="${itemY - SWATCH_SIZE}" width="${SWATCH_SIZE}" height="${SWATCH_SIZE}" ` +
+          `fill="${item.color}"/>`,
+        `<text x="${x + SWATCH_SIZE + 6}" y="${itemY}" fill="${TEXT_COLOR}">${escapeXmlText(item.label)}</text>`,
+      )
+    })
+    y += Math.ceil(items.length / perRow) * LINE_HEIGHT
+  }
+  const height = y + MARGIN
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${formatNumber(height)}" ` +
+      `viewBox="0 0 ${width} ${formatNumber(height)}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}">`,
+    `<title>${escapeXmlText(options.caption.trim() || 'Random Roots mosaic')}</title>`,
+    `<desc>${escapeXmlText(JSON.stringify(metadata))}</desc>`,
+    `<rect width="100%" height="100%" fill="${BACKGROUND_COLOR}"/>`,
+    ...cells,
+    ...footer,
+    '</svg>',
+  ].join('\n')
+}
+
+export function renderSvgToPng(svg: string, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(image.width * scale)
+      canvas.height = Math.round(image.height * scale)
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas rendering is not available.'))
+        return
+      }
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The PNG could not be encoded.'))), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('The SVG could not be rendered.'))
+    }
+    image.src = url
+  })
+}
+
+// The metadata goes into an iTXt chunk, which unlike tEXt holds UTF-8, right after the header so readers find it
+// before the image data.
+export function embedPngMetadata(png: Uint8Array, metadata: MosaicExportMetadata): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const keyword = encoder.encode(PNG_METADATA_KEYWORD)
+  const text = encoder.encode(JSON.stringify(metadata))
+  // Keyword terminator, no compression, then an empty language tag and translated keyword.
+  const data = new Uint8Array(keyword.length + 5 + text.length)
+  data.set(keyword)
+  data.set(text, keyword.length + 5)
+
+  const chunk = new Uint8Array(data.length + 12)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(encoder.encode('iTXt'), 4)
+  chunk.set(data, 8)
+  view.setUint32(data.length + 8, getCrc32(chunk.subarray(4, data.length + 8)))
+
+  const headerEnd = PNG_SIGNATURE_LENGTH + 12 + new DataView(png.buffer, png.byteOffset).getUint32(PNG_SIGNATURE_LENGTH)
+  const result = new Uint8Array(png.length + chunk.length)
+  result.set(png.subarray(0, headerEnd))
+  result.set(chunk, headerEnd)
+  result.set(png.subarray(headerEnd), headerEnd + chunk.length)
+  return result
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function getCrc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n += 1) {
+      let c = n
+      for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  bytes.forEach((byte) => {
+    crc = crcTable![(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  })
+  return (crc ^ 0xffffffff) >>> 0
+}
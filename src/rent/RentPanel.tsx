@@ -0,0 +1,105 @@
+import type { UnmatchedRentNeighborhood } from '../data/rent.ts'
+import {
+  RENT_INTERPOLATION_STRATEGIES,
+  type RentInterpolationOptions,
+  type RentInterpolationStrategy,
+} from '../data/rentInterpolation.ts'
+
+type RentPanelProps = {
+  interpolation: RentInterpolationOptions
+  unmatchedNeighborhoods: UnmatchedRentNeighborhood[]
+  isUpdating: boolean
+  onInterpolationChange: (interpolation: RentInterpolationOptions) => void
+}
+
+export function RentPanel({
+  interpolation,
+  unmatchedNeighborhoods,
+  isUpdating,
+  onInterpolationChange,
+}: RentPanelProps) {
+  const strategy = RENT_INTERPOLATION_STRATEGIES.find((info) => info.id === interpolation.strategy)
+
+  const updateNumber = (key: 'power' | 'neighborCount', value: string, min: number) => {
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed < min) return
+    onInterpolationChange({ ...interpolation, [key]: parsed })
+  }
+
+  return (
+    <details className="app__panel">
+      <summary className="app__panel-summary">
+        Rent interpolation{isUpdating ? ' (updating…)' : ''}
+        {unmatchedNeighborhoods.length > 0 && ` · ${unmatchedNeighborhoods.length} unmatched`}
+      </summary>
+      <div className="app__panel-body">
+        <div className="app__panel-row">
+          <label className="app__control">
+            <span className="app__control-label">Strategy</span>
+            <select
+              className="app__select"
+              value={interpolation.strategy}
+              onChange={(event) =>
+                onInterpolationChange({ ...interpolation, strategy: event.target.value as RentInterpolationStrategy })
+              }
+            >
+              {RENT_INTERPOLATION_STRATEGIES.map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {interpolation.strategy === 'idw' && (
+            <>
+              <label className="app__control">
+                <span className="app__control-label">Power</span>
+                <input
+                  className="app__input"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={interpolation.power}
+                  onChange={(event) => updateNumber('power', event.target.value, 0)}
+                />
+              </label>
+              <label className="app__control">
+                <span className="app__control-label">k</span>
+                <input
+                  className="app__input"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={interpolation.neighborCount}
+                  onChange={(event) => updateNumber('neighborCount', event.target.value, 1)}
+                />
+              </label>
+            </>
+          )}
+        </div>
+        {strategy && <p className="app__panel-note">{strategy.description}</p>}
+        <h2 className="app__panel-heading">Neighborhoods without a rent match</h2>
+        {unmatchedNeighborhoods.length === 0 ? (
+          <p className="app__panel-note">Every neighborhood matched a StreetEasy area.</p>
+        ) : (
+          <>
+            <p className="app__panel-note">
+              These names found no StreetEasy area, even after RENT_KEY_ALIASES. Their rent is skipped during
+              interpolation.
+            </p>
+            <ul className="app__panel-list">
+              {unmatchedNeighborhoods.map((neighborhood) => (
+                <li key={`${neighborhood.source}:${neighborhood.name}`}>
+                  {neighborhood.name}{' '}
+                  <span className="app__panel-muted">
+                    ({neighborhood.source}, key &quot;{neighborhood.rentKey}&quot;)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </details>
+  )
+}
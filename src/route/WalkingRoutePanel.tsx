@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import type { TreeCollection } from '../collections/collections.ts'
+import { getGoogleMapsUrl } from '../data/geo.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import {
+  createRouteGpx,
+  createRouteLinkList,
+  formatRouteDistance,
+  formatWalkingTime,
+  MAX_ROUTE_STOPS,
+  planWalkingRoute,
+  type WalkingRoute,
+} from '../data/walkingRoute.ts'
+import { downloadBlob } from '../download.ts'
+
+type RouteSource = 'grid' | 'filter' | 'collection'
+
+type PlannedRoute = {
+  route: WalkingRoute<TreeRecord>
+  name: string
+}
+
+type WalkingRoutePanelProps = {
+  filteredTrees: TreeRecord[]
+  collection: TreeCollection | null
+  // Null when the mosaic is not on screen.
+  getGridTrees: (() => TreeRecord[]) | null
+  fileBaseName: string
+}
+
+export function WalkingRoutePanel({ filteredTrees, collection, getGridTrees, fileBaseName }: WalkingRoutePanelProps) {
+  const [source, setSource] = useState<RouteSource>(getGridTrees ? 'grid' : 'filter')
+  const [plannedRoute, setPlannedRoute] = useState<PlannedRoute | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const activeSource = source === 'grid' && !getGridTrees ? 'filter' : source
+
+  const getSourceTrees = (): { trees: TreeRecord[]; name: string } => {
+    if (activeSource === 'grid') return { trees: [...new Set(getGridTrees?.() ?? [])], name: 'Trees on the mosaic' }
+    if (activeSource === 'collection') {
+      return { trees: collection?.entries.map((entry) => entry.tree) ?? [], name: collection?.name ?? 'Collection' }
+    }
+    return { trees: filteredTrees, name: 'Trees matching filters' }
+  }
+
+  const planRoute = () => {
+    const { trees, name } = getSourceTrees()
+    if (trees.length < 2) {
+      setPlannedRoute(null)
+      setMessage('A route needs at least two trees.')
+    } else if (trees.length > MAX_ROUTE_STOPS) {
+      setPlannedRoute(null)
+      setMessage(
+        `${trees.length.toLocaleString()} trees is more than a walk can cover; narrow the source to at most ` +
+          `${MAX_ROUTE_STOPS} trees.`,
+      )
+    } else {
+      setPlannedRoute({ route: planWalkingRoute(trees), name })
+      setMessage(null)
+    }
+  }
+
+  const downloadRoute = (format: 'gpx' | 'txt') => {
+    if (!plannedRoute) return
+    const { route, name } = plannedRoute
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const blob =
+      format === 'gpx'
+        ? new Blob([createRouteGpx(route, name)], { type: 'application/gpx+xml' })
+        : new Blob([createRouteLinkList(route, name)], { type: 'text/plain' })
+    downloadBlob(blob, `${fileBaseName}-route-${timestamp}.${format}`)
+  }
+
+  return (
+    <details className="app__panel">
+      <summary className="app__panel-summary">Walking route</summary>
+      <div className="app__panel-body">
+        <div className="app__panel-row app__panel-row--spread">
+          <label className="app__control">
+            <span className="app__control-label">Trees</span>
+            <select
+              className="app__select"
+              value={activeSource}
+              onChange={(event) => {
+                setSource(event.target.value as RouteSource)
+                setPlannedRoute(null)
+                setMessage(null)
+              }}
+            >
+              <option value="grid" disabled={!getGridTrees}>
+                On the mosaic
+              </option>
+              <option value="filter">Matching filters ({filteredTrees.length.toLocaleString()})</option>
+              <option value="collection" disabled={!collection}>
+                {collection ? `${collection.name} (${collection.entries.length})` : 'Collection'}
+              </option>
+            </select>
+          </label>
+          <button type="button" className="app__text-button" onClick={planRoute}>
+            plan route
+          </button>
+        </div>
+        <p className="app__panel-note" role="status">
+          {message ??
+            (plannedRoute
+              ? `${plannedRoute.route.stops.length} trees, ${formatRouteDistance(plannedRoute.route.totalDistance)}, ` +
+                `about ${formatWalkingTime(plannedRoute.route.walkingSeconds)} on foot. Distances are straight lines ` +
+                'between trees, so the walk along streets runs longer.'
+              : `Orders up to ${MAX_ROUTE_STOPS} trees into a short walk that visits each once.`)}
+        </p>
+        {plannedRoute && (
+          <>
+            <div className="app__panel-row">
+              <button type="button" className="app__text-button" onClick={() => downloadRoute('gpx')}>
+                download GPX
+              </button>
+              <button type="button" className="app__text-button" onClick={() => downloadRoute('txt')}>
+                download map links
+              </button>
+            </div>
+            <ol className="app__panel-list app__route-stops">
+              {plannedRoute.route.stops.map((tree, index) => (
+                <li key={index}>
+                  {index + 1}.{' '}
+                  <a
+                    className="app__route-link"
+                    href={getGoogleMapsUrl(tree.latitude, tree.longitude)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    tree-#{tree.treeId}
+                  </a>{' '}
+                  {tree.species}, {tree.neighborhood}
+                  {index > 0 && (
+                    <span className="app__panel-muted">
+                      {' '}
+                      +{formatRouteDistance(plannedRoute.route.legDistances[index])}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,39 @@
+const UINT32_RANGE = 2 ** 32
+const SEED_RADIX = 36
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * UINT32_RANGE) >>> 0
+}
+
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(SEED_RADIX)
+}
+
+export function parseSeed(value: string | null): number | null {
+  if (!value || !/^[0-9a-z]{1,7}$/i.test(value)) return null
+  const seed = parseInt(value, SEED_RADIX)
+  return seed < UINT32_RANGE ? seed : null
+}
+
+// Counter-based so every cell has its own reproducible sequence regardless of the order cells are hovered in.
+export function getSeededRandom(seed: number, stream: number, draw: number): number {
+  let hash = mixUint32(seed ^ 0x9e3779b9)
+  hash = mixUint32(hash ^ Math.imul(stream + 1, 0x85ebca6b))
+  hash = mixUint32(hash ^ Math.imul(draw + 1, 0xc2b2ae35))
+  return hash / UINT32_RANGE
+}
+
+export function getSeededIndex(seed: number, stream: number, draw: number, count: number): number {
+  if (count === 0) return -1
+  return Math.floor(getSeededRandom(seed, stream, draw) * count)
+}
+
+function mixUint32(value: number): number {
+  let hash = value >>> 0
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x7feb352d)
+  hash ^= hash >>> 15
+  hash = Math.imul(hash, 0x846ca68b)
+  hash ^= hash >>> 16
+  return hash >>> 0
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createTree } from '../test/treeFixtures.ts'
+import { getSeededRandom } from './random.ts'
+import { createTreeSampler, SAMPLING_MODES, type TreeSampler } from './sampling.ts'
+import type { GridSize } from './urlState.ts'
+
+const GRID_SIZE: GridSize = { rows: 4, columns: 5 }
+const CELL_COUNT = GRID_SIZE.rows * GRID_SIZE.columns
+const NEIGHBORHOODS = ['Chelsea', 'Inwood', 'SoHo']
+
+const trees = Array.from({ length: 53 }, (_, index) =>
+  createTree({
+    treeId: String(index),
+    latitude: 40.7 + getSeededRandom(11, index, 0) * 0.1,
+    longitude: -74 + getSeededRandom(11, index, 1) * 0.05,
+    neighborhood: NEIGHBORHOODS[index % NEIGHBORHOODS.length],
+    accessibilityScore: index % 7 === 0 ? null : getSeededRandom(11, index, 2) * 11,
+  }),
+)
+
+// Refills cells in a fixed but uneven order, the way hovering does, and returns the tree drawn each time.
+function drawSequence(sampler: TreeSampler, count: number): number[] {
+  const draws = new Array<number>(CELL_COUNT).fill(0)
+  return Array.from({ length: count }, (_, sequence) => {
+    const cellIndex = (sequence * 7) % CELL_COUNT
+    const treeIndex = sampler(cellIndex, { draw: draws[cellIndex], sequence })
+    draws[cellIndex] += 1
+    return treeIndex
+  })
+}
+
+describe('createTreeSampler', () => {
+  it('shows every tree once before any tree repeats without replacement', () => {
+    const sequence = drawSequence(createTreeSampler('without-replacement', trees, 42, GRID_SIZE), trees.length * 2)
+    const allIndices = trees.map((_, index) => index)
+
+    expect([...sequence.slice(0, trees.length)].sort((a, b) => a - b)).toEqual(allIndices)
+    expect([...sequence.slice(trees.length)].sort((a, b) => a - b)).toEqual(allIndices)
+    expect(sequence.slice(trees.length)).not.toEqual(sequence.slice(0, trees.length))
+  })
+
+  it('repeats the same sequence for the same seed in every mode', () => {
+    SAMPLING_MODES.forEach(({ id }) => {
+      const first = drawSequence(createTreeSampler(id, trees, 42, GRID_SIZE), 120)
+      const second = drawSequence(createTreeSampler(id, trees, 42, GRID_SIZE), 120)
+      const otherSeed = drawSequence(createTreeSampler(id, trees, 43, GRID_SIZE), 120)
+
+      expect(second).toEqual(first)
+      expect(otherSeed).not.toEqual(first)
+      first.forEach((treeIndex) => {
+        expect(treeIndex).toBeGreaterThanOrEqual(0)
+        expect(treeIndex).toBeLessThan(trees.length)
+      })
+    })
+  })
+
+  it('draws nothing from an empty pool', () => {
+    SAMPLING_MODES.forEach(({ id }) => {
+      expect(createTreeSampler(id, [], 42, GRID_SIZE)(0, { draw: 0, sequence: 0 })).toBe(-1)
+    })
+  })
+})
@@ -0,0 +1,199 @@
+import { getGeoBounds, type GeoJsonPosition } from '../data/geojson.ts'
+import { ACCESSIBILITY_SCORE_MAX } from '../data/scoringModels.ts'
+import type { TreeRecord } from '../data/trees.ts'
+import type { GridSize } from './urlState.ts'
+import { getSeededIndex, getSeededRandom } from './random.ts'
+
+export type SamplingMode =
+  | 'without-replacement'
+  | 'uniform'
+  | 'neighborhood'
+  | 'low-accessibility'
+  | 'high-accessibility'
+  | 'spatial'
+
+export type SamplingModeInfo = {
+  id: SamplingMode
+  label: string
+  description: string
+}
+
+export type CellDraw = {
+  // How many trees this cell has shown before the current one.
+  draw: number
+  // Position of the current tree in the mosaic-wide sequence of draws.
+  sequence: number
+}
+
+export type TreeSampler = (cellIndex: number, cellDraw: CellDraw) => number
+
+export const SAMPLING_MODES: SamplingModeInfo[] = [
+  {
+    id: 'without-replacement',
+    label: 'No repeats',
+    description: 'Every tree in the pool is shown once before any tree comes back.',
+  },
+  {
+    id: 'uniform',
+    label: 'Uniform',
+    description: 'Each refill picks any tree in the pool with equal chance, so repeats are possible.',
+  },
+  {
+    id: 'neighborhood',
+    label: 'By neighborhood',
+    description: 'Picks a neighborhood, then a tree in it, so small neighborhoods show up as often as large ones.',
+  },
+  {
+    id: 'low-accessibility',
+    label: 'Less accessible',
+    description: 'Favors trees with low accessibility scores.',
+  },
+  {
+    id: 'high-accessibility',
+    label: 'More accessible',
+    description: 'Favors trees with high accessibility scores.',
+  },
+  {
+    id: 'spatial',
+    label: 'Spatial',
+    description: 'Each cell draws from its own tile of the map, so the mosaic reads like a coarse map.',
+  },
+]
+
+export const DEFAULT_SAMPLING_MODE: SamplingMode = 'without-replacement'
+
+const MIN_ACCESSIBILITY_WEIGHT = 0.02
+const PERMUTATION_STREAM_OFFSET = -1
+
+export function isSamplingMode(value: string | null): value is SamplingMode {
+  return SAMPLING_MODES.some((mode) => mode.id === value)
+}
+
+export function createTreeSampler(
+  mode: SamplingMode,
+  trees: TreeRecord[],
+  seed: number,
+  gridSize: GridSize,
+): TreeSampler {
+  if (trees.length === 0) return () => -1
+
+  switch (mode) {
+    case 'without-replacement':
+      return createPermutationSampler(trees.length, seed)
+    case 'uniform':
+      return (cellIndex, { draw }) => getSeededIndex(seed, cellIndex, draw, trees.length)
+    case 'neighborhood':
+      return createStratifiedSampler(trees, seed)
+    case 'low-accessibility':
+      return createWeightedSampler(trees, seed, (score) => 1 - score)
+    case 'high-accessibility':
+      return createWeightedSampler(trees, seed, (score) => score)
+    case 'spatial':
+      return createSpatialSampler(trees, seed, gridSize)
+  }
+}
+
+function createPermutationSampler(treeCount: number, seed: number): TreeSampler {
+  const permutations = new Map<number, Uint32Array>()
+
+  const getPermutation = (epoch: number) => {
+    let permutation = permutations.get(epoch)
+    if (!permutation) {
+      permutation = Uint32Array.from({ length: treeCount }, (_, index) => index)
+      for (let i = treeCount - 1; i > 0; i -= 1) {
+        const j = getSeededIndex(seed, PERMUTATION_STREAM_OFFSET - epoch, i, i + 1)
+        const swap = permutation[i]
+        permutation[i] = permutation[j]
+        permutation[j] = swap
+      }
+      permutations.set(epoch, permutation)
+    }
+    return permutation
+  }
+
+  return (_, { sequence }) => getPermutation(Math.floor(sequence / treeCount))[sequence % treeCount]
+}
+
+function createStratifiedSampler(trees: TreeRecord[], seed: number): TreeSampler {
+  const groups = new Map<string, number[]>()
+  trees.forEach((tree, index) => {
+    const group = groups.get(tree.neighborhood)
+    if (group) {
+      group.push(index)
+    } else {
+      groups.set(tree.neighborhood, [index])
+    }
+  })
+  const strata = [...groups.keys()].sort().map((name) => groups.get(name)!)
+
+  return (cellIndex, { draw }) => {
+    const stratum = strata[getSeededIndex(seed, cellIndex, draw * 2, strata.length)]
+    return stratum[getSeededIndex(seed, cellIndex, draw * 2 + 1, stratum.length)]
+  }
+}
+
+function createWeightedSampler(
+  trees: TreeRecord[],
+  seed: number,
+  getWeight: (normalizedScore: number) => number,
+): TreeSampler {
+  const cumulativeWeights = new Float64Array(trees.length)
+  let total = 0
+  trees.forEach((tree, index) => {
+    const score = tree.accessibilityScore
+    const normalized = score != null && Number.isFinite(score) ? score / ACCESSIBILITY_SCORE_MAX : null
+    const weight = normalized == null ? 0 : getWeight(Math.min(Math.max(normalized, 0), 1)) ** 2
+    total += Math.max(weight, MIN_ACCESSIBILITY_WEIGHT)
+    cumulativeWeights[index] = total
+  })
+
+  return (cellIndex, { draw }) => {
+    const target = getSeededRandom(seed, cellIndex, draw) * total
+    let low = 0
+    let high = cumulativeWeights.length - 1
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      if (cumulativeWeights[middle] > target) {
+        high = middle
+      } else {
+        low = middle + 1
+      }
+    }
+    return low
+  }
+}
+
+function createSpatialSampler(trees: TreeRecord[], seed: number, { rows, columns }: GridSize): TreeSampler {
+  const bounds = getGeoBounds(trees.map((tree): GeoJsonPosition => [tree.longitude, tree.latitude]))
+  const longitudeSpan = bounds.maxLongitude - bounds.minLongitude || 1
+  const latitudeSpan = bounds.maxLatitude - bounds.minLatitude || 1
+  const tiles = Array.from({ length: rows * columns }, (): number[] => [])
+
+  trees.forEach((tree, index) => {
+    const column = Math.floor(((tree.longitude - bounds.minLongitude) / longitudeSpan) * columns)
+    const row = Math.floor(((bounds.maxLatitude - tree.latitude) / latitudeSpan) * rows)
+    tiles[Math.min(row, rows - 1) * columns + Math.min(column, columns - 1)].push(index)
+  })
+
+  const occupiedTiles = tiles.map((tile, index) => (tile.length > 0 ? index : -1)).filter((index) => index !== -1)
+  const tileSources = tiles.map((tile, tileIndex) => {
+    if (tile.length > 0) return tile
+    const row = Math.floor(tileIndex / columns)
+    const column = tileIndex % columns
+    let nearestTile = occupiedTiles[0]
+    let nearestDistance = Number.POSITIVE_INFINITY
+    occupiedTiles.forEach((candidate) => {
+      const distance = (Math.floor(candidate / columns) - row) ** 2 + ((candidate % columns) - column) ** 2
+      if (distance < nearestDistance) {
+        nearestDistance = distance
+        nearestTile = candidate
+      }
+    })
+    return tiles[nearestTile]
+  })
+
+  return (cellIndex, { draw }) => {
+    const source = tileSources[cellIndex]
+    return source ? source[getSeededIndex(seed, cellIndex, draw, source.length)] : -1
+  }
+}
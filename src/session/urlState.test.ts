@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_MODE, DEFAULT_COLOR_PALETTE } from '../colors.ts'
+import { DEFAULT_RENT_INTERPOLATION } from '../data/rentInterpolation.ts'
+import { DEFAULT_SCORING_MODEL } from '../data/scoringModels.ts'
+import { EMPTY_TREE_FILTERS } from '../data/treeFilters.ts'
+import { DEFAULT_SAMPLING_MODE } from './sampling.ts'
+import { DEFAULT_GRID_SIZE, readSessionState, writeSessionState, type SessionState } from './urlState.ts'
+
+const DEFAULT_STATE: SessionState = {
+  seed: 123_456_789,
+  gridSize: DEFAULT_GRID_SIZE,
+  samplingMode: DEFAULT_SAMPLING_MODE,
+  filters: EMPTY_TREE_FILTERS,
+  scoringModelId: DEFAULT_SCORING_MODEL.id,
+  rentInterpolation: DEFAULT_RENT_INTERPOLATION,
+  colorPaletteId: DEFAULT_COLOR_PALETTE.id,
+  colorMode: DEFAULT_COLOR_MODE,
+}
+
+const FULL_STATE: SessionState = {
+  seed: 4_294_967_295,
+  gridSize: { rows: 8, columns: 20 },
+  samplingMode: 'spatial',
+  filters: {
+    species: 'london planetree',
+    status: 'Alive',
+    healthScore: 2,
+    borough: 'Brooklyn',
+    neighborhood: "Hell's Kitchen & Clinton",
+    scoreRanges: {
+      accessibilityScore: { min: null, max: 4.5 },
+      treeFriendsScore: { min: 1.5, max: 3 },
+      affordabilityScore: { min: 0, max: null },
+    },
+  },
+  scoringModelId: 'density-weighted',
+  rentInterpolation: { strategy: 'idw', power: 1.5, neighborCount: 5 },
+  colorPaletteId: 'viridis',
+  colorMode: 'gradient',
+}
+
+describe('session state in the query string', () => {
+  it('round-trips a state that changes every setting', () => {
+    expect(readSessionState(writeSessionState(FULL_STATE))).toEqual(FULL_STATE)
+  })
+
+  it('writes only the seed for the defaults and reads them back', () => {
+    const search = writeSessionState(DEFAULT_STATE)
+    expect(search).toBe('?seed=21i3v9')
+    expect(readSessionState(search)).toEqual(DEFAULT_STATE)
+  })
+
+  it('reads a link from before boroughs as every borough', () => {
+    const state = readSessionState('?seed=21i3v9&neighborhood=Chinatown&friends=2..&rent=nearest')
+    expect(state.filters).toEqual({
+      ...EMPTY_TREE_FILTERS,
+      neighborhood: 'Chinatown',
+      scoreRanges: { ...EMPTY_TREE_FILTERS.scoreRanges, treeFriendsScore: { min: 2, max: null } },
+    })
+    expect(state.rentInterpolation).toEqual({ ...DEFAULT_RENT_INTERPOLATION, strategy: 'nearest' })
+  })
+
+  it('falls back to the defaults for malformed and unknown values', () => {
+    const state = readSessionState(
+      '?seed=21i3v9&grid=0x99&sampling=bogus&health=7&borough=Atlantis&species=&accessibility=a..b' +
+        '&model=nope&rent=magic&rentPower=-1&rentK=0&palette=neon&colors=sepia&unknown=1',
+    )
+    expect(state).toEqual(DEFAULT_STATE)
+  })
+
+  it('reads one number as a square grid, a bad seed as a fresh one and only full borough names', () => {
+    const state = readSessionState('?seed=not-a-seed!&grid=16')
+    expect(state.gridSize).toEqual({ rows: 16, columns: 16 })
+    expect(Number.isInteger(state.seed)).toBe(true)
+    expect(readSessionState('?borough=BK').filters.borough).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+import {
+  DEFAULT_COLOR_MODE,
+  DEFAULT_COLOR_PALETTE,
+  getColorPalette,
+  isColorMode,
+  type ColorMode,
+  type ColorPaletteId,
+} from '../colors.ts'
+import { isBorough } from '../data/boroughs.ts'
+import {
+  DEFAULT_RENT_INTERPOLATION,
+  RENT_INTERPOLATION_STRATEGIES,
+  type RentInterpolationOptions,
+} from '../data/rentInterpolation.ts'
+import { DEFAULT_SCORING_MODEL, getScoringModel } from '../data/scoringModels.ts'
+import {
+  EMPTY_TREE_FILTERS,
+  FILTERABLE_SCORES,
+  HEALTH_SCORE_OPTIONS,
+  UNBOUNDED_SCORE_RANGE,
+  type FilterableScore,
+  type ScoreRange,
+  type TreeFilters,
+} from '../data/treeFilters.ts'
+import { createRandomSeed, formatSeed, parseSeed } from './random.ts'
+import { DEFAULT_SAMPLING_MODE, isSamplingMode, type SamplingMode } from './sampling.ts'
+
+export type GridSize = {
+  rows: number
+  columns: number
+}
+
+export const DEFAULT_GRID_SIZE: GridSize = { rows: 12, columns: 12 }
+export const MAX_GRID_DIMENSION = 64
+
+export type SessionState = {
+  seed: number
+  gridSize: GridSize
+  samplingMode: SamplingMode
+  filters: TreeFilters
+  scoringModelId: string
+  rentInterpolation: RentInterpolationOptions
+  colorPaletteId: ColorPaletteId
+  colorMode: ColorMode
+}
+
+const SCORE_RANGE_PARAMS: Record<FilterableScore, string> = {
+  accessibilityScore: 'accessibility',
+  treeFriendsScore: 'friends',
+  affordabilityScore: 'affordability',
+}
+
+const RANGE_SEPARATOR = '..'
+
+export function readSessionState(search: string): SessionState {
+  const params = new URLSearchParams(search)
+
+  return {
+    seed: parseSeed(params.get('seed')) ?? createRandomSeed(),
+    gridSize: parseGridSize(params.get('grid')) ?? DEFAULT_GRID_SIZE,
+    samplingMode: readSamplingMode(params.get('sampling')),
+    filters: readFilters(params),
+    scoringModelId: getScoringModel(params.get('model') ?? '').id,
+    rentInterpolation: readRentInterpolation(params),
+    colorPaletteId: getColorPalette(params.get('palette') ?? '').id,
+    colorMode: readColorMode(params.get('colors')),
+  }
+}
+
+export function writeSessionState(state: SessionState): string {
+  const params = new URLSearchParams()
+  params.set('seed', formatSeed(state.seed))
+  if (state.gridSize.rows !== DEFAULT_GRID_SIZE.rows || state.gridSize.columns !== DEFAULT_GRID_SIZE.columns) {
+    params.set('grid', `${state.gridSize.rows}x${state.gridSize.columns}`)
+  }
+  if (state.samplingMode !== DEFAULT_SAMPLING_MODE) params.set('sampling', state.samplingMode)
+
+  const { filters } = state
+  if (filters.species != null) params.set('species', filters.species)
+  if (filters.status != null) params.set('status', filters.status)
+  if (filters.healthScore != null) params.set('health', String(filters.healthScore))
+  if (filters.borough != null) params.set('borough', filters.borough)
+  if (filters.neighborhood != null) params.set('neighborhood', filters.neighborhood)
+  FILTERABLE_SCORES.forEach(({ id }) => {
+    const range = filters.scoreRanges[id]
+    if (range.min == null && range.max == null) return
+    params.set(SCORE_RANGE_PARAMS[id], `${range.min ?? ''}${RANGE_SEPARATOR}${range.max ?? ''}`)
+  })
+
+  if (state.scoringModelId !== DEFAULT_SCORING_MODEL.id) params.set('model', state.scoringModelId)
+
+  const { rentInterpolation } = state
+  if (rentInterpolation.strategy !== DEFAULT_RENT_INTERPOLATION.strategy) {
+    params.set('rent', rentInterpolation.strategy)
+  }
+  if (rentInterpolation.power !== DEFAULT_RENT_INTERPOLATION.power) {
+    params.set('rentPower', String(rentInterpolation.power))
+  }
+  if (rentInterpolation.neighborCount !== DEFAULT_RENT_INTERPOLATION.neighborCount) {
+    params.set('rentK', String(rentInterpolation.neighborCount))
+  }
+
+  if (state.colorPaletteId !== DEFAULT_COLOR_PALETTE.id) params.set('palette', state.colorPaletteId)
+  if (state.colorMode !== DEFAULT_COLOR_MODE) params.set('colors', state.colorMode)
+
+  return `?${params.toString()}`
+}
+
+function readSamplingMode(value: string | null): SamplingMode {
+  return isSamplingMode(value) ? value : DEFAULT_SAMPLING_MODE
+}
+
+function readColorMode(value: string | null): ColorMode {
+  return isColorMode(value) ? value : DEFAULT_COLOR_MODE
+}
+
+function readFilters(params: URLSearchParams): TreeFilters {
+  const healthScore = parseInteger(params.get('health'), 0, 3)
+  const borough = params.get('borough') ?? ''
+  const scoreRanges = { ...EMPTY_TREE_FILTERS.scoreRanges }
+  FILTERABLE_SCORES.forEach(({ id }) => {
+    scoreRanges[id] = parseScoreRange(params.get(SCORE_RANGE_PARAMS[id]))
+  })
+
+  return {
+    species: params.get('species') || null,
+    status: params.get('status') || null,
+    healthScore: healthScore != null && HEALTH_SCORE_OPTIONS.includes(healthScore) ? healthScore : null,
+    borough: isBorough(borough) ? borough : null,
+    neighborhood: params.get('neighborhood') || null,
+    scoreRanges,
+  }
+}
+
+function readRentInterpolation(params: URLSearchParams): RentInterpolationOptions {
+  const strategy = RENT_INTERPOLATION_STRATEGIES.find((info) => info.id === params.get('rent'))?.id
+  const power = Number(params.get('rentPower'))
+  return {
+    strategy: strategy ?? DEFAULT_RENT_INTERPOLATION.strategy,
+    power: params.has('rentPower') && Number.isFinite(power) && power >= 0 ? power : DEFAULT_RENT_INTERPOLATION.power,
+    neighborCount: parseInteger(params.get('rentK'), 1, Infinity) ?? DEFAULT_RENT_INTERPOLATION.neighborCount,
+  }
+}
+
+function parseGridSize(value: string | null): GridSize | null {
+  if (!value) return null
+  const [rowsValue, columnsValue = rowsValue] = value.toLowerCase().split('x')
+  const rows = parseInteger(rowsValue, 1, MAX_GRID_DIMENSION)
+  const columns = parseInteger(columnsValue, 1, MAX_GRID_DIMENSION)
+  return rows != null && columns != null ? { rows, columns } : null
+}
+
+function parseScoreRange(value: string | null): ScoreRange {
+  if (!value) return UNBOUNDED_SCORE_RANGE
+  const [min = '', max = ''] = value.split(RANGE_SEPARATOR)
+  return { min: parseBound(min), max: parseBound(max) }
+}
+
+function parseBound(value: string): number | null {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function parseInteger(value: string | null, min: number, max: number): number | null {
+  if (value == null || !/^\d+$/.test(value)) return null
+  const parsed = Number(value)
+  return parsed >= min && parsed <= max ? parsed : null
+}
@@ -0,0 +1,23 @@
+import type { TreeRecord } from '../data/trees.ts'
+
+// A healthy street tree with every field filled in, for tests to override what they care about.
+export function createTree(overrides: Partial<TreeRecord> = {}): TreeRecord {
+  return {
+    treeId: '180683',
+    status: 'Alive',
+    sidewalk: 'NoDamage',
+    problems: 'None',
+    latitude: 40.72309177,
+    longitude: -73.98421522,
+    borough: 'Manhattan',
+    neighborhood: 'Lower East Side',
+    neighborhoodMethod: 'polygon',
+    species: 'red maple',
+    averageNeighborDistance: 6.4,
+    expectedRent: 3650,
+    treeFriendsScore: 9.47,
+    affordabilityScore: 7.23,
+    accessibilityScore: 9.81,
+    ...overrides,
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { createTree } from './test/treeFixtures.ts'
+import { getTreeTooltipContent } from './tooltip.ts'
+
+describe('getTreeTooltipContent', () => {
+  it('describes an alive tree without a problems line', () => {
+    expect(getTreeTooltipContent(createTree())).toMatchSnapshot()
+  })
+
+  it('marks a dead tree with the dead suffix', () => {
+    expect(getTreeTooltipContent(createTree({ status: 'Dead', accessibilityScore: 0 }))).toMatchSnapshot()
+  })
+
+  it('describes a stump', () => {
+    expect(
+      getTreeTooltipContent(
+        createTree({ status: 'Stump', species: '', problems: '', accessibilityScore: 0, neighborhoodMethod: 'none' }),
+      ),
+    ).toMatchSnapshot()
+  })
+
+  it('lists the problems of a damaged tree', () => {
+    expect(
+      getTreeTooltipContent(
+        createTree({
+          sidewalk: 'Damage',
+          problems: 'RootStone,BranchLights',
+          neighborhoodMethod: 'centroid',
+          accessibilityScore: 6.48,
+        }),
+      ),
+    ).toMatchSnapshot()
+  })
+
+  it('falls back to the sidewalk damage when a damaged tree has no recorded problems', () => {
+    expect(getTreeTooltipContent(createTree({ sidewalk: 'Damage' })).at(-1)).toEqual({ text: 'Problems: Damage' })
+  })
+
+  it('shows missing scores and coordinates as placeholders', () => {
+    expect(
+      getTreeTooltipContent(
+        createTree({
+          treeId: '',
+          latitude: Number.NaN,
+          affordabilityScore: null,
+          accessibilityScore: null,
+        }),
+      ),
+    ).toMatchSnapshot()
+  })
+})
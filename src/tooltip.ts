@@ -0,0 +1,201 @@
+import { clamp } from './data/math.ts'
+import { calculateHealthScore, normalizeAffordabilityScore, normalizeTreeFriendsScore } from './data/scoring.ts'
+import type { TreeRecord } from './data/trees.ts'
+
+const TOOLTIP_GAP = 16
+const TOOLTIP_LINE_HEIGHT = 2.1
+const TOOLTIP_FONT_SIZE_MIN_PX = 9
+const TOOLTIP_FONT_SIZE_MAX_PX = 18
+const TOOLTIP_FONT_SIZE_VIEWPORT_RATIO = 0.015
+const TOOLTIP_PADDING_X_SCALE = 1.25
+const TOOLTIP_PADDING_Y_SCALE = 0.55
+
+let measurementContext: CanvasRenderingContext2D | null = null
+
+export type TooltipMetrics = {
+  fontSizePx: number
+  paddingXPx: number
+  paddingYPx: number
+}
+
+export type TooltipAnchor = {
+  clientX: number
+  clientY: number
+}
+
+export type TooltipLine = {
+  text: string
+  deadSuffix?: string
+}
+
+export function getTreeTooltipContent(tree: TreeRecord): TooltipLine[] {
+  const lines: TooltipLine[] = [
+    { text: tree.treeId ? `tree-#${tree.treeId}` : 'tree-#unknown' },
+    { text: `Accessibility: ${formatAccessibilityScore(tree.accessibilityScore)}` },
+    { text: `Neighborhood: ${tree.neighborhood}${formatNeighborhoodMethod(tree)}` },
+    { text: `Coordinates: ${formatCoordinate(tree.latitude)}, ${formatCoordinate(tree.longitude)}` },
+    { text: `Species: ${tree.species || 'unknown'}` },
+    { text: `Tree Friends: ${formatTreeFriendsScore(tree.treeFriendsScore)}` },
+    { text: `Affordability: ${formatAffordabilityScore(tree.affordabilityScore)}` },
+    { text: `Health: ${formatHealthScore(tree)}` },
+  ]
+
+  if (shouldShowProblems(tree)) {
+    const isDead = tree.status.trim().toLowerCase() === 'dead'
+    if (isDead) {
+      lines.push({
+        text: 'Problems:',
+        deadSuffix: 'dead',
+      })
+    } else {
+      lines.push({
+        text: `Problems: ${formatProblems(tree)}`,
+      })
+    }
+  }
+
+  return lines
+}
+
+export function formatTreeFriendsScore(score: number): string {
+  return normalizeTreeFriendsScore(score).toFixed(1)
+}
+
+export function formatAffordabilityScore(value: number | null): string {
+  return normalizeAffordabilityScore(value).toFixed(1)
+}
+
+function formatAccessibilityScore(score: number | null): string {
+  if (score == null || !Number.isFinite(score)) return '0.0'
+  return score.toFixed(1)
+}
+
+export function formatNeighborhoodMethod(tree: TreeRecord): string {
+  if (tree.neighborhoodMethod === 'polygon') return ' (boundary)'
+  if (tree.neighborhoodMethod === 'centroid') return ' (nearest centroid)'
+  return ''
+}
+
+export function formatCoordinate(value: number): string {
+  if (!Number.isFinite(value)) return 'unknown'
+  return value.toFixed(5)
+}
+
+export function formatDistance(meters: number): string {
+  if (!Number.isFinite(meters)) return 'unknown'
+  return meters < 1000 ? `${meters.toFixed(1)} m` : `${(meters / 1000).toFixed(2)} km`
+}
+
+export function formatRent(rent: number | null): string {
+  if (rent == null || !Number.isFinite(rent)) return 'no rent'
+  return `$${Math.round(rent).toLocaleString()}`
+}
+
+function formatHealthScore(tree: TreeRecord): string {
+  const score = calculateHealthScore(tree)
+  if (!Number.isFinite(score)) return '0'
+  return score.toFixed(0)
+}
+
+function shouldShowProblems(tree: TreeRecord): boolean {
+  if (tree.status.trim().toLowerCase() === 'dead') return true
+  return calculateHealthScore(tree) !== 3
+}
+
+function formatProblems(tree: TreeRecord): string {
+  const rawProblems = tree.problems?.trim()
+  if (rawProblems && rawProblems.toLowerCase() !== 'none') {
+    return rawProblems
+  }
+
+  const sidewalkIssue = tree.sidewalk?.trim()
+  if (sidewalkIssue && sidewalkIssue.toLowerCase() !== 'nodamage') {
+    return sidewalkIssue
+  }
+
+  return 'Unknown'
+}
+
+export function calculateTooltipPosition(
+  text: string,
+  clientX: number,
+  clientY: number,
+  metrics: TooltipMetrics,
+): { x: number; y: number } {
+  if (typeof window === 'undefined') {
+    return { x: clientX + TOOLTIP_GAP, y: clientY + TOOLTIP_GAP }
+  }
+
+  const { width, height } = measureTooltipSize(text, metrics)
+  const viewportWidth = window.innerWidth
+  const viewportHeight = window.innerHeight
+
+  const spaceOnLeft = clientX - TOOLTIP_GAP - width
+  if (spaceOnLeft >= TOOLTIP_GAP) {
+    const y = clamp(clientY - height / 2, TOOLTIP_GAP, viewportHeight - height - TOOLTIP_GAP)
+    return { x: spaceOnLeft, y }
+  }
+
+  const y = clamp(clientY + TOOLTIP_GAP, TOOLTIP_GAP, viewportHeight - height - TOOLTIP_GAP)
+  const x = clamp(clientX - width / 2, TOOLTIP_GAP, viewportWidth - width - TOOLTIP_GAP)
+  return { x, y }
+}
+
+function measureTooltipSize(text: string, metrics: TooltipMetrics): { width: number; height: number } {
+  const lines = text.split('\n')
+  const lineHeight = metrics.fontSizePx * TOOLTIP_LINE_HEIGHT
+  const textHeight = Math.max(lineHeight * lines.length, metrics.fontSizePx)
+
+  const fallbackLineWidth = Math.max(...lines.map((line) => line.length * metrics.fontSizePx * 0.6), 0)
+  const context = getMeasurementContext()
+
+  if (!context) {
+    return {
+      width: fallbackLineWidth + metrics.paddingXPx * 2,
+      height: textHeight + metrics.paddingYPx * 2,
+    }
+  }
+
+  context.font = `${metrics.fontSizePx}px 'Menlo', 'Courier New', monospace`
+  const maxMeasuredWidth = lines.reduce((maxWidth, line) => {
+    const measurement = context.measureText(line)
+    return Math.max(maxWidth, measurement.width)
+  }, 0)
+
+  return {
+    width: Math.max(maxMeasuredWidth, fallbackLineWidth) + metrics.paddingXPx * 2,
+    height: textHeight + metrics.paddingYPx * 2,
+  }
+}
+
+export function getTooltipMetrics(): TooltipMetrics {
+  const fontSizePx = getResponsiveFontSizePx()
+  return {
+    fontSizePx,
+    paddingXPx: fontSizePx * TOOLTIP_PADDING_X_SCALE,
+    paddingYPx: fontSizePx * TOOLTIP_PADDING_Y_SCALE,
+  }
+}
+
+export function getResponsiveFontSizePx(): number {
+  const fallback = clamp(800 * TOOLTIP_FONT_SIZE_VIEWPORT_RATIO, TOOLTIP_FONT_SIZE_MIN_PX, TOOLTIP_FONT_SIZE_MAX_PX)
+  if (typeof window === 'undefined') {
+    return fallback
+  }
+
+  const viewportMin = Math.min(window.innerWidth, window.innerHeight)
+  const ideal = viewportMin * TOOLTIP_FONT_SIZE_VIEWPORT_RATIO
+  return clamp(ideal, TOOLTIP_FONT_SIZE_MIN_PX, TOOLTIP_FONT_SIZE_MAX_PX)
+}
+
+function getMeasurementContext(): CanvasRenderingContext2D | null {
+  if (measurementContext) return measurementContext
+  if (typeof document === 'undefined') return null
+
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  if (!context) return null
+
+  measurementContext = context
+  return context
+}
@@ -0,0 +1,210 @@
+import { useState, type DragEvent } from 'react'
+import {
+  DATASET_LABELS,
+  DATASET_NAMES,
+  getDatasetColumns,
+  getUnmappedRequiredColumns,
+  guessColumnMapping,
+  guessDatasetName,
+  type DatasetColumnMappings,
+} from '../data/columnMapping.ts'
+import { parseCsvHeader } from '../data/csv.ts'
+import type { DatasetName } from '../data/validation.ts'
+import type { UploadedDataset, UploadedDatasetInfo } from './uploadStore.ts'
+
+// Enough of the file to hold the header row without reading a whole census into memory.
+const HEADER_SAMPLE_BYTES = 64 * 1024
+
+type PendingFile = {
+  file: File
+  headers: string[]
+}
+
+type DatasetUploadPanelProps = {
+  upload: UploadedDatasetInfo | null
+  uploadError: string | null
+  isUpdating: boolean
+  onUpload: (dataset: UploadedDataset) => void
+  onReset: () => void
+}
+
+export function DatasetUploadPanel({ upload, uploadError, isUpdating, onUpload, onReset }: DatasetUploadPanelProps) {
+  const [pendingFiles, setPendingFiles] = useState<Partial<Record<DatasetName, PendingFile>>>({})
+  const [columnMappings, setColumnMappings] = useState<DatasetColumnMappings>({})
+  const [isDragging, setIsDragging] = useState(false)
+  const [readError, setReadError] = useState<string | null>(null)
+
+  const unmappedColumns = DATASET_NAMES.flatMap((dataset) =>
+    pendingFiles[dataset] ? getUnmappedRequiredColumns(dataset, columnMappings[dataset] ?? {}) : [],
+  )
+  const canLoad = pendingFiles.trees != null && unmappedColumns.length === 0 && !isUpdating
+
+  const assignFile = async (file: File, dataset: DatasetName | null, assigned: DatasetName[]) => {
+    const headers = parseCsvHeader(await file.slice(0, HEADER_SAMPLE_BYTES).text())
+    const target = dataset ?? guessDatasetName(headers, assigned)
+    if (!target) {
+      setReadError(`${file.name} does not look like a tree, neighborhood or rent CSV. Choose it under one of them.`)
+      return null
+    }
+    setPendingFiles((current) => ({ ...current, [target]: { file, headers } }))
+    setColumnMappings((current) => ({ ...current, [target]: guessColumnMapping(target, headers) }))
+    return target
+  }
+
+  const addFiles = async (files: File[], dataset: DatasetName | null = null) => {
+    setReadError(null)
+    const assigned = DATASET_NAMES.filter((name) => pendingFiles[name] && name !== dataset)
+    try {
+      for (const file of files) {
+        const target = await assignFile(file, dataset, assigned)
+        if (target) assigned.push(target)
+      }
+    } catch {
+      setReadError('The file could not be read.')
+    }
+  }
+
+  const removeFile = (dataset: DatasetName) => {
+    setPendingFiles((current) => ({ ...current, [dataset]: undefined }))
+    setColumnMappings((current) => ({ ...current, [dataset]: undefined }))
+  }
+
+  const updateMapping = (dataset: DatasetName, column: string, header: string) => {
+    setColumnMappings((current) => {
+      const mapping = { ...current[dataset] }
+      if (header) {
+        mapping[column] = header
+      } else {
+        delete mapping[column]
+      }
+      return { ...current, [dataset]: mapping }
+    })
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    void addFiles(Array.from(event.dataTransfer.files))
+  }
+
+  const loadDataset = () => {
+    const files: UploadedDataset['files'] = {}
+    DATASET_NAMES.forEach((dataset) => {
+      const pending = pendingFiles[dataset]
+      if (pending) files[dataset] = pending.file
+    })
+    onUpload({ files, columnMappings, uploadedAt: new Date().toISOString() })
+    setPendingFiles({})
+    setColumnMappings({})
+  }
+
+  return (
+    <details className="app__panel">
+      <summary className="app__panel-summary">
+        Dataset · {upload ? `uploaded ${upload.fileNames.trees ?? ''}` : 'bundled'}
+        {isUpdating ? ' (loading…)' : ''}
+        {uploadError ? ' · upload failed' : ''}
+      </summary>
+      <div className="app__panel-body">
+        {upload ? (
+          <div className="app__panel-row app__panel-row--spread">
+            <p className="app__panel-note">
+              {DATASET_NAMES.map((dataset) => `${DATASET_LABELS[dataset]}: ${upload.fileNames[dataset] ?? 'bundled'}`)
+                .concat(`saved in this browser ${new Date(upload.uploadedAt).toLocaleString()}`)
+                .join(' · ')}
+            </p>
+            <button type="button" className="app__text-button" disabled={isUpdating} onClick={onReset}>
+              revert to bundled data
+            </button>
+          </div>
+        ) : (
+          <p className="app__panel-note">
+            Drop replacement CSVs here to score another borough or city. Only the tree CSV is required; the bundled
+            neighborhood coordinates and rents fill in for the others.
+          </p>
+        )}
+        <div
+          className={isDragging ? 'app__dropzone app__dropzone--active' : 'app__dropzone'}
+          onDragOver={(event) => {
+            event.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          Drag CSV files here or choose them below.
+        </div>
+        {DATASET_NAMES.map((dataset) => {
+          const pending = pendingFiles[dataset]
+          const mapping = columnMappings[dataset] ?? {}
+          return (
+            <fieldset key={dataset} className="app__fieldset app__upload-dataset">
+              <legend className="app__control-label">
+                {DATASET_LABELS[dataset]}
+                {dataset === 'trees' ? ' (required)' : ''}
+              </legend>
+              <div className="app__panel-row">
+                <input
+                  className="app__file-input"
+                  type="file"
+                  accept=".csv,text/csv"
+                  aria-label={`${DATASET_LABELS[dataset]} CSV`}
+                  onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) void addFiles([file], dataset)
+                    event.target.value = ''
+                  }}
+                />
+                {pending && (
+                  <>
+                    <span>{pending.file.name}</span>
+                    <button type="button" className="app__text-button" onClick={() => removeFile(dataset)}>
+                      remove
+                    </button>
+                  </>
+                )}
+              </div>
+              {pending && (
+                <div className="app__panel-row">
+                  {getDatasetColumns(dataset).map((column) => (
+                    <label key={column.name} className="app__control">
+                      <span className="app__control-label">
+                        {column.name}
+                        {column.required ? '*' : ''}
+                      </span>
+                      <select
+                        className="app__select"
+                        value={mapping[column.name] ?? ''}
+                        onChange={(event) => updateMapping(dataset, column.name, event.target.value)}
+                      >
+                        <option value="">(none)</option>
+                        {pending.headers.map((header, index) => (
+                          <option key={index} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </fieldset>
+          )
+        })}
+        {unmappedColumns.length > 0 && (
+          <p className="app__panel-note">Map the required columns first: {unmappedColumns.join(', ')}.</p>
+        )}
+        {(readError ?? uploadError) && (
+          <p className="app__panel-note app__upload-error" role="alert">
+            {readError ?? uploadError}
+          </p>
+        )}
+        <div className="app__panel-row">
+          <button type="button" className="app__text-button" disabled={!canLoad} onClick={loadDataset}>
+            load dataset
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,93 @@
+import type { DatasetColumnMappings } from '../data/columnMapping.ts'
+import type { RawTreeDatasetSource, TreeDatasetSource } from '../data/treeDataset.ts'
+import type { DatasetName } from '../data/validation.ts'
+
+const DATABASE_NAME = 'random-roots'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'datasets'
+const UPLOADED_DATASET_KEY = 'uploaded'
+
+export type UploadedDataset = {
+  files: Partial<Record<DatasetName, File>>
+  columnMappings: DatasetColumnMappings
+  uploadedAt: string
+}
+
+export type UploadedDatasetInfo = {
+  fileNames: Partial<Record<DatasetName, string>>
+  uploadedAt: string
+}
+
+export function getUploadedDatasetInfo({ files, uploadedAt }: UploadedDataset): UploadedDatasetInfo {
+  const fileNames: UploadedDatasetInfo['fileNames'] = {}
+  Object.entries(files).forEach(([dataset, file]) => {
+    fileNames[dataset as DatasetName] = file.name
+  })
+  return { fileNames, uploadedAt }
+}
+
+// Files left out of the upload fall back to the bundled ones. The bundled boundaries only describe the bundled
+// neighborhoods, so they are dropped along with them.
+export async function createUploadedDatasetSource(
+  { files, columnMappings }: UploadedDataset,
+  bundled: TreeDatasetSource,
+): Promise<RawTreeDatasetSource> {
+  if (!files.trees) throw new Error('An uploaded dataset needs a tree CSV.')
+
+  const uploadedMappings: DatasetColumnMappings = {}
+  Object.keys(files).forEach((dataset) => {
+    const name = dataset as DatasetName
+    uploadedMappings[name] = columnMappings[name]
+  })
+
+  return {
+    kind: 'raw',
+    treeCsv: await files.trees.text(),
+    neighborhoodsCsv: files.neighborhoods ? await files.neighborhoods.text() : bundled.neighborhoodsCsv,
+    rentCsv: files.rent ? await files.rent.text() : bundled.rentCsv,
+    neighborhoodBoundariesGeoJson: files.neighborhoods ? null : bundled.neighborhoodBoundariesGeoJson,
+    columnMappings: uploadedMappings,
+  }
+}
+
+export async function readUploadedDataset(): Promise<UploadedDataset | null> {
+  const dataset = await runRequest<UploadedDataset | undefined>('readonly', (store) =>
+    store.get(UPLOADED_DATASET_KEY),
+  )
+  return dataset ?? null
+}
+
+export async function saveUploadedDataset(dataset: UploadedDataset): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(dataset, UPLOADED_DATASET_KEY))
+}
+
+export async function clearUploadedDataset(): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(UPLOADED_DATASET_KEY))
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode)
+      const request = createRequest(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    database.close()
+  }
+}
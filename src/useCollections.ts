@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react'
+import {
+  createCollection,
+  DEFAULT_COLLECTION_NAME,
+  pinTree,
+  readCollections,
+  unpinTree,
+  updateEntryNote,
+  writeCollections,
+  type TreeCollection,
+} from './collections/collections.ts'
+import type { TreeRecord } from './data/trees.ts'
+
+export type Collections = {
+  collections: TreeCollection[]
+  activeCollection: TreeCollection | null
+  saveFailed: boolean
+  setActiveCollectionId: (id: string) => void
+  addCollection: (name: string) => void
+  deleteCollection: (id: string) => void
+  pin: (tree: TreeRecord) => string
+  unpin: (collectionId: string, treeKey: string) => void
+  updateNote: (collectionId: string, treeKey: string, note: string) => void
+  importCollections: (imported: TreeCollection[]) => void
+}
+
+export function useCollections(): Collections {
+  const [collections, setCollections] = useState(readCollections)
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null)
+  const [saveFailed, setSaveFailed] = useState(false)
+  const activeCollection =
+    collections.find((collection) => collection.id === activeCollectionId) ?? collections[0] ?? null
+
+  useEffect(() => {
+    setSaveFailed(!writeCollections(collections))
+  }, [collections])
+
+  const updateCollection = (id: string, update: (collection: TreeCollection) => TreeCollection) => {
+    setCollections((current) => current.map((collection) => (collection.id === id ? update(collection) : collection)))
+  }
+
+  const addCollection = (name: string) => {
+    const collection = createCollection(name)
+    setCollections((current) => [...current, collection])
+    setActiveCollectionId(collection.id)
+  }
+
+  const deleteCollection = (id: string) => {
+    setCollections((current) => current.filter((collection) => collection.id !== id))
+  }
+
+  // Pinning before any collection exists starts a default one. Returns the name of the collection pinned to.
+  const pin = (tree: TreeRecord) => {
+    if (!activeCollection) {
+      const collection = pinTree(createCollection(DEFAULT_COLLECTION_NAME), tree)
+      setCollections((current) => [...current, collection])
+      setActiveCollectionId(collection.id)
+      return collection.name
+    }
+    updateCollection(activeCollection.id, (collection) => pinTree(collection, tree))
+    return activeCollection.name
+  }
+
+  const unpin = (collectionId: string, treeKey: string) => {
+    updateCollection(collectionId, (collection) => unpinTree(collection, treeKey))
+  }
+
+  const updateNote = (collectionId: string, treeKey: string, note: string) => {
+    updateCollection(collectionId, (collection) => updateEntryNote(collection, treeKey, note))
+  }
+
+  const importCollections = (imported: TreeCollection[]) => {
+    setCollections((current) => [...current, ...imported])
+    if (imported.length > 0) setActiveCollectionId(imported[0].id)
+  }
+
+  return {
+    collections,
+    activeCollection,
+    saveFailed,
+    setActiveCollectionId,
+    addCollection,
+    deleteCollection,
+    pin,
+    unpin,
+    updateNote,
+    importCollections,
+  }
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react'
+import type { UnmatchedRentNeighborhood } from './data/rent.ts'
+import { isSameRentInterpolation, type RentInterpolationOptions } from './data/rentInterpolation.ts'
+import type { RentReferenceData } from './data/treeDataset.ts'
+import type { TreeDataProgress, TreeRecord } from './data/trees.ts'
+import type { ValidationReport } from './data/validation.ts'
+import type { UploadedDataset, UploadedDatasetInfo } from './upload/uploadStore.ts'
+import TreeDataWorker from './workers/treeData.worker.ts?worker'
+import type { TreeDataWorkerRequest, TreeDataWorkerResponse } from './workers/treeDataMessages.ts'
+
+type ReadyTreeDataState = {
+  status: 'ready'
+  trees: TreeRecord[]
+  interpolation: RentInterpolationOptions
+  unmatchedRentNeighborhoods: UnmatchedRentNeighborhood[]
+  neighborhoodRents: Record<string, number>
+  rentReference: RentReferenceData
+  upload: UploadedDatasetInfo | null
+  uploadError: string | null
+  validationReport: ValidationReport | null
+  isUpdating: boolean
+}
+
+export type TreeDataState =
+  | { status: 'loading'; progress: TreeDataProgress | null }
+  | ReadyTreeDataState
+  | { status: 'error'; message: string }
+
+export type TreeData = {
+  state: TreeDataState
+  uploadDataset: (dataset: UploadedDataset) => void
+  resetDataset: () => void
+}
+
+export function useTreeData(interpolation: RentInterpolationOptions): TreeData {
+  const [state, setState] = useState<TreeDataState>({ status: 'loading', progress: null })
+  const workerRef = useRef<Worker | null>(null)
+  const requestedInterpolationRef = useRef(interpolation)
+  // Restored when an upload fails after its progress has replaced the loaded trees.
+  const lastReadyStateRef = useRef<ReadyTreeDataState | null>(null)
+
+  useEffect(() => {
+    const worker = new TreeDataWorker()
+    workerRef.current = worker
+
+    const fail = (message: string) => {
+      setState({ status: 'error', message })
+      worker.terminate()
+      workerRef.current = null
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<TreeDataWorkerResponse>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        setState({ status: 'loading', progress: message.progress })
+      } else if (message.type === 'loaded') {
+        if (message.trees.length === 0) {
+          fail('The tree dataset did not contain any usable rows.')
+          return
+        }
+        const readyState: ReadyTreeDataState = {
+          status: 'ready',
+          trees: message.trees,
+          interpolation: message.interpolation,
+          unmatchedRentNeighborhoods: message.unmatchedRentNeighborhoods,
+          neighborhoodRents: message.neighborhoodRents,
+          rentReference: message.rentReference,
+          upload: message.upload,
+          uploadError: null,
+          validationReport: message.validationReport,
+          isUpdating: !isSameRentInterpolation(message.interpolation, requestedInterpolationRef.current),
+        }
+        lastReadyStateRef.current = readyState
+        setState(readyState)
+      } else if (message.type === 'upload-error') {
+        const readyState = lastReadyStateRef.current
+        setState((current) => {
+          if (current.status === 'ready') return { ...current, uploadError: message.message }
+          if (readyState) return { ...readyState, uploadError: message.message }
+          return { status: 'error', message: message.message }
+        })
+      } else {
+        fail(message.message)
+      }
+    })
+    worker.addEventListener('error', (event) => {
+      fail(event.message || 'The tree data worker failed to start.')
+    })
+
+    const request: TreeDataWorkerRequest = { type: 'load', interpolation: requestedInterpolationRef.current }
+    worker.postMessage(request)
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  const isReady = state.status === 'ready'
+
+  useEffect(() => {
+    const worker = workerRef.current
+    if (!worker || !isReady || isSameRentInterpolation(interpolation, requestedInterpolationRef.current)) return
+
+    requestedInterpolationRef.current = interpolation
+    setState((current) => (current.status === 'ready' ? { ...current, isUpdating: true } : current))
+    const request: TreeDataWorkerRequest = { type: 'interpolate', interpolation }
+    worker.postMessage(request)
+  }, [interpolation, isReady])
+
+  const postDatasetRequest = (request: TreeDataWorkerRequest) => {
+    const worker = workerRef.current
+    if (!worker) return
+    setState((current) => (current.status === 'ready' ? { ...current, uploadError: null, isUpdating: true } : current))
+    worker.postMessage(request)
+  }
+
+  return {
+    state,
+    uploadDataset: (dataset) =>
+      postDatasetRequest({ type: 'upload', interpolation: requestedInterpolationRef.current, dataset }),
+    resetDataset: () => postDatasetRequest({ type: 'reset', interpolation: requestedInterpolationRef.current }),
+  }
+}
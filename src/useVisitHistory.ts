@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react'
+import type { TreeRecord } from './data/trees.ts'
+import {
+  createVisitRecord,
+  createVisitSessionId,
+  MAX_VISIT_RECORDS,
+  readVisitHistory,
+  readVisitHistoryEnabled,
+  writeVisitHistory,
+  writeVisitHistoryEnabled,
+  type VisitRecord,
+} from './history/visitHistory.ts'
+
+// Trees vanish as fast as the pointer moves, so the log is written once the sweep settles rather than per tree.
+const HISTORY_SAVE_DELAY_MS = 500
+
+export type VisitHistory = {
+  records: VisitRecord[]
+  sessionId: string
+  isEnabled: boolean
+  saveFailed: boolean
+  setEnabled: (isEnabled: boolean) => void
+  recordVisit: (tree: TreeRecord, cellIndex: number, columns: number, scoringModelId: string) => void
+  clearHistory: () => void
+}
+
+export function useVisitHistory(): VisitHistory {
+  const [isEnabled, setIsEnabled] = useState(readVisitHistoryEnabled)
+  const [records, setRecords] = useState(readVisitHistory)
+  const [sessionId] = useState(() => createVisitSessionId())
+  const [saveFailed, setSaveFailed] = useState(false)
+  const unsavedRecordsRef = useRef<VisitRecord[] | null>(null)
+
+  useEffect(() => {
+    unsavedRecordsRef.current = records
+    const timeout = window.setTimeout(() => {
+      unsavedRecordsRef.current = null
+      setSaveFailed(!writeVisitHistory(records))
+    }, HISTORY_SAVE_DELAY_MS)
+    return () => window.clearTimeout(timeout)
+  }, [records])
+
+  // The page can be closed or frozen inside the save delay, so a pending write is flushed as soon as it is hidden.
+  useEffect(() => {
+    const flush = () => {
+      if (unsavedRecordsRef.current == null) return
+      writeVisitHistory(unsavedRecordsRef.current)
+      unsavedRecordsRef.current = null
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush()
+    }
+    window.addEventListener('pagehide', flush)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      window.removeEventListener('pagehide', flush)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      flush()
+    }
+  }, [])
+
+  const setEnabled = (value: boolean) => {
+    writeVisitHistoryEnabled(value)
+    setIsEnabled(value)
+  }
+
+  const recordVisit = (tree: TreeRecord, cellIndex: number, columns: number, scoringModelId: string) => {
+    if (!isEnabled) return
+    const record = createVisitRecord(tree, cellIndex, columns, sessionId, scoringModelId)
+    setRecords((current) => [...current.slice(-(MAX_VISIT_RECORDS - 1)), record])
+  }
+
+  const clearHistory = () => setRecords([])
+
+  return { records, sessionId, isEnabled, saveFailed, setEnabled, recordVisit, clearHistory }
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import { formatValidationIssue, type ValidationReport } from '../data/validation.ts'
+
+const MAX_VISIBLE_ISSUES = 50
+
+type ValidationOverlayProps = {
+  report: ValidationReport
+}
+
+export function ValidationOverlay({ report }: ValidationOverlayProps) {
+  const [isDismissed, setIsDismissed] = useState(false)
+  if (isDismissed || report.issues.length === 0) return null
+
+  const errorCount = report.issues.filter((issue) => issue.severity === 'error').length
+  const warningCount = report.issues.length - errorCount
+  const visibleIssues = [...report.issues]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    .slice(0, MAX_VISIBLE_ISSUES)
+
+  return (
+    <aside
+      className={`app__validation${report.hasErrors ? ' app__validation--error' : ''}`}
+      aria-label="Data validation report"
+    >
+      <div className="app__validation-header">
+        <h2 className="app__panel-heading">
+          Data validation: {errorCount} errors, {warningCount} warnings
+        </h2>
+        <button
+          type="button"
+          className="app__map-button"
+          aria-label="Dismiss data validation report"
+          onClick={() => setIsDismissed(true)}
+        >
+          ×
+        </button>
+      </div>
+      <ul className="app__panel-list">
+        {report.summaries.map((summary) => (
+          <li key={summary.dataset}>
+            {summary.dataset}: {summary.keptRows} of {summary.totalRows} rows kept
+            {summary.droppedRows > 0 && `, ${summary.droppedRows} dropped`}
+          </li>
+        ))}
+      </ul>
+      <ul className="app__validation-issues">
+        {visibleIssues.map((issue, index) => (
+          <li key={index} className={`app__validation-issue app__validation-issue--${issue.severity}`}>
+            {formatValidationIssue(issue)}
+          </li>
+        ))}
+      </ul>
+      {report.issues.length > visibleIssues.length && (
+        <p className="app__panel-note">
+          {report.issues.length - visibleIssues.length} more issues. Run npm run validate:data for the full list.
+        </p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,4 @@
+declare module 'virtual:tree-dataset' {
+  const source: import('./data/treeDataset.ts').TreeDatasetSource
+  export default source
+}
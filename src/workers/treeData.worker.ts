@@ -0,0 +1,117 @@
+import treeDatasetSource from 'virtual:tree-dataset'
+import type { RentInterpolationOptions } from '../data/rentInterpolation.ts'
+import {
+  applyRentInterpolation,
+  getNeighborhoodRents,
+  getUnmatchedRentNeighborhoods,
+  loadTreeDataset,
+  type LoadedTreeDataset,
+  type TreeDatasetSource,
+} from '../data/treeDataset.ts'
+import { validateDatasets, type ValidationReport } from '../data/validation.ts'
+import {
+  clearUploadedDataset,
+  createUploadedDatasetSource,
+  getUploadedDatasetInfo,
+  readUploadedDataset,
+  saveUploadedDataset,
+  type UploadedDataset,
+  type UploadedDatasetInfo,
+} from '../upload/uploadStore.ts'
+import type { TreeDataWorkerRequest, TreeDataWorkerResponse } from './treeDataMessages.ts'
+
+const respond = (message: TreeDataWorkerResponse) => self.postMessage(message)
+
+let loadedDataset: LoadedTreeDataset | null = null
+let activeUpload: UploadedDatasetInfo | null = null
+let validationReport: ValidationReport | null = null
+// Uploads read files and IndexedDB asynchronously, so requests are queued to keep them in order.
+let pendingRequest = Promise.resolve()
+
+self.addEventListener('message', (event: MessageEvent<TreeDataWorkerRequest>) => {
+  const request = event.data
+  pendingRequest = pendingRequest.then(() => handleRequest(request))
+})
+
+async function handleRequest(request: TreeDataWorkerRequest): Promise<void> {
+  try {
+    if (request.type === 'load') {
+      // A stored upload that no longer loads is dropped rather than leaving the app stuck on an error.
+      const upload = await readUploadedDataset().catch(() => null)
+      if (upload) {
+        if (await tryLoadUpload(upload, request.interpolation).catch(() => false)) return
+        await clearUploadedDataset().catch(() => undefined)
+      }
+      loadBundledDataset(request.interpolation)
+      return
+    }
+
+    if (request.type === 'upload') {
+      if (!(await tryLoadUpload(request.dataset, request.interpolation))) {
+        respond({ type: 'upload-error', message: 'The uploaded tree CSV did not contain any usable rows.' })
+        return
+      }
+      await saveUploadedDataset(request.dataset).catch(() =>
+        respond({ type: 'upload-error', message: 'The dataset was loaded but could not be saved for next time.' }),
+      )
+      return
+    }
+
+    if (request.type === 'reset') {
+      await clearUploadedDataset().catch(() => undefined)
+      loadBundledDataset(request.interpolation)
+      return
+    }
+
+    if (!loadedDataset) {
+      throw new Error('Tree data must be loaded before rent can be reinterpolated.')
+    }
+    loadedDataset = {
+      ...loadedDataset,
+      trees: applyRentInterpolation(loadedDataset.trees, loadedDataset.reference, request.interpolation),
+    }
+    respondLoaded(loadedDataset, request.interpolation)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    respond({ type: request.type === 'upload' ? 'upload-error' : 'error', message })
+  }
+}
+
+function loadBundledDataset(interpolation: RentInterpolationOptions): void {
+  validationReport = treeDatasetSource.kind === 'raw' ? validateDatasets(treeDatasetSource) : null
+  activeUpload = null
+  loadedDataset = loadSource(treeDatasetSource, interpolation)
+  respondLoaded(loadedDataset, interpolation)
+}
+
+// Keeps the current dataset when the upload yields no trees.
+async function tryLoadUpload(upload: UploadedDataset, interpolation: RentInterpolationOptions): Promise<boolean> {
+  const dataset = loadSource(await createUploadedDatasetSource(upload, treeDatasetSource), interpolation)
+  if (dataset.trees.length === 0) return false
+
+  validationReport = null
+  activeUpload = getUploadedDatasetInfo(upload)
+  loadedDataset = dataset
+  respondLoaded(loadedDataset, interpolation)
+  return true
+}
+
+function loadSource(source: TreeDatasetSource, interpolation: RentInterpolationOptions): LoadedTreeDataset {
+  return loadTreeDataset(source, {
+    interpolation,
+    onProgress: (progress) => respond({ type: 'progress', progress }),
+  })
+}
+
+function respondLoaded(dataset: LoadedTreeDataset, interpolation: RentInterpolationOptions): void {
+  respond({
+    type: 'loaded',
+    trees: dataset.trees,
+    interpolation,
+    unmatchedRentNeighborhoods: getUnmatchedRentNeighborhoods(dataset.reference),
+    neighborhoodRents: getNeighborhoodRents(dataset.trees, dataset.reference),
+    rentReference: { neighborhoods: dataset.reference.neighborhoods, rentLookup: dataset.reference.rentLookup },
+    upload: activeUpload,
+    validationReport,
+  })
+}
@@ -0,0 +1,27 @@
+import type { UnmatchedRentNeighborhood } from '../data/rent.ts'
+import type { RentInterpolationOptions } from '../data/rentInterpolation.ts'
+import type { RentReferenceData } from '../data/treeDataset.ts'
+import type { TreeDataProgress, TreeRecord } from '../data/trees.ts'
+import type { ValidationReport } from '../data/validation.ts'
+import type { UploadedDataset, UploadedDatasetInfo } from '../upload/uploadStore.ts'
+
+export type TreeDataWorkerRequest =
+  | { type: 'load'; interpolation: RentInterpolationOptions }
+  | { type: 'interpolate'; interpolation: RentInterpolationOptions }
+  | { type: 'upload'; interpolation: RentInterpolationOptions; dataset: UploadedDataset }
+  | { type: 'reset'; interpolation: RentInterpolationOptions }
+
+export type TreeDataWorkerResponse =
+  | { type: 'progress'; progress: TreeDataProgress }
+  | {
+      type: 'loaded'
+      trees: TreeRecord[]
+      interpolation: RentInterpolationOptions
+      unmatchedRentNeighborhoods: UnmatchedRentNeighborhood[]
+      neighborhoodRents: Record<string, number>
+      rentReference: RentReferenceData
+      upload: UploadedDatasetInfo | null
+      validationReport: ValidationReport | null
+    }
+  | { type: 'upload-error'; message: string }
+  | { type: 'error'; message: string }
@@ -1,9 +1,14 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import treeDatasetPlugin from './plugins/treeDataset.ts'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), treeDatasetPlugin()],
+  worker: {
+    format: 'es',
+    plugins: () => [treeDatasetPlugin()],
+  },
   server: {
     port: 3000,
     host: true,